@@ -7,8 +7,13 @@ import { AuthProvider } from "@/hooks/useAuth";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import AddEvent from "./pages/AddEvent";
+import ImportEvents from "./pages/ImportEvents";
 import EditEvent from "./pages/EditEvent";
 import EventDetails from "./pages/EventDetails";
+import MyEvents from "./pages/MyEvents";
+import Admin from "./pages/Admin";
+import VenueBoard from "./pages/VenueBoard";
+import CheckIn from "./pages/CheckIn";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,8 +29,13 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/login" element={<Login />} />
             <Route path="/add-event" element={<AddEvent />} />
+            <Route path="/import-events" element={<ImportEvents />} />
             <Route path="/edit-event/:id" element={<EditEvent />} />
             <Route path="/event/:id" element={<EventDetails />} />
+            <Route path="/check-in/:id" element={<CheckIn />} />
+            <Route path="/my-events" element={<MyEvents />} />
+            <Route path="/venues" element={<VenueBoard />} />
+            <Route path="/admin" element={<Admin />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
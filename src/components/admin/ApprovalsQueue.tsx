@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ApprovalStatus, Event } from '@/lib/types';
+import { EmailService } from '@/lib/emailService';
+import { formatCampus } from '@/lib/timezone';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, X, Loader2, Inbox } from 'lucide-react';
+
+type Decision = Exclude<ApprovalStatus, 'requested'>;
+
+export function ApprovalsQueue() {
+  const { isSuperAdmin, managedVenueIds } = useAuth();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<{ event: Event; decision: Decision } | null>(null);
+  const [reason, setReason] = useState('');
+  const [reasonError, setReasonError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [isSuperAdmin, managedVenueIds]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    let query = supabase
+      .from('events')
+      .select('*, clubs(*), venues(*)')
+      .eq('approval_status', 'requested')
+      .order('start_time');
+
+    // Venue managers only see requests for the venues they look after
+    if (!isSuperAdmin) {
+      query = query.in('venue_id', managedVenueIds);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to load booking requests', variant: 'destructive' });
+    } else {
+      setRequests(data as Event[]);
+    }
+    setLoading(false);
+  };
+
+  const openDecision = (event: Event, decision: Decision) => {
+    setDeciding({ event, decision });
+    setReason('');
+    setReasonError('');
+  };
+
+  const handleDecide = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deciding) return;
+
+    if (deciding.decision === 'rejected' && !reason.trim()) {
+      setReasonError('Give the club a reason for the rejection');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc('decide_booking', {
+      _event_id: deciding.event.id,
+      _status: deciding.decision,
+      _reason: reason.trim() || undefined,
+    });
+
+    if (error) {
+      setSaving(false);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const notified = await EmailService.sendBookingDecision(deciding.event.id);
+    setSaving(false);
+    // A rejected request frees its slot for the waitlist
+    if (deciding.decision === 'rejected') EmailService.sendWaitlistOffers();
+
+    toast({
+      title: deciding.decision === 'approved' ? 'Booking approved' : 'Booking rejected',
+      description: notified
+        ? `${deciding.event.clubs?.club_name ?? 'The club'} has been emailed the decision`
+        : "The decision was saved, but the club couldn't be emailed",
+    });
+    setRequests(requests.filter((r) => r.id !== deciding.event.id));
+    setDeciding(null);
+  };
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Booking Requests
+        </CardTitle>
+        <CardDescription>
+          Venue bookings waiting for a decision. Requests hold their slot until they're rejected.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No bookings are waiting for approval.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Club</TableHead>
+                <TableHead>Venue</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead className="w-32 text-right">Decision</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">
+                    <Link to={`/event/${request.id}`} className="hover:underline">
+                      {request.event_name}
+                    </Link>
+                    {new Date(request.start_time) < now && (
+                      <Badge variant="closed" className="ml-2">Past</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{request.clubs?.club_name}</TableCell>
+                  <TableCell>{request.venues?.venue_name}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatCampus(request.start_time, 'MMM dd, yyyy')}
+                    <div className="text-muted-foreground">
+                      {formatCampus(request.start_time, 'h:mm a')} - {formatCampus(request.end_time, 'h:mm a')}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatCampus(request.created_at, 'MMM dd, h:mm a')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-success hover:text-success"
+                        title="Approve"
+                        onClick={() => openDecision(request, 'approved')}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Reject"
+                        onClick={() => openDecision(request, 'rejected')}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!deciding} onOpenChange={(open) => !open && setDeciding(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {deciding?.decision === 'approved' ? 'Approve booking?' : 'Reject booking?'}
+            </DialogTitle>
+            <DialogDescription>
+              {deciding?.event.event_name} at {deciding?.event.venues?.venue_name}. The club will be emailed the decision.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleDecide}>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="decision_reason">
+                {deciding?.decision === 'rejected' ? 'Reason *' : 'Note (optional)'}
+              </Label>
+              <Textarea
+                id="decision_reason"
+                rows={3}
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value);
+                  setReasonError('');
+                }}
+                className={reasonError ? 'border-destructive' : ''}
+              />
+              {reasonError && <p className="text-xs text-destructive">{reasonError}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDeciding(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={deciding?.decision === 'rejected' ? 'destructive' : 'default'}
+                disabled={saving}
+              >
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {deciding?.decision === 'approved' ? 'Approve' : 'Reject'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Club } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ClubMembersDialog } from '@/components/clubs/ClubMembersDialog';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { Plus, Edit, Trash2, Loader2, Users, UserCog } from 'lucide-react';
+
+const clubSchema = z.object({
+  club_name: z.string().trim().min(2, 'Club name must be at least 2 characters'),
+  description: z.string().optional(),
+});
+
+const emptyForm = { club_name: '', description: '' };
+
+export function ClubsManager() {
+  const { toast } = useToast();
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Club | null>(null);
+  const [deleting, setDeleting] = useState<Club | null>(null);
+  const [managing, setManaging] = useState<Club | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchClubs();
+  }, []);
+
+  const fetchClubs = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.from('clubs').select('*').order('club_name');
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to load clubs', variant: 'destructive' });
+    } else {
+      setClubs(data as Club[]);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const openEdit = (club: Club) => {
+    setEditing(club);
+    setFormData({ club_name: club.club_name, description: club.description || '' });
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const validation = clubSchema.safeParse(formData);
+    if (!validation.success) {
+      const fieldErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const payload = {
+      club_name: formData.club_name.trim(),
+      description: formData.description.trim() || null,
+    };
+
+    setSaving(true);
+    const { error } = editing
+      ? await supabase.from('clubs').update(payload).eq('id', editing.id)
+      : await supabase.from('clubs').insert([payload]);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? 'A club with this name already exists' : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Success', description: editing ? 'Club updated successfully' : 'Club created successfully' });
+    setDialogOpen(false);
+    fetchClubs();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase.from('clubs').delete().eq('id', deleting.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to delete club', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Club deleted successfully' });
+      setClubs(clubs.filter((c) => c.id !== deleting.id));
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Clubs
+          </CardTitle>
+          <CardDescription>Clubs that can organise events on the hub</CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Club
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : clubs.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No clubs yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-32 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clubs.map((club) => (
+                <TableRow key={club.id}>
+                  <TableCell className="font-medium">{club.club_name}</TableCell>
+                  <TableCell className="text-muted-foreground max-w-md truncate">
+                    {club.description || '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Club members"
+                        onClick={() => setManaging(club)}
+                      >
+                        <UserCog className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(club)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleting(club)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Club' : 'Add Club'}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Update the details of "${editing.club_name}"` : 'Register a new club on the hub'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="club_name">Club Name *</Label>
+                <Input
+                  id="club_name"
+                  value={formData.club_name}
+                  onChange={(e) => setFormData({ ...formData, club_name: e.target.value })}
+                  className={errors.club_name ? 'border-destructive' : ''}
+                />
+                {errors.club_name && <p className="text-xs text-destructive">{errors.club_name}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="club_description">Description</Label>
+                <Textarea
+                  id="club_description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing ? 'Save Changes' : 'Create Club'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete club?"
+        description={`"${deleting?.club_name}" and all of its events will be permanently removed.`}
+        onConfirm={handleDelete}
+      />
+
+      <ClubMembersDialog club={managing} onOpenChange={(open) => !open && setManaging(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Club, ClubRole, Invitation } from '@/lib/types';
+import { CLUB_ROLES, CLUB_ROLE_DESCRIPTIONS, CLUB_ROLE_LABELS } from '@/lib/clubRoles';
+import { EmailService } from '@/lib/emailService';
+import { formatCampus } from '@/lib/timezone';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { Copy, Loader2, Mail, Plus, Trash2, UserPlus } from 'lucide-react';
+
+type InvitedRole = Invitation['role'];
+
+const invitationSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email'),
+  role: z.enum(['super_admin', 'club_poc']),
+  club_id: z.string(),
+  club_role: z.enum(['viewer', 'editor', 'owner']),
+});
+
+function invitationState(invitation: Invitation) {
+  if (invitation.accepted_at) return 'accepted';
+  return new Date(invitation.expires_at) <= new Date() ? 'expired' : 'pending';
+}
+
+export function InvitationsManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [revoking, setRevoking] = useState<Invitation | null>(null);
+  const [formData, setFormData] = useState({ email: '', role: 'club_poc' as InvitedRole, club_id: '', club_role: 'owner' as ClubRole });
+  const [errors, setErrors] = useState<{ email?: string; club_id?: string }>({});
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const [invitationsRes, clubsRes] = await Promise.all([
+      supabase.from('invitations').select('*, clubs(*)').order('created_at', { ascending: false }),
+      supabase.from('clubs').select('*').order('club_name'),
+    ]);
+
+    if (invitationsRes.error) {
+      toast({ title: 'Error', description: 'Failed to load invitations', variant: 'destructive' });
+    }
+    if (invitationsRes.data) setInvitations(invitationsRes.data as Invitation[]);
+    if (clubsRes.data) setClubs(clubsRes.data as Club[]);
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setFormData({ email: '', role: 'club_poc', club_id: '', club_role: 'owner' });
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({ title: 'Copied', description: 'Invitation code copied to clipboard' });
+  };
+
+  const sendInvitation = async (invitation: Pick<Invitation, 'id' | 'email' | 'code'>) => {
+    const sent = await EmailService.sendInvitation(invitation.id);
+    toast({
+      title: sent ? 'Invitation sent' : 'Invitation created',
+      description: sent
+        ? `The code was emailed to ${invitation.email}.`
+        : `The email could not be sent. Share the code ${invitation.code} with ${invitation.email} yourself.`,
+      variant: sent ? 'default' : 'destructive',
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const validation = invitationSchema.safeParse(formData);
+    if (!validation.success) {
+      setErrors({ email: validation.error.errors[0].message });
+      return;
+    }
+    if (formData.role === 'club_poc' && !formData.club_id) {
+      setErrors({ club_id: 'Club POCs must belong to a club' });
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({
+        email: formData.email.trim().toLowerCase(),
+        role: formData.role,
+        club_id: formData.role === 'club_poc' ? formData.club_id : null,
+        club_role: formData.club_role,
+        invited_by: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      setSaving(false);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    await sendInvitation(data as Invitation);
+    setSaving(false);
+    setDialogOpen(false);
+    fetchData();
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+
+    const { error } = await supabase.from('invitations').delete().eq('id', revoking.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to revoke invitation', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Invitation revoked' });
+      setInvitations(invitations.filter((i) => i.id !== revoking.id));
+    }
+    setRevoking(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Invitations
+          </CardTitle>
+          <CardDescription>
+            Staff accounts are created from single-use invitations bound to an email, role and club
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Invite
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : invitations.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No invitations sent.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead className="w-28 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => {
+                const state = invitationState(invitation);
+                return (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={invitation.role === 'super_admin' ? 'accent' : 'secondary'} className="capitalize">
+                        {invitation.role.replace('_', ' ')}
+                      </Badge>
+                      {invitation.clubs && (
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {invitation.clubs.club_name} · {CLUB_ROLE_LABELS[invitation.club_role]}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={state === 'pending' ? 'default' : state === 'accepted' ? 'secondary' : 'outline'} className="capitalize">
+                        {state}
+                      </Badge>
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {state === 'accepted'
+                          ? formatCampus(invitation.accepted_at!, 'MMM d, yyyy')
+                          : `${state === 'expired' ? 'Expired' : 'Expires'} ${formatCampus(invitation.expires_at, 'MMM d, yyyy')}`}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{state === 'pending' ? invitation.code : '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {state === 'pending' && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyCode(invitation.code)}>
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => sendInvitation(invitation)}>
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {state !== 'accepted' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setRevoking(invitation)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invite Staff</DialogTitle>
+            <DialogDescription>
+              We'll email a code that works once, for this address only, within 7 days
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email *</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="coordinator@vit.ac.in"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className={errors.email ? 'border-destructive' : ''}
+                />
+                {errors.email && <p className="text-xs text-destructive">{errors.email}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value: InvitedRole) => setFormData({ ...formData, role: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="club_poc">Club POC</SelectItem>
+                    <SelectItem value="super_admin">Super Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.role === 'club_poc' && (
+                <div className="space-y-2">
+                  <Label>Club *</Label>
+                  <Select value={formData.club_id} onValueChange={(value) => setFormData({ ...formData, club_id: value })}>
+                    <SelectTrigger className={errors.club_id ? 'border-destructive' : ''}>
+                      <SelectValue placeholder="Select club" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-60">
+                      {clubs.map((club) => (
+                        <SelectItem key={club.id} value={club.id}>
+                          {club.club_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.club_id && <p className="text-xs text-destructive">{errors.club_id}</p>}
+                </div>
+              )}
+
+              {formData.role === 'club_poc' && (
+                <div className="space-y-2">
+                  <Label>Club Role *</Label>
+                  <Select
+                    value={formData.club_role}
+                    onValueChange={(value: ClubRole) => setFormData({ ...formData, club_role: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLUB_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {CLUB_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{CLUB_ROLE_DESCRIPTIONS[formData.club_role]}</p>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Invitation
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={!!revoking}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        title="Revoke invitation?"
+        description={`The code sent to ${revoking?.email} will stop working immediately.`}
+        onConfirm={handleRevoke}
+      />
+    </Card>
+  );
+}
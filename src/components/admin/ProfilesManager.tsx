@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole, ClubMembership, Profile } from '@/lib/types';
+import { CLUB_ROLE_LABELS } from '@/lib/clubRoles';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { Edit, Trash2, Loader2, User, Search } from 'lucide-react';
+
+const profileSchema = z.object({
+  full_name: z.string().trim().min(2, 'Full name must be at least 2 characters'),
+  role: z.enum(['super_admin', 'club_poc', 'student']),
+});
+
+interface ProfilesManagerProps {
+  onRolesChanged?: () => void;
+}
+
+export function ProfilesManager({ onRolesChanged }: ProfilesManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [memberships, setMemberships] = useState<ClubMembership[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<Profile | null>(null);
+  const [deleting, setDeleting] = useState<Profile | null>(null);
+  const [formData, setFormData] = useState({ full_name: '', role: 'club_poc' as AppRole });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const [profilesRes, membershipsRes] = await Promise.all([
+      supabase.from('profiles').select('*').order('full_name'),
+      supabase.from('club_memberships').select('*, clubs(*)'),
+    ]);
+
+    if (profilesRes.error) {
+      toast({ title: 'Error', description: 'Failed to load users', variant: 'destructive' });
+    }
+    if (profilesRes.data) setProfiles(profilesRes.data as Profile[]);
+    if (membershipsRes.data) setMemberships(membershipsRes.data as ClubMembership[]);
+    setLoading(false);
+  };
+
+  const openEdit = (profile: Profile) => {
+    setEditing(profile);
+    setFormData({
+      full_name: profile.full_name,
+      role: profile.role,
+    });
+    setErrors({});
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setErrors({});
+
+    const validation = profileSchema.safeParse(formData);
+    if (!validation.success) {
+      const fieldErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        full_name: formData.full_name.trim(),
+        role: formData.role,
+      })
+      .eq('id', editing.id);
+
+    if (!error && formData.role !== editing.role) {
+      // RLS checks user_roles, so keep it in step with the profile's role
+      await supabase.from('user_roles').delete().eq('user_id', editing.id).eq('role', editing.role);
+      await supabase
+        .from('user_roles')
+        .upsert([{ user_id: editing.id, role: formData.role }], { onConflict: 'user_id,role', ignoreDuplicates: true });
+      onRolesChanged?.();
+    }
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'User updated successfully' });
+    setEditing(null);
+    fetchData();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase.from('profiles').delete().eq('id', deleting.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to delete user profile', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'User profile deleted' });
+      setProfiles(profiles.filter((p) => p.id !== deleting.id));
+    }
+    setDeleting(null);
+  };
+
+  const clubsOf = (userId: string) => memberships.filter((m) => m.user_id === userId);
+
+  const filteredProfiles = profiles.filter((p) =>
+    !search ||
+    p.full_name.toLowerCase().includes(search.toLowerCase()) ||
+    p.email.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <User className="h-5 w-5" />
+            Users
+          </CardTitle>
+          <CardDescription>Profiles of everyone who has signed up</CardDescription>
+        </div>
+        <div className="relative w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search users..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : filteredProfiles.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No users found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Clubs</TableHead>
+                <TableHead className="w-24 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredProfiles.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell className="font-medium">{p.full_name}</TableCell>
+                  <TableCell className="text-muted-foreground">{p.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={p.role === 'super_admin' ? 'accent' : 'secondary'} className="capitalize">
+                      {p.role.replace('_', ' ')}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {clubsOf(p.id).length === 0
+                      ? '—'
+                      : clubsOf(p.id).map((m) => (
+                          <span key={m.id} className="block text-sm">
+                            {m.clubs?.club_name}{' '}
+                            <span className="text-xs text-muted-foreground">({CLUB_ROLE_LABELS[m.role]})</span>
+                          </span>
+                        ))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(p)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleting(p)}
+                        disabled={p.id === user?.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+            <DialogDescription>{editing?.email}</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile_full_name">Full Name *</Label>
+                <Input
+                  id="profile_full_name"
+                  value={formData.full_name}
+                  onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                  className={errors.full_name ? 'border-destructive' : ''}
+                />
+                {errors.full_name && <p className="text-xs text-destructive">{errors.full_name}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value: AppRole) => setFormData({ ...formData, role: value })}
+                  disabled={editing?.id === user?.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="student">Student</SelectItem>
+                    <SelectItem value="club_poc">Club POC</SelectItem>
+                    <SelectItem value="super_admin">Super Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Club access is managed from each club's members in the Clubs tab.</p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete user profile?"
+        description={`The profile for ${deleting?.email} will be removed. Their login stays active until the auth user is deleted in Supabase.`}
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Profile, RoleAuditFinding, RoleAuditFindingKind } from '@/lib/types';
+import { formatCampus } from '@/lib/timezone';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { Check, Loader2, RefreshCw, ShieldAlert, X } from 'lucide-react';
+
+const FINDING_LABELS: Record<RoleAuditFindingKind, string> = {
+  self_assigned: 'Self-assigned',
+  profile_mismatch: 'Profile mismatch',
+  missing_club: 'No club',
+  missing_profile: 'No profile',
+};
+
+interface RoleAuditManagerProps {
+  onRolesChanged?: () => void;
+}
+
+export function RoleAuditManager({ onRolesChanged }: RoleAuditManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [findings, setFindings] = useState<RoleAuditFinding[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [auditing, setAuditing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<RoleAuditFinding | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const [findingsRes, profilesRes] = await Promise.all([
+      supabase.from('role_audit_findings').select('*').is('resolved_at', null).order('found_at'),
+      supabase.from('profiles').select('*'),
+    ]);
+
+    if (findingsRes.error) {
+      toast({ title: 'Error', description: 'Failed to load the role audit', variant: 'destructive' });
+    }
+    if (findingsRes.data) setFindings(findingsRes.data as RoleAuditFinding[]);
+    if (profilesRes.data) setProfiles(profilesRes.data as Profile[]);
+    setLoading(false);
+  };
+
+  const profileFor = (userId: string) => profiles.find((p) => p.id === userId);
+
+  const runAudit = async () => {
+    setAuditing(true);
+    const { data, error } = await supabase.rpc('audit_user_roles');
+    setAuditing(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Audit complete',
+      description: data ? `${data} new finding${data === 1 ? '' : 's'} to review.` : 'No new findings.',
+    });
+    fetchData();
+  };
+
+  const resolve = async (finding: RoleAuditFinding, revoke: boolean) => {
+    setResolvingId(finding.id);
+    const { error } = await supabase.rpc('resolve_role_finding', { _finding_id: finding.id, _revoke: revoke });
+    setResolvingId(null);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: revoke ? 'Role revoked' : 'Role kept' });
+    // One decision settles every finding about the same grant
+    setFindings(findings.filter((f) => f.user_id !== finding.user_id || f.role !== finding.role));
+    if (revoke) onRolesChanged?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Role Audit
+          </CardTitle>
+          <CardDescription>
+            Staff roles that weren't granted through an invitation or by an admin. Keep the ones you recognise.
+          </CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={runAudit} disabled={auditing}>
+          {auditing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Run Audit
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : findings.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">Nothing to review.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Finding</TableHead>
+                <TableHead className="w-40 text-right">Decision</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {findings.map((finding) => {
+                const owner = profileFor(finding.user_id);
+                return (
+                  <TableRow key={finding.id}>
+                    <TableCell>
+                      <span className="font-medium">{owner?.full_name || 'Unknown user'}</span>
+                      <span className="block text-xs text-muted-foreground">{owner?.email || finding.user_id}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={finding.role === 'super_admin' ? 'accent' : 'secondary'} className="capitalize">
+                        {finding.role.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{FINDING_LABELS[finding.finding]}</Badge>
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {finding.details} · {formatCampus(finding.found_at, 'MMM d, yyyy')}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resolve(finding, false)}
+                          disabled={resolvingId === finding.id}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Keep
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setRevoking(finding)}
+                          disabled={resolvingId === finding.id || (finding.user_id === user?.id && finding.role === 'super_admin')}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ConfirmDeleteDialog
+        open={!!revoking}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        title="Revoke role?"
+        description={`${profileFor(revoking?.user_id || '')?.email || 'This user'} will lose the ${revoking?.role.replace('_', ' ')} role and become a student. They can be invited again later.`}
+        onConfirm={async () => {
+          if (revoking) await resolve(revoking, true);
+          setRevoking(null);
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole, Profile, UserRole } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { Plus, Trash2, Loader2, Shield } from 'lucide-react';
+
+interface UserRolesManagerProps {
+  refreshKey?: number;
+}
+
+export function UserRolesManager({ refreshKey }: UserRolesManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [revoking, setRevoking] = useState<UserRole | null>(null);
+  const [newUserId, setNewUserId] = useState('');
+  const [newRole, setNewRole] = useState<AppRole>('club_poc');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, [refreshKey]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    // user_roles references auth.users, so profiles are joined client-side
+    const [rolesRes, profilesRes] = await Promise.all([
+      supabase.from('user_roles').select('*'),
+      supabase.from('profiles').select('*').order('full_name'),
+    ]);
+
+    if (rolesRes.error) {
+      toast({ title: 'Error', description: 'Failed to load roles', variant: 'destructive' });
+    }
+    if (rolesRes.data) setRoles(rolesRes.data as UserRole[]);
+    if (profilesRes.data) setProfiles(profilesRes.data as Profile[]);
+    setLoading(false);
+  };
+
+  const profileFor = (userId: string) => profiles.find((p) => p.id === userId);
+
+  const openGrant = () => {
+    setNewUserId('');
+    setNewRole('club_poc');
+    setError('');
+    setDialogOpen(true);
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!newUserId) {
+      setError('Please select a user');
+      return;
+    }
+
+    setSaving(true);
+    const { error: dbError } = await supabase.from('user_roles').insert([{ user_id: newUserId, role: newRole }]);
+    setSaving(false);
+
+    if (dbError) {
+      setError(dbError.code === '23505' ? 'This user already has that role' : dbError.message);
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Role granted successfully' });
+    setDialogOpen(false);
+    fetchData();
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+
+    const { error: dbError } = await supabase.from('user_roles').delete().eq('id', revoking.id);
+    if (dbError) {
+      toast({ title: 'Error', description: 'Failed to revoke role', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Role revoked' });
+      setRoles(roles.filter((r) => r.id !== revoking.id));
+    }
+    setRevoking(null);
+  };
+
+  const sortedRoles = [...roles].sort((a, b) =>
+    (profileFor(a.user_id)?.full_name || '').localeCompare(profileFor(b.user_id)?.full_name || '')
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Role Grants
+          </CardTitle>
+          <CardDescription>The user_roles entries that row-level security checks against</CardDescription>
+        </div>
+        <Button size="sm" onClick={openGrant}>
+          <Plus className="h-4 w-4 mr-2" />
+          Grant Role
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : sortedRoles.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No roles granted.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="w-24 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRoles.map((role) => {
+                const owner = profileFor(role.user_id);
+                return (
+                  <TableRow key={role.id}>
+                    <TableCell className="font-medium">{owner?.full_name || 'Unknown user'}</TableCell>
+                    <TableCell className="text-muted-foreground">{owner?.email || role.user_id}</TableCell>
+                    <TableCell>
+                      <Badge variant={role.role === 'super_admin' ? 'accent' : 'secondary'} className="capitalize">
+                        {role.role.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setRevoking(role)}
+                        disabled={role.user_id === user?.id && role.role === 'super_admin'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Grant Role</DialogTitle>
+            <DialogDescription>Give an existing user an additional role</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleGrant}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>User *</Label>
+                <Select value={newUserId} onValueChange={setNewUserId}>
+                  <SelectTrigger className={error ? 'border-destructive' : ''}>
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.full_name} ({p.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select value={newRole} onValueChange={(value: AppRole) => setNewRole(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="student">Student</SelectItem>
+                    <SelectItem value="club_poc">Club POC</SelectItem>
+                    <SelectItem value="super_admin">Super Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Grant Role
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={!!revoking}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        title="Revoke role?"
+        description={`${profileFor(revoking?.user_id || '')?.email || 'This user'} will lose the ${revoking?.role.replace('_', ' ')} role immediately.`}
+        onConfirm={handleRevoke}
+      />
+    </Card>
+  );
+}
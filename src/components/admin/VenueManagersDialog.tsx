@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Profile, Venue, VenueManager } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface VenueManagersDialogProps {
+  venue: Venue | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VenueManagersDialog({ venue, onOpenChange }: VenueManagersDialogProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [managers, setManagers] = useState<VenueManager[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selectedUser, setSelectedUser] = useState('');
+
+  useEffect(() => {
+    if (venue) {
+      setSelectedUser('');
+      fetchManagers(venue);
+    }
+  }, [venue]);
+
+  const fetchManagers = async (target: Venue) => {
+    setLoading(true);
+    const [managersResult, profilesResult] = await Promise.all([
+      supabase.from('venue_managers').select('*, profiles(*)').eq('venue_id', target.id),
+      supabase.from('profiles').select('*').order('full_name'),
+    ]);
+
+    if (managersResult.error || profilesResult.error) {
+      toast({ title: 'Error', description: 'Failed to load venue managers', variant: 'destructive' });
+    } else {
+      setManagers(managersResult.data as VenueManager[]);
+      setProfiles(profilesResult.data as Profile[]);
+    }
+    setLoading(false);
+  };
+
+  const addManager = async () => {
+    if (!venue || !selectedUser) return;
+
+    setAdding(true);
+    const { data, error } = await supabase
+      .from('venue_managers')
+      .insert([{ venue_id: venue.id, user_id: selectedUser }])
+      .select('*, profiles(*)')
+      .single();
+    setAdding(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setManagers([...managers, data as VenueManager]);
+    setSelectedUser('');
+    toast({ title: 'Success', description: 'Venue manager added' });
+  };
+
+  const removeManager = async (manager: VenueManager) => {
+    const { error } = await supabase.from('venue_managers').delete().eq('id', manager.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to remove venue manager', variant: 'destructive' });
+    } else {
+      setManagers(managers.filter((m) => m.id !== manager.id));
+    }
+  };
+
+  const candidates = profiles.filter((p) => !managers.some((m) => m.user_id === p.id));
+
+  return (
+    <Dialog open={!!venue} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Managers of {venue?.venue_name}</DialogTitle>
+          <DialogDescription>
+            Venue managers can approve or reject booking requests for this venue. Super admins can always decide.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {managers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No managers yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {managers.map((manager) => (
+                  <div key={manager.id} className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <div className="font-medium">{manager.profiles?.full_name}</div>
+                      <div className="text-sm text-muted-foreground">{manager.profiles?.email}</div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => removeManager(manager)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Select value={selectedUser} onValueChange={setSelectedUser}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.full_name} ({profile.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={addManager} disabled={!selectedUser || adding}>
+                {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
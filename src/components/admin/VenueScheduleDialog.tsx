@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Venue, VenueBlackout } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatCampus, parseCampusDateTime } from '@/lib/timezone';
+import { WEEKDAYS } from '@/lib/venueSchedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Clock, Ban, Plus, Trash2, Loader2 } from 'lucide-react';
+
+const blackoutSchema = z
+  .object({
+    starts_at: z.string().min(1, 'Start is required'),
+    ends_at: z.string().min(1, 'End is required'),
+    reason: z.string().trim().min(3, 'Give a reason of at least 3 characters'),
+  })
+  .refine((value) => !value.starts_at || !value.ends_at || value.ends_at > value.starts_at, {
+    message: 'End must be after start',
+    path: ['ends_at'],
+  });
+
+interface DayHours {
+  open: boolean;
+  open_time: string;
+  close_time: string;
+}
+
+const closedDay: DayHours = { open: false, open_time: '09:00', close_time: '21:00' };
+
+// Time inputs stop at 23:59, so closing at midnight is shown as 00:00 and stored as 24:00
+const toCloseInput = (time: string) => (time === '24:00' ? '00:00' : time);
+const fromCloseInput = (time: string) => (time === '00:00' ? '24:00' : time);
+const emptyBlackout = { starts_at: '', ends_at: '', reason: '' };
+
+interface VenueScheduleDialogProps {
+  venue: Venue | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VenueScheduleDialog({ venue, onOpenChange }: VenueScheduleDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [savingHours, setSavingHours] = useState(false);
+  const [addingBlackout, setAddingBlackout] = useState(false);
+  const [hours, setHours] = useState<DayHours[]>(WEEKDAYS.map(() => closedDay));
+  const [blackouts, setBlackouts] = useState<VenueBlackout[]>([]);
+  const [blackoutForm, setBlackoutForm] = useState(emptyBlackout);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (venue) {
+      setBlackoutForm(emptyBlackout);
+      setErrors({});
+      fetchSchedule(venue);
+    }
+  }, [venue]);
+
+  const fetchSchedule = async (target: Venue) => {
+    setLoading(true);
+    const [hoursResult, blackoutsResult] = await Promise.all([
+      supabase.from('venue_hours').select('*').eq('venue_id', target.id),
+      supabase
+        .from('venue_blackouts')
+        .select('*')
+        .eq('venue_id', target.id)
+        .gte('ends_at', new Date().toISOString())
+        .order('starts_at'),
+    ]);
+
+    if (hoursResult.error || blackoutsResult.error) {
+      toast({ title: 'Error', description: 'Failed to load venue schedule', variant: 'destructive' });
+    } else {
+      setHours(
+        WEEKDAYS.map((_, weekday) => {
+          const row = hoursResult.data.find((h) => h.weekday === weekday);
+          return row
+            ? { open: true, open_time: row.open_time.slice(0, 5), close_time: toCloseInput(row.close_time.slice(0, 5)) }
+            : closedDay;
+        })
+      );
+      setBlackouts(blackoutsResult.data as VenueBlackout[]);
+    }
+    setLoading(false);
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayHours>) => {
+    setHours(hours.map((day, index) => (index === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const saveHours = async () => {
+    if (!venue) return;
+
+    const invalidDay = hours.findIndex((day) => day.open && fromCloseInput(day.close_time) <= day.open_time);
+    if (invalidDay !== -1) {
+      toast({
+        title: 'Invalid hours',
+        description: `${WEEKDAYS[invalidDay]} must close after it opens`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const openDays = hours
+      .map((day, weekday) => ({ ...day, weekday }))
+      .filter((day) => day.open)
+      .map(({ weekday, open_time, close_time }) => ({
+        venue_id: venue.id,
+        weekday,
+        open_time,
+        close_time: fromCloseInput(close_time),
+      }));
+    const closedWeekdays = hours.map((day, weekday) => (day.open ? -1 : weekday)).filter((weekday) => weekday !== -1);
+
+    setSavingHours(true);
+    const { error: upsertError } = openDays.length
+      ? await supabase.from('venue_hours').upsert(openDays, { onConflict: 'venue_id,weekday' })
+      : { error: null };
+    const { error: deleteError } = closedWeekdays.length
+      ? await supabase.from('venue_hours').delete().eq('venue_id', venue.id).in('weekday', closedWeekdays)
+      : { error: null };
+    setSavingHours(false);
+
+    if (upsertError || deleteError) {
+      toast({ title: 'Error', description: 'Failed to save opening hours', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Opening hours saved' });
+    }
+  };
+
+  const addBlackout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!venue) return;
+    setErrors({});
+
+    const validation = blackoutSchema.safeParse(blackoutForm);
+    if (!validation.success) {
+      const fieldErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setAddingBlackout(true);
+    const { data, error } = await supabase
+      .from('venue_blackouts')
+      .insert([
+        {
+          venue_id: venue.id,
+          starts_at: parseCampusDateTime(blackoutForm.starts_at).toISOString(),
+          ends_at: parseCampusDateTime(blackoutForm.ends_at).toISOString(),
+          reason: blackoutForm.reason.trim(),
+          created_by: user?.id,
+        },
+      ])
+      .select()
+      .single();
+    setAddingBlackout(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setBlackouts(
+      [...blackouts, data as VenueBlackout].sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+    );
+    setBlackoutForm(emptyBlackout);
+    toast({ title: 'Success', description: 'Blackout added' });
+  };
+
+  const deleteBlackout = async (blackout: VenueBlackout) => {
+    const { error } = await supabase.from('venue_blackouts').delete().eq('id', blackout.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to remove blackout', variant: 'destructive' });
+    } else {
+      setBlackouts(blackouts.filter((b) => b.id !== blackout.id));
+    }
+  };
+
+  return (
+    <Dialog open={!!venue} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule for {venue?.venue_name}</DialogTitle>
+          <DialogDescription>
+            Bookings and suggested slots must fall inside opening hours and outside blackouts. Times are campus time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Opening hours
+              </h3>
+              {hours.map((day, weekday) => (
+                <div key={WEEKDAYS[weekday]} className="grid grid-cols-[7rem_auto_1fr_1fr] items-center gap-3">
+                  <Label htmlFor={`open_${weekday}`}>{WEEKDAYS[weekday]}</Label>
+                  <Switch
+                    id={`open_${weekday}`}
+                    checked={day.open}
+                    onCheckedChange={(checked) => updateDay(weekday, { open: checked })}
+                  />
+                  {day.open ? (
+                    <>
+                      <Input
+                        type="time"
+                        aria-label={`${WEEKDAYS[weekday]} opening time`}
+                        value={day.open_time}
+                        onChange={(e) => updateDay(weekday, { open_time: e.target.value })}
+                      />
+                      <Input
+                        type="time"
+                        aria-label={`${WEEKDAYS[weekday]} closing time`}
+                        value={day.close_time}
+                        onChange={(e) => updateDay(weekday, { close_time: e.target.value })}
+                      />
+                    </>
+                  ) : (
+                    <span className="col-span-2 text-sm text-muted-foreground">Closed</span>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-end">
+                <Button size="sm" onClick={saveHours} disabled={savingHours}>
+                  {savingHours && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Hours
+                </Button>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Ban className="h-4 w-4" />
+                Blackouts
+              </h3>
+
+              {blackouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming blackouts.</p>
+              ) : (
+                <div className="space-y-2">
+                  {blackouts.map((blackout) => (
+                    <div key={blackout.id} className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <div className="font-medium">{blackout.reason}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {formatCampus(blackout.starts_at, 'MMM dd, yyyy h:mm a')} -{' '}
+                          {formatCampus(blackout.ends_at, 'MMM dd, yyyy h:mm a')}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => deleteBlackout(blackout)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <form onSubmit={addBlackout} className="space-y-3 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="blackout_start">Starts</Label>
+                    <Input
+                      id="blackout_start"
+                      type="datetime-local"
+                      value={blackoutForm.starts_at}
+                      onChange={(e) => setBlackoutForm({ ...blackoutForm, starts_at: e.target.value })}
+                      className={errors.starts_at ? 'border-destructive' : ''}
+                    />
+                    {errors.starts_at && <p className="text-xs text-destructive">{errors.starts_at}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="blackout_end">Ends</Label>
+                    <Input
+                      id="blackout_end"
+                      type="datetime-local"
+                      value={blackoutForm.ends_at}
+                      onChange={(e) => setBlackoutForm({ ...blackoutForm, ends_at: e.target.value })}
+                      className={errors.ends_at ? 'border-destructive' : ''}
+                    />
+                    {errors.ends_at && <p className="text-xs text-destructive">{errors.ends_at}</p>}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="blackout_reason">Reason</Label>
+                  <Input
+                    id="blackout_reason"
+                    placeholder="e.g. End-semester exams"
+                    value={blackoutForm.reason}
+                    onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })}
+                    className={errors.reason ? 'border-destructive' : ''}
+                  />
+                  {errors.reason && <p className="text-xs text-destructive">{errors.reason}</p>}
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" size="sm" variant="outline" disabled={addingBlackout}>
+                    {addingBlackout ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Plus className="mr-2 h-4 w-4" />
+                    )}
+                    Add Blackout
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Venue } from '@/lib/types';
+import { isVenueConflictError, MAX_BUFFER_MINUTES } from '@/lib/venueConflict';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { VenueScheduleDialog } from './VenueScheduleDialog';
+import { VenueManagersDialog } from './VenueManagersDialog';
+import { Plus, Edit, Trash2, Loader2, MapPin, CalendarClock, UserCog } from 'lucide-react';
+
+const bufferMinutes = z
+  .string()
+  .refine((value) => /^\d+$/.test(value), 'Enter whole minutes')
+  .refine((value) => parseInt(value, 10) <= MAX_BUFFER_MINUTES, `At most ${MAX_BUFFER_MINUTES} minutes`);
+
+const venueSchema = z.object({
+  venue_name: z.string().trim().min(2, 'Venue name must be at least 2 characters'),
+  capacity: z
+    .string()
+    .optional()
+    .refine((value) => !value || /^\d+$/.test(value), 'Capacity must be a whole number'),
+  location: z.string().optional(),
+  available: z.boolean(),
+  setup_minutes: bufferMinutes,
+  teardown_minutes: bufferMinutes,
+});
+
+const emptyForm = {
+  venue_name: '',
+  capacity: '',
+  location: '',
+  available: true,
+  setup_minutes: '0',
+  teardown_minutes: '0',
+};
+
+export function VenuesManager() {
+  const { toast } = useToast();
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Venue | null>(null);
+  const [deleting, setDeleting] = useState<Venue | null>(null);
+  const [scheduling, setScheduling] = useState<Venue | null>(null);
+  const [managing, setManaging] = useState<Venue | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchVenues();
+  }, []);
+
+  const fetchVenues = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.from('venues').select('*').order('venue_name');
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to load venues', variant: 'destructive' });
+    } else {
+      setVenues(data as Venue[]);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const openEdit = (venue: Venue) => {
+    setEditing(venue);
+    setFormData({
+      venue_name: venue.venue_name,
+      capacity: venue.capacity != null ? String(venue.capacity) : '',
+      location: venue.location || '',
+      available: venue.available,
+      setup_minutes: String(venue.setup_minutes),
+      teardown_minutes: String(venue.teardown_minutes),
+    });
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const validation = venueSchema.safeParse(formData);
+    if (!validation.success) {
+      const fieldErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[err.path[0].toString()] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const payload = {
+      venue_name: formData.venue_name.trim(),
+      capacity: formData.capacity ? parseInt(formData.capacity, 10) : null,
+      location: formData.location.trim() || null,
+      available: formData.available,
+      setup_minutes: parseInt(formData.setup_minutes, 10),
+      teardown_minutes: parseInt(formData.teardown_minutes, 10),
+    };
+
+    setSaving(true);
+    const { error } = editing
+      ? await supabase.from('venues').update(payload).eq('id', editing.id)
+      : await supabase.from('venues').insert([payload]);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description:
+          error.code === '23505'
+            ? 'A venue with this name already exists'
+            : isVenueConflictError(error)
+              ? 'These buffers would make upcoming bookings at this venue overlap'
+              : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Success', description: editing ? 'Venue updated successfully' : 'Venue created successfully' });
+    setDialogOpen(false);
+    fetchVenues();
+  };
+
+  const toggleAvailable = async (venue: Venue, available: boolean) => {
+    const { error } = await supabase.from('venues').update({ available }).eq('id', venue.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to update venue availability', variant: 'destructive' });
+    } else {
+      setVenues(venues.map((v) => (v.id === venue.id ? { ...v, available } : v)));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase.from('venues').delete().eq('id', deleting.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to delete venue', variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Venue deleted successfully' });
+      setVenues(venues.filter((v) => v.id !== deleting.id));
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Venues
+          </CardTitle>
+          <CardDescription>Halls and grounds that events can be booked into</CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Venue
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : venues.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-10">No venues yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Capacity</TableHead>
+                <TableHead>Buffers</TableHead>
+                <TableHead>Available</TableHead>
+                <TableHead className="w-40 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {venues.map((venue) => (
+                <TableRow key={venue.id}>
+                  <TableCell className="font-medium">{venue.venue_name}</TableCell>
+                  <TableCell className="text-muted-foreground">{venue.location || '—'}</TableCell>
+                  <TableCell>{venue.capacity ?? '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {venue.setup_minutes || venue.teardown_minutes
+                      ? `${venue.setup_minutes}m / ${venue.teardown_minutes}m`
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={venue.available}
+                        onCheckedChange={(checked) => toggleAvailable(venue, checked)}
+                      />
+                      <Badge variant={venue.available ? 'open' : 'closed'}>
+                        {venue.available ? 'Bookable' : 'Unavailable'}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Opening hours and blackouts"
+                        onClick={() => setScheduling(venue)}
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Venue managers"
+                        onClick={() => setManaging(venue)}
+                      >
+                        <UserCog className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(venue)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleting(venue)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Venue' : 'Add Venue'}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Update the details of "${editing.venue_name}"` : 'Add a new bookable venue'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="venue_name">Venue Name *</Label>
+                <Input
+                  id="venue_name"
+                  value={formData.venue_name}
+                  onChange={(e) => setFormData({ ...formData, venue_name: e.target.value })}
+                  className={errors.venue_name ? 'border-destructive' : ''}
+                />
+                {errors.venue_name && <p className="text-xs text-destructive">{errors.venue_name}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="venue_capacity">Capacity</Label>
+                  <Input
+                    id="venue_capacity"
+                    inputMode="numeric"
+                    value={formData.capacity}
+                    onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                    className={errors.capacity ? 'border-destructive' : ''}
+                  />
+                  {errors.capacity && <p className="text-xs text-destructive">{errors.capacity}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="venue_location">Location</Label>
+                  <Input
+                    id="venue_location"
+                    value={formData.location}
+                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="venue_setup">Setup (minutes)</Label>
+                  <Input
+                    id="venue_setup"
+                    inputMode="numeric"
+                    value={formData.setup_minutes}
+                    onChange={(e) => setFormData({ ...formData, setup_minutes: e.target.value })}
+                    className={errors.setup_minutes ? 'border-destructive' : ''}
+                  />
+                  {errors.setup_minutes && <p className="text-xs text-destructive">{errors.setup_minutes}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="venue_teardown">Teardown (minutes)</Label>
+                  <Input
+                    id="venue_teardown"
+                    inputMode="numeric"
+                    value={formData.teardown_minutes}
+                    onChange={(e) => setFormData({ ...formData, teardown_minutes: e.target.value })}
+                    className={errors.teardown_minutes ? 'border-destructive' : ''}
+                  />
+                  {errors.teardown_minutes && <p className="text-xs text-destructive">{errors.teardown_minutes}</p>}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Kept free before and after every booking unless an event sets its own.
+              </p>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="venue_available">Available for booking</Label>
+                  <p className="text-xs text-muted-foreground">Turn off to take the venue out of service</p>
+                </div>
+                <Switch
+                  id="venue_available"
+                  checked={formData.available}
+                  onCheckedChange={(checked) => setFormData({ ...formData, available: checked })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing ? 'Save Changes' : 'Create Venue'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <VenueScheduleDialog venue={scheduling} onOpenChange={(open) => !open && setScheduling(null)} />
+      <VenueManagersDialog venue={managing} onOpenChange={(open) => !open && setManaging(null)} />
+
+      <ConfirmDeleteDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete venue?"
+        description={`"${deleting?.venue_name}" and every event booked into it will be permanently removed.`}
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
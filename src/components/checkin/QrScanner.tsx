@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CameraOff } from 'lucide-react';
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  className?: string;
+}
+
+// The same code held in front of the camera is only reported once in this window
+const REPEAT_MS = 3000;
+
+// Reads QR codes from the device camera, preferring the rear camera on phones
+export function QrScanner({ onScan, className }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    let last = { text: '', at: 0 };
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          const now = Date.now();
+          if (code?.data && (code.data !== last.text || now - last.at > REPEAT_MS)) {
+            last = { text: code.data, at: now };
+            onScanRef.current(code.data);
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(tick);
+      } catch (error) {
+        setCameraError((error as Error).message || 'Camera unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return (
+      <Alert className={className}>
+        <CameraOff className="h-4 w-4" />
+        <AlertDescription>
+          The camera couldn't be opened ({cameraError}). Enter ticket codes by hand below.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <video ref={videoRef} className="w-full rounded-lg bg-black aspect-square object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+}
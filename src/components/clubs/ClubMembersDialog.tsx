@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Club, ClubMembership, ClubRole, Profile } from '@/lib/types';
+import { CLUB_ROLES, CLUB_ROLE_DESCRIPTIONS, CLUB_ROLE_LABELS } from '@/lib/clubRoles';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface ClubMembersDialogProps {
+  club: Club | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function RoleSelect({ value, onChange }: { value: ClubRole; onChange: (role: ClubRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role: ClubRole) => onChange(role)}>
+      <SelectTrigger className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CLUB_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {CLUB_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Super admins and club owners manage members; everyone else in the club sees who's in it
+export function ClubMembersDialog({ club, onOpenChange }: ClubMembersDialogProps) {
+  const { user, isSuperAdmin, clubRole, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [members, setMembers] = useState<ClubMembership[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selectedUser, setSelectedUser] = useState('');
+  const [selectedRole, setSelectedRole] = useState<ClubRole>('editor');
+
+  const canManage = isSuperAdmin || clubRole(club?.id) === 'owner';
+
+  useEffect(() => {
+    if (club) {
+      setSelectedUser('');
+      setSelectedRole('editor');
+      fetchMembers(club);
+    }
+  }, [club]);
+
+  const fetchMembers = async (target: Club) => {
+    setLoading(true);
+    const [membersResult, profilesResult] = await Promise.all([
+      supabase.from('club_memberships').select('*, profiles(*)').eq('club_id', target.id),
+      supabase.from('profiles').select('*').order('full_name'),
+    ]);
+
+    if (membersResult.error || profilesResult.error) {
+      toast({ title: 'Error', description: 'Failed to load club members', variant: 'destructive' });
+    } else {
+      setMembers(membersResult.data as ClubMembership[]);
+      setProfiles(profilesResult.data as Profile[]);
+    }
+    setLoading(false);
+  };
+
+  // Owners can't change their own membership; that keeps every club with an owner
+  const canChange = (member: ClubMembership) => canManage && (isSuperAdmin || member.user_id !== user?.id);
+
+  const addMember = async () => {
+    if (!club || !selectedUser) return;
+
+    setAdding(true);
+    const { data, error } = await supabase
+      .from('club_memberships')
+      .insert([{ club_id: club.id, user_id: selectedUser, role: selectedRole }])
+      .select('*, profiles(*)')
+      .single();
+    setAdding(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setMembers([...members, data as ClubMembership]);
+    setSelectedUser('');
+    toast({ title: 'Success', description: 'Member added' });
+    if (selectedUser === user?.id) refreshProfile();
+  };
+
+  const changeRole = async (member: ClubMembership, role: ClubRole) => {
+    const { error } = await supabase.from('club_memberships').update({ role }).eq('id', member.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to change role', variant: 'destructive' });
+      return;
+    }
+
+    setMembers(members.map((m) => (m.id === member.id ? { ...m, role } : m)));
+    if (member.user_id === user?.id) refreshProfile();
+  };
+
+  const removeMember = async (member: ClubMembership) => {
+    const { error } = await supabase.from('club_memberships').delete().eq('id', member.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to remove member', variant: 'destructive' });
+      return;
+    }
+
+    setMembers(members.filter((m) => m.id !== member.id));
+    if (member.user_id === user?.id) refreshProfile();
+  };
+
+  const sortedMembers = [...members].sort(
+    (a, b) =>
+      CLUB_ROLES.indexOf(b.role) - CLUB_ROLES.indexOf(a.role) ||
+      (a.profiles?.full_name || '').localeCompare(b.profiles?.full_name || '')
+  );
+  const candidates = profiles.filter((p) => !members.some((m) => m.user_id === p.id));
+
+  return (
+    <Dialog open={!!club} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Members of {club?.club_name}</DialogTitle>
+          <DialogDescription>
+            Viewers see registrations, teams and subscribers. Editors also run events and check attendees in.
+            Owners also manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sortedMembers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No members yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {sortedMembers.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{member.profiles?.full_name}</div>
+                      <div className="text-sm text-muted-foreground truncate">{member.profiles?.email}</div>
+                    </div>
+                    {canChange(member) ? (
+                      <div className="flex items-center gap-1">
+                        <RoleSelect value={member.role} onChange={(role) => changeRole(member, role)} />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => removeMember(member)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Badge variant={member.role === 'owner' ? 'accent' : 'secondary'}>
+                          {CLUB_ROLE_LABELS[member.role]}
+                        </Badge>
+                        {member.user_id === user?.id && member.role !== 'owner' && (
+                          <Button variant="ghost" size="sm" onClick={() => removeMember(member)}>
+                            Leave
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManage && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Select value={selectedUser} onValueChange={setSelectedUser}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a user" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-60">
+                      {candidates.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.full_name} ({profile.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <RoleSelect value={selectedRole} onChange={setSelectedRole} />
+                  <Button variant="outline" onClick={addMember} disabled={!selectedUser || adding}>
+                    {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                    Add
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{CLUB_ROLE_DESCRIPTIONS[selectedRole]}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
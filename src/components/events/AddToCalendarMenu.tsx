@@ -0,0 +1,90 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Event } from '@/lib/types';
+import { CalendarFeed, calendarFeedUrl, downloadEventIcs, googleCalendarUrl } from '@/lib/ics';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarPlus, Download, ExternalLink, Rss } from 'lucide-react';
+
+interface AddToCalendarMenuProps {
+  event: Event;
+  className?: string;
+}
+
+export function AddToCalendarMenu({ event, className }: AddToCalendarMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Calendar apps subscribe by URL, so hand over the link rather than a one-off file
+  const copyFeed = async (feed: CalendarFeed, name: string) => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(feed, true));
+      toast({
+        title: 'Feed link copied',
+        description: `Add it in your calendar app with "Subscribe from URL" to follow ${name}.`,
+      });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the feed link', variant: 'destructive' });
+    }
+  };
+
+  const copyPersonalFeed = async () => {
+    const { data, error } = await supabase.rpc('my_calendar_feed_token');
+    if (error || !data) {
+      toast({ title: 'Error', description: error?.message || 'Could not load your feed', variant: 'destructive' });
+      return;
+    }
+    await copyFeed({ token: data }, 'the events you subscribed or registered to');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className}>
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          Add to Calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onClick={() => downloadEventIcs(event)}>
+          <Download className="h-4 w-4 mr-2" />
+          Download .ics (Outlook, Apple)
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={googleCalendarUrl(event)} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Google Calendar
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Subscribe to a feed</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => copyFeed({ club: event.club_id }, event.clubs?.club_name ?? 'this club')}>
+          <Rss className="h-4 w-4 mr-2" />
+          {event.clubs?.club_name ?? 'This club'}'s events
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => copyFeed({ venue: event.venue_id }, event.venues?.venue_name ?? 'this venue')}>
+          <Rss className="h-4 w-4 mr-2" />
+          Events at {event.venues?.venue_name ?? 'this venue'}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => copyFeed({}, 'all campus events')}>
+          <Rss className="h-4 w-4 mr-2" />
+          All events
+        </DropdownMenuItem>
+        {user && (
+          <DropdownMenuItem onClick={copyPersonalFeed}>
+            <Rss className="h-4 w-4 mr-2" />
+            My events
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,18 @@
+import { ApprovalStatus } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+
+interface ApprovalBadgeProps {
+  status: ApprovalStatus;
+  className?: string;
+}
+
+// Shown on bookings that aren't approved yet; approved events need no badge
+export function ApprovalBadge({ status, className }: ApprovalBadgeProps) {
+  if (status === 'approved') return null;
+
+  return (
+    <Badge variant={status === 'rejected' ? 'closed' : 'warning'} className={className}>
+      {status === 'rejected' ? 'Rejected' : 'Awaiting approval'}
+    </Badge>
+  );
+}
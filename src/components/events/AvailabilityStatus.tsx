@@ -0,0 +1,92 @@
+import { formatCampus } from '@/lib/timezone';
+import { ConflictCheck, SuggestedSlot } from '@/lib/venueConflict';
+import { Venue } from '@/lib/types';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Ban, CheckCircle2, Loader2 } from 'lucide-react';
+
+const MAX_INLINE_SUGGESTIONS = 3;
+
+interface AvailabilityStatusProps {
+  venueName: string;
+  check: ConflictCheck | undefined;
+  checking: boolean;
+  failed: boolean;
+  onSelectSlot: (venue: Venue, slot: SuggestedSlot) => void;
+}
+
+// Inline result of the live venue check shown under the time fields
+export function AvailabilityStatus({ venueName, check, checking, failed, onSelectSlot }: AvailabilityStatusProps) {
+  if (checking) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking availability...
+      </p>
+    );
+  }
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground">Couldn't check availability right now.</p>;
+  }
+
+  if (!check) return null;
+
+  if (!check.hasConflict) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-success">
+        <CheckCircle2 className="h-4 w-4" />
+        {venueName} is free for this time
+      </p>
+    );
+  }
+
+  // Best slot per venue, best venues first
+  const suggestions = check.suggestions
+    .slice(0, MAX_INLINE_SUGGESTIONS)
+    .map(({ venue, availableSlots }) => ({ venue, slot: availableSlots[0] }));
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <div className="font-semibold">{venueName} isn't available for this time</div>
+        <ul className="space-y-1 text-sm">
+          {check.conflictingEvents.map((event) => (
+            <li key={event.id} className="flex flex-wrap items-center gap-2">
+              {event.event_name} ({event.clubs.club_name}), {formatCampus(event.start_time, 'MMM dd, h:mm a')} -{' '}
+              {formatCampus(event.end_time, 'h:mm a')}
+              {event.bufferOnly && <Badge variant="outline">Buffer only</Badge>}
+            </li>
+          ))}
+          {check.blockedPeriods.map((period) => (
+            <li key={`${period.start.toISOString()}-${period.reason}`} className="flex items-center gap-2">
+              <Ban className="h-3 w-3" />
+              {period.reason}
+            </li>
+          ))}
+        </ul>
+        {suggestions.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm">Try instead:</div>
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map(({ venue, slot }) => (
+                <Button
+                  key={`${venue.id}-${slot.start.toISOString()}`}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-auto py-1 text-foreground"
+                  onClick={() => onSelectSlot(venue, slot)}
+                >
+                  {venue.venue_name} · {formatCampus(slot.start, 'EEE, MMM dd h:mm a')}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
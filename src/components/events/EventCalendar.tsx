@@ -0,0 +1,255 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Event } from '@/lib/types';
+import { CalendarView, clubColor, eventsOnDay, layoutDay, monthWeeks, shiftMonthKey, weekDays } from '@/lib/calendar';
+import { campusDateKey, campusDateTime, formatCampus, shiftDateKey } from '@/lib/timezone';
+import { WEEKDAYS } from '@/lib/venueSchedule';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const HOUR_HEIGHT = 48;
+const MAX_MONTH_CELL_EVENTS = 3;
+
+interface EventCalendarProps {
+  events: Event[];
+  view: CalendarView;
+  onViewChange: (view: CalendarView) => void;
+  // Campus date (YYYY-MM-DD) the view is centred on
+  anchor: string;
+  onAnchorChange: (dateKey: string) => void;
+  // Called with a campus datetime-local value when an empty slot is clicked; omit to disable
+  onCreateAt?: (start: string) => void;
+}
+
+// Noon avoids any date shift when formatting a bare campus date
+const dayInstant = (dateKey: string) => campusDateTime(dateKey, '12:00');
+
+export function EventCalendar({ events, view, onViewChange, anchor, onAnchorChange, onCreateAt }: EventCalendarProps) {
+  const today = campusDateKey(new Date());
+  const now = new Date();
+
+  const step = (direction: 1 | -1) => {
+    if (view === 'month') onAnchorChange(shiftMonthKey(anchor, direction));
+    else onAnchorChange(shiftDateKey(anchor, direction * (view === 'week' ? 7 : 1)));
+  };
+
+  const openDay = (dateKey: string) => {
+    onAnchorChange(dateKey);
+    onViewChange('day');
+  };
+
+  // Empty slots in the past can't be booked
+  const canCreate = (dateKey: string, hour: number) =>
+    !!onCreateAt && campusDateTime(dateKey, `${String(hour).padStart(2, '0')}:00`) > now;
+
+  const createAt = (dateKey: string, hour: number) => {
+    if (canCreate(dateKey, hour)) onCreateAt?.(`${dateKey}T${String(hour).padStart(2, '0')}:00`);
+  };
+
+  const days = view === 'week' ? weekDays(anchor) : [anchor];
+
+  const clubs = [...new Map(events.flatMap((e) => (e.clubs ? [[e.club_id, e.clubs] as const] : []))).values()]
+    .sort((a, b) => a.club_name.localeCompare(b.club_name));
+
+  const title =
+    view === 'month'
+      ? formatCampus(dayInstant(anchor), 'MMMM yyyy')
+      : view === 'week'
+        ? `${formatCampus(dayInstant(days[0]), 'MMM dd')} - ${formatCampus(dayInstant(days[6]), 'MMM dd, yyyy')}`
+        : formatCampus(dayInstant(anchor), 'EEEE, MMM dd, yyyy');
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-card shadow-card">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-3">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onAnchorChange(today)}>
+            Today
+          </Button>
+        </div>
+
+        <h3 className="font-semibold">{title}</h3>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              Jump to date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="single"
+              selected={new Date(`${anchor}T00:00:00`)}
+              defaultMonth={new Date(`${anchor}T00:00:00`)}
+              onSelect={(date) => date && onAnchorChange(format(date, 'yyyy-MM-dd'))}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {view === 'month' ? (
+        <div>
+          <div className="grid grid-cols-7 border-b text-center text-xs font-medium text-muted-foreground">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="py-2">{day.slice(0, 3)}</div>
+            ))}
+          </div>
+          {monthWeeks(anchor).map((week) => (
+            <div key={week[0]} className="grid grid-cols-7 border-b last:border-b-0">
+              {week.map((dateKey) => {
+                const dayEvents = eventsOnDay(events, dateKey);
+                const inMonth = dateKey.slice(0, 7) === anchor.slice(0, 7);
+
+                return (
+                  <div
+                    key={dateKey}
+                    className={cn(
+                      'min-h-28 border-r p-1 last:border-r-0 space-y-1',
+                      !inMonth && 'bg-muted/30 text-muted-foreground',
+                      canCreate(dateKey, 9) && 'cursor-pointer hover:bg-muted/50'
+                    )}
+                    onClick={() => createAt(dateKey, 9)}
+                  >
+                    <button
+                      type="button"
+                      className={cn(
+                        'flex h-6 w-6 items-center justify-center rounded-full text-xs hover:bg-accent',
+                        dateKey === today && 'bg-primary text-primary-foreground hover:bg-primary'
+                      )}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openDay(dateKey);
+                      }}
+                    >
+                      {Number(dateKey.slice(8))}
+                    </button>
+                    {dayEvents.slice(0, MAX_MONTH_CELL_EVENTS).map((event) => (
+                      <Link
+                        key={event.id}
+                        to={`/event/${event.id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className={cn('block truncate rounded border px-1 text-xs', clubColor(event.club_id))}
+                        title={`${event.event_name} (${event.clubs?.club_name ?? ''})`}
+                      >
+                        {campusDateKey(event.start_time) === dateKey && (
+                          <span className="font-medium">{formatCampus(event.start_time, 'h:mm a')} </span>
+                        )}
+                        {event.event_name}
+                      </Link>
+                    ))}
+                    {dayEvents.length > MAX_MONTH_CELL_EVENTS && (
+                      <button
+                        type="button"
+                        className="text-xs text-muted-foreground hover:underline"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openDay(dateKey);
+                        }}
+                      >
+                        +{dayEvents.length - MAX_MONTH_CELL_EVENTS} more
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div>
+          {/* Day headers */}
+          <div className="flex border-b">
+            <div className="w-14 shrink-0" />
+            {days.map((dateKey) => (
+              <button
+                key={dateKey}
+                type="button"
+                className={cn(
+                  'flex-1 py-2 text-center text-xs font-medium hover:bg-muted/50',
+                  dateKey === today && 'text-primary'
+                )}
+                onClick={() => openDay(dateKey)}
+              >
+                {formatCampus(dayInstant(dateKey), view === 'week' ? 'EEE dd' : 'EEEE, MMM dd')}
+              </button>
+            ))}
+          </div>
+
+          {/* Time grid */}
+          <div className="max-h-[600px] overflow-y-auto">
+            <div className="flex" style={{ height: HOUR_HEIGHT * 24 }}>
+              <div className="w-14 shrink-0">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="pr-2 text-right text-[10px] text-muted-foreground" style={{ height: HOUR_HEIGHT }}>
+                    {formatCampus(campusDateTime(anchor, `${String(hour).padStart(2, '0')}:00`), 'h a')}
+                  </div>
+                ))}
+              </div>
+
+              {days.map((dateKey) => (
+                <div key={dateKey} className="relative flex-1 border-l">
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <div
+                      key={hour}
+                      className={cn('border-b border-border/40', canCreate(dateKey, hour) && 'cursor-pointer hover:bg-muted/50')}
+                      style={{ height: HOUR_HEIGHT }}
+                      onClick={() => createAt(dateKey, hour)}
+                    />
+                  ))}
+
+                  {layoutDay(events, dateKey).map(({ event, startMinute, endMinute, lane, lanes }) => (
+                    <Link
+                      key={event.id}
+                      to={`/event/${event.id}`}
+                      className={cn(
+                        'absolute overflow-hidden rounded border px-1 text-xs leading-tight hover:z-10 hover:shadow-md',
+                        clubColor(event.club_id)
+                      )}
+                      style={{
+                        top: (startMinute / 60) * HOUR_HEIGHT,
+                        height: Math.max(((endMinute - startMinute) / 60) * HOUR_HEIGHT, 18),
+                        left: `${(lane / lanes) * 100}%`,
+                        width: `${100 / lanes}%`,
+                      }}
+                    >
+                      <div className="truncate font-medium">{event.event_name}</div>
+                      <div className="truncate">
+                        {formatCampus(event.start_time, 'h:mm a')} - {formatCampus(event.end_time, 'h:mm a')}
+                      </div>
+                      {view === 'day' && (
+                        <div className="truncate">
+                          {event.venues?.venue_name} · {event.clubs?.club_name}
+                        </div>
+                      )}
+                    </Link>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Club colour legend */}
+      {clubs.length > 0 && (
+        <div className="flex flex-wrap gap-2 border-t p-3">
+          {clubs.map((club) => (
+            <span key={club.id} className={cn('rounded border px-2 py-0.5 text-xs', clubColor(club.id))}>
+              {club.club_name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { format } from 'date-fns';
-import { Event } from '@/lib/types';
+import { formatCampus } from '@/lib/timezone';
+import { Event, EventSeats } from '@/lib/types';
+import { formFields } from '@/lib/registrationForm';
+import { acceptsRegistrations, isFull, isTeamEvent, seatsLeft } from '@/lib/registrations';
 import { useAuth } from '@/hooks/useAuth';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -12,12 +14,16 @@ import {
   CardHeader,
 } from '@/components/ui/card';
 import { NotifyModal } from './NotifyModal';
+import { RegisterModal } from './RegisterModal';
+import { ApprovalBadge } from './ApprovalBadge';
 import { 
   Calendar, 
   Clock, 
   MapPin, 
   Users, 
   Bell,
+  Ticket,
+  Armchair,
   Edit,
   Trash2,
   ArrowRight
@@ -25,20 +31,24 @@ import {
 
 interface EventCardProps {
   event: Event;
+  // Live seat counts; omitted while loading
+  seats?: EventSeats;
   onDelete?: (id: string) => void;
 }
 
-export function EventCard({ event, onDelete }: EventCardProps) {
+export function EventCard({ event, seats, onDelete }: EventCardProps) {
   const [notifyOpen, setNotifyOpen] = useState(false);
-  const { user, profile, isSuperAdmin } = useAuth();
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const { user, canEditClub } = useAuth();
 
-  const canEdit = user && (
-    isSuperAdmin || 
-    (profile?.role === 'club_poc' && profile?.club_id === event.club_id)
-  );
+  const canEdit = user && canEditClub(event.club_id);
 
   const isRegistrationOpen = event.is_open && new Date(event.registration_end) > new Date();
   const isPast = new Date(event.end_time) < new Date();
+  const isApproved = event.approval_status === 'approved';
+  const canRegister = !isPast && acceptsRegistrations(event);
+  const full = isFull(seats);
+  const teamEvent = isTeamEvent(event);
 
   return (
     <>
@@ -51,9 +61,12 @@ export function EventCard({ event, onDelete }: EventCardProps) {
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between gap-3">
             <div className="flex-1 min-w-0">
-              <Badge variant="secondary" className="mb-2 text-xs">
-                {event.clubs?.club_name || 'Unknown Club'}
-              </Badge>
+              <div className="mb-2 flex flex-wrap gap-1">
+                <Badge variant="secondary" className="text-xs">
+                  {event.clubs?.club_name || 'Unknown Club'}
+                </Badge>
+                <ApprovalBadge status={event.approval_status} className="text-xs" />
+              </div>
               <h3 className="text-lg font-semibold text-foreground line-clamp-2 group-hover:text-primary transition-colors">
                 {event.event_name}
               </h3>
@@ -83,7 +96,7 @@ export function EventCard({ event, onDelete }: EventCardProps) {
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar className="h-4 w-4 text-accent" />
               <span>
-                {event.start_time ? format(new Date(event.start_time), 'EEE, MMM dd, yyyy') : 'Date TBA'}
+                {event.start_time ? formatCampus(event.start_time, 'EEE, MMM dd, yyyy') : 'Date TBA'}
               </span>
             </div>
 
@@ -91,7 +104,7 @@ export function EventCard({ event, onDelete }: EventCardProps) {
               <Clock className="h-4 w-4 text-accent" />
               <span>
                 {event.start_time && event.end_time ? (
-                  `${format(new Date(event.start_time), 'h:mm a')} - ${format(new Date(event.end_time), 'h:mm a')}`
+                  `${formatCampus(event.start_time, 'h:mm a')} - ${formatCampus(event.end_time, 'h:mm a')}`
                 ) : 'Time TBA'}
               </span>
             </div>
@@ -100,11 +113,22 @@ export function EventCard({ event, onDelete }: EventCardProps) {
               <Users className="h-4 w-4 text-accent" />
               <span className="text-xs">
                 Registration: {event.registration_start && event.registration_end ? (
-                  `${format(new Date(event.registration_start), 'MMM dd, h:mm a')} - ${format(new Date(event.registration_end), 'MMM dd, h:mm a')}`
+                  `${formatCampus(event.registration_start, 'MMM dd, h:mm a')} - ${formatCampus(event.registration_end, 'MMM dd, h:mm a')}`
                 ) : 'TBA'}
               </span>
             </div>
 
+            {seats && seats.capacity != null && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Armchair className="h-4 w-4 text-accent" />
+                <span className={`text-xs ${full ? 'font-medium text-destructive' : ''}`}>
+                  {full
+                    ? `Full${seats.waitlisted ? ` · ${seats.waitlisted} on waitlist` : ''}`
+                    : `${seatsLeft(seats)} of ${seats.capacity} ${teamEvent ? 'team slots' : 'seats'} left`}
+                </span>
+              </div>
+            )}
+
             {/* Registration Status - Visible to all users */}
             <div className="flex items-center gap-2">
               <div className={`w-2 h-2 rounded-full ${
@@ -128,7 +152,18 @@ export function EventCard({ event, onDelete }: EventCardProps) {
               </Button>
             </Link>
 
-            {!isPast && isRegistrationOpen && (
+            {canRegister && (
+              <Button
+                size="sm"
+                onClick={() => setRegisterOpen(true)}
+                className="gap-2"
+              >
+                <Ticket className="h-3 w-3" />
+                {full ? 'Waitlist' : 'Register'}
+              </Button>
+            )}
+
+            {!isPast && isApproved && isRegistrationOpen && (
               <Button
                 variant="accent"
                 size="sm"
@@ -175,6 +210,16 @@ export function EventCard({ event, onDelete }: EventCardProps) {
           venues: event.venues
         }}
       />
+
+      <RegisterModal
+        open={registerOpen}
+        onOpenChange={setRegisterOpen}
+        eventId={event.id}
+        eventName={event.event_name}
+        fields={formFields(event.registration_form)}
+        seats={seats}
+        teamEvent={teamEvent}
+      />
     </>
   );
 }
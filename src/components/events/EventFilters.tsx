@@ -1,4 +1,5 @@
 import { Club, Venue } from '@/lib/types';
+import { EventsView } from '@/lib/calendar';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
@@ -9,7 +10,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Search, Filter, X, ArrowUpDown } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Search, Filter, X, ArrowUpDown, LayoutGrid, CalendarDays, CalendarRange, CalendarClock } from 'lucide-react';
 
 interface EventFiltersProps {
   search: string;
@@ -24,6 +26,8 @@ interface EventFiltersProps {
   onDateToChange: (value: string) => void;
   sortOrder: 'asc' | 'desc';
   onSortOrderChange: (value: 'asc' | 'desc') => void;
+  view: EventsView;
+  onViewChange: (value: EventsView) => void;
   clubs: Club[];
   venues: Venue[];
   onClearFilters: () => void;
@@ -42,6 +46,8 @@ export function EventFilters({
   onDateToChange,
   sortOrder,
   onSortOrderChange,
+  view,
+  onViewChange,
   clubs,
   venues,
   onClearFilters,
@@ -50,15 +56,38 @@ export function EventFilters({
 
   return (
     <div className="space-y-4 p-4 rounded-xl bg-card border border-border/50 shadow-card">
-      {/* Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search events..."
-          value={search}
-          onChange={(e) => onSearchChange(e.target.value)}
-          className="pl-10"
-        />
+      <div className="flex flex-col sm:flex-row gap-4">
+        {/* Search */}
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search events..."
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {/* View */}
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && onViewChange(value as EventsView)}
+        >
+          <ToggleGroupItem value="grid" aria-label="Card grid" title="Cards">
+            <LayoutGrid className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="month" aria-label="Month view" title="Month">
+            <CalendarDays className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="week" aria-label="Week view" title="Week">
+            <CalendarRange className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="day" aria-label="Day view" title="Day">
+            <CalendarClock className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
       </div>
 
       {/* Filters Grid */}
@@ -0,0 +1,691 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ClashSuggestion, Club, Venue } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { VenueConflictModal } from '@/components/events/VenueConflictModal';
+import { SeriesConflictReport } from '@/components/events/SeriesConflictReport';
+import { RecurrenceFields } from '@/components/events/RecurrenceFields';
+import { AvailabilityStatus } from '@/components/events/AvailabilityStatus';
+import { RegistrationFormBuilder } from '@/components/events/RegistrationFormBuilder';
+import { useVenueAvailability } from '@/hooks/useVenueAvailability';
+import { BlockedPeriod } from '@/lib/venueSchedule';
+import {
+  checkSeriesConflicts,
+  checkVenueConflict,
+  ConflictCheck,
+  ConflictEvent,
+  OccurrenceConflict,
+  PlannedOccurrence,
+  SuggestedSlot,
+  VenueConflictError,
+} from '@/lib/venueConflict';
+import {
+  EventFormValues,
+  validateEventForm,
+  formatDateTimeLocal,
+  toBufferOverrides,
+  toEventPayload,
+} from '@/lib/eventValidation';
+import { buildOccurrences, RecurrenceRule } from '@/lib/recurrence';
+import { campusDateKey, parseCampusDateTime } from '@/lib/timezone';
+import { Armchair, Calendar, MapPin, Timer, UsersRound } from 'lucide-react';
+
+interface EventFormProps {
+  initialValues: EventFormValues;
+  // Set when editing so the event doesn't clash with its own booking
+  excludeEventId?: string;
+  submitLabel: string;
+  submittingLabel: string;
+  // Show the repeat controls (creating only)
+  allowRecurrence?: boolean;
+  // When editing several occurrences of a series at once, the bookings the save would make
+  planSeries?: (values: EventFormValues) => Promise<PlannedOccurrence[]>;
+  // May throw VenueConflictError when the database rejects an overlapping booking
+  onSubmit: (values: EventFormValues, options: EventSubmitOptions) => Promise<void>;
+}
+
+export interface EventSubmitOptions {
+  overrideConflict: boolean;
+  // Set when creating a recurring series
+  recurrence: RecurrenceRule | null;
+}
+
+export function EventForm({
+  initialValues,
+  excludeEventId,
+  submitLabel,
+  submittingLabel,
+  allowRecurrence = false,
+  planSeries,
+  onSubmit,
+}: EventFormProps) {
+  const { user, isSuperAdmin, editableClubIds } = useAuth();
+  const { toast } = useToast();
+
+  const [formData, setFormData] = useState<EventFormValues>(initialValues);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Conflict detection state
+  const [conflictModalOpen, setConflictModalOpen] = useState(false);
+  const [conflictingEvents, setConflictingEvents] = useState<ConflictEvent[]>([]);
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [suggestions, setSuggestions] = useState<ClashSuggestion[]>([]);
+  const [currentVenueName, setCurrentVenueName] = useState('');
+
+  // Recurring series state
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesReportOpen, setSeriesReportOpen] = useState(false);
+  const [seriesReport, setSeriesReport] = useState<OccurrenceConflict[]>([]);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    // Club members start with the first club they can edit
+    if (!isSuperAdmin && editableClubIds.length > 0 && !formData.club_id) {
+      setFormData(prev => ({ ...prev, club_id: editableClubIds[0] }));
+    }
+  }, [isSuperAdmin, editableClubIds, formData.club_id]);
+
+  const fetchData = async () => {
+    const [venuesRes, clubsRes] = await Promise.all([
+      supabase.from('venues').select('*').order('venue_name'),
+      supabase.from('clubs').select('*').order('club_name'),
+    ]);
+
+    if (venuesRes.data) setVenues(venuesRes.data as Venue[]);
+    if (clubsRes.data) setClubs(clubsRes.data as Club[]);
+  };
+
+  const selectedVenue = venues.find(v => v.id === formData.venue_id);
+  const teamEvent = !!formData.team_max_size || !!formData.team_min_size;
+  // Team events fit as many full teams as the venue seats, and always at least one (as event_capacity does)
+  const largestTeam = parseInt(formData.team_max_size, 10) || 1;
+  const defaultCapacity = selectedVenue?.capacity ? Math.max(1, Math.floor(selectedVenue.capacity / largestTeam)) : null;
+
+  // Live check as venue and times are filled in; the submit check below stays authoritative
+  const live = useVenueAvailability({
+    venueId: formData.venue_id,
+    venueIds: venues.map(v => v.id),
+    startTime: formData.start_time,
+    endTime: formData.end_time,
+    excludeEventId,
+    buffers: toBufferOverrides(formData),
+  });
+  // A failed refetch keeps the last data; don't keep showing it as current
+  const venueFree = live.pending || live.availability.isError ? undefined : live.availability.data;
+
+  const showConflict = (conflictCheck: ConflictCheck) => {
+    setCurrentVenueName(selectedVenue?.venue_name || 'Selected Venue');
+    setConflictingEvents(conflictCheck.conflictingEvents);
+    setBlockedPeriods(conflictCheck.blockedPeriods);
+    setSuggestions(conflictCheck.suggestions);
+    setConflictModalOpen(true);
+  };
+
+  const submit = async (overrideConflict = false, rule = recurrence) => {
+    setLoading(true);
+    try {
+      await onSubmit(formData, { overrideConflict, recurrence: rule });
+    } catch (error) {
+      if (!(error instanceof VenueConflictError)) throw error;
+      // Someone else booked the slot after our check passed
+      showConflict(error.conflict);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const fieldErrors = validateEventForm(formData);
+    if (fieldErrors) {
+      setErrors(fieldErrors);
+      return;
+    }
+
+    if (formData.capacity && selectedVenue?.capacity && defaultCapacity != null && parseInt(formData.capacity, 10) > defaultCapacity) {
+      setErrors({
+        capacity: teamEvent
+          ? `${selectedVenue.venue_name} only seats ${selectedVenue.capacity}, enough for ${defaultCapacity} full teams`
+          : `${selectedVenue.venue_name} only seats ${selectedVenue.capacity}`,
+      });
+      return;
+    }
+
+    // Every booking the save would make, when it makes more than one
+    let occurrences: PlannedOccurrence[] | null = null;
+    if (recurrence) {
+      occurrences = buildOccurrences(recurrence, {
+        start: parseCampusDateTime(formData.start_time),
+        end: parseCampusDateTime(formData.end_time),
+        registrationStart: parseCampusDateTime(formData.registration_start),
+        registrationEnd: parseCampusDateTime(formData.registration_end),
+      });
+      if (occurrences.length === 0) {
+        setErrors({ recurrence: 'The repeat settings produce no occurrences' });
+        return;
+      }
+    }
+
+    setLoading(true);
+
+    try {
+      if (!occurrences && planSeries) {
+        occurrences = await planSeries(formData);
+      }
+
+      // Batch report for the whole series before anything is saved
+      if (occurrences) {
+        const report = await checkSeriesConflicts(formData.venue_id, occurrences, toEventPayload(formData));
+        if (report.some(o => o.hasConflict)) {
+          setCurrentVenueName(selectedVenue?.venue_name || 'Selected Venue');
+          setSeriesReport(report);
+          setSeriesReportOpen(true);
+          setLoading(false);
+          return;
+        }
+      } else {
+        // Check for venue conflicts, including setup/teardown buffers
+        const conflictCheck = await checkVenueConflict(
+          formData.venue_id,
+          parseCampusDateTime(formData.start_time).toISOString(),
+          parseCampusDateTime(formData.end_time).toISOString(),
+          excludeEventId,
+          toEventPayload(formData)
+        );
+
+        if (conflictCheck.hasConflict) {
+          showConflict(conflictCheck);
+          setLoading(false);
+          return;
+        }
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to check venue availability',
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    // No conflicts, proceed with saving
+    await submit();
+  };
+
+  const handleSelectSlot = (venue: Venue, slot: SuggestedSlot) => {
+    // Update form data with suggested venue and slot
+    setFormData({
+      ...formData,
+      venue_id: venue.id,
+      start_time: formatDateTimeLocal(slot.start),
+      end_time: formatDateTimeLocal(slot.end),
+    });
+    setConflictModalOpen(false);
+
+    // Show success message
+    toast({
+      title: 'Time Slot Updated',
+      description: `Event moved to ${venue.venue_name} at the selected available slot.`,
+    });
+  };
+
+  const handleSkipConflicts = async () => {
+    if (!recurrence) return;
+    setSeriesReportOpen(false);
+
+    const skipped = seriesReport.filter(o => o.hasConflict).map(o => campusDateKey(o.start));
+    const rule = { ...recurrence, exceptions: [...new Set([...recurrence.exceptions, ...skipped])].sort() };
+    setRecurrence(rule);
+
+    await submit(false, rule);
+  };
+
+  // Queue for the contested slot; the club is offered it if the booking is deleted or moved
+  const handleJoinWaitlist = async () => {
+    const { error } = await supabase.from('venue_waitlist').insert([
+      {
+        venue_id: formData.venue_id,
+        club_id: formData.club_id,
+        requested_by: user?.id,
+        event_name: formData.event_name.trim(),
+        starts_at: parseCampusDateTime(formData.start_time).toISOString(),
+        ends_at: parseCampusDateTime(formData.end_time).toISOString(),
+      },
+    ]);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? 'Your club is already on the waitlist for this slot' : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setConflictModalOpen(false);
+    toast({
+      title: 'Added to Waitlist',
+      description: `We'll email you if ${currentVenueName} frees up for this time. The slot is then held for your club for a day.`,
+    });
+  };
+
+  const handleIgnoreConflict = async () => {
+    setConflictModalOpen(false);
+    setSeriesReportOpen(false);
+
+    // Super admins can double-book; the override is recorded on the event
+    toast({
+      title: 'Warning',
+      description: 'Saving event despite venue conflict. Please coordinate with other organizers.',
+      variant: 'destructive',
+    });
+
+    await submit(true);
+  };
+
+  const handleInputChange = (field: keyof EventFormValues, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const selectableClubs = isSuperAdmin ? clubs : clubs.filter((club) => editableClubIds.includes(club.id));
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Event Details
+          </CardTitle>
+          <CardDescription>
+            Fill in the details for your event
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-6">
+            {/* Event Name */}
+            <div className="space-y-2">
+              <Label htmlFor="event_name">Event Name *</Label>
+              <Input
+                id="event_name"
+                value={formData.event_name}
+                onChange={(e) => handleInputChange('event_name', e.target.value)}
+                placeholder="Enter event name"
+                className={errors.event_name ? 'border-destructive' : ''}
+              />
+              {errors.event_name && (
+                <p className="text-xs text-destructive">{errors.event_name}</p>
+              )}
+            </div>
+
+            {/* Description */}
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                placeholder="Event description (optional)"
+                rows={3}
+              />
+            </div>
+
+            {/* Club Selection (any club for super admins, otherwise the clubs they edit) */}
+            {(isSuperAdmin || selectableClubs.length > 1) && (
+              <div className="space-y-2">
+                <Label htmlFor="club">Club *</Label>
+                <Select
+                  value={formData.club_id}
+                  onValueChange={(value) => handleInputChange('club_id', value)}
+                >
+                  <SelectTrigger className={errors.club_id ? 'border-destructive' : ''}>
+                    <SelectValue placeholder="Select club" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {selectableClubs.map((club) => (
+                      <SelectItem key={club.id} value={club.id}>
+                        {club.club_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.club_id && (
+                  <p className="text-xs text-destructive">{errors.club_id}</p>
+                )}
+              </div>
+            )}
+
+            {/* Venue */}
+            <div className="space-y-2">
+              <Label htmlFor="venue">Venue *</Label>
+              <Select
+                value={formData.venue_id}
+                onValueChange={(value) => handleInputChange('venue_id', value)}
+              >
+                <SelectTrigger className={errors.venue_id ? 'border-destructive' : ''}>
+                  <SelectValue placeholder="Select venue" />
+                </SelectTrigger>
+                <SelectContent>
+                  {venues.map((venue) => (
+                    <SelectItem key={venue.id} value={venue.id}>
+                      <div className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4" />
+                        {venue.venue_name}
+                        {venueFree && venue.id in venueFree && (
+                          <span className={venueFree[venue.id] ? 'text-xs text-success' : 'text-xs text-destructive'}>
+                            {venueFree[venue.id] ? 'Free' : 'Busy'}
+                          </span>
+                        )}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.venue_id && (
+                <p className="text-xs text-destructive">{errors.venue_id}</p>
+              )}
+            </div>
+
+            {/* Event Timing */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="start_time">Event Start Time *</Label>
+                <Input
+                  id="start_time"
+                  type="datetime-local"
+                  value={formData.start_time}
+                  onChange={(e) => handleInputChange('start_time', e.target.value)}
+                  className={errors.start_time ? 'border-destructive' : ''}
+                />
+                {errors.start_time && (
+                  <p className="text-xs text-destructive">{errors.start_time}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="end_time">Event End Time *</Label>
+                <Input
+                  id="end_time"
+                  type="datetime-local"
+                  value={formData.end_time}
+                  onChange={(e) => handleInputChange('end_time', e.target.value)}
+                  className={errors.end_time ? 'border-destructive' : ''}
+                />
+                {errors.end_time && (
+                  <p className="text-xs text-destructive">{errors.end_time}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Live availability */}
+            {formData.venue_id && live.ready && (
+              <AvailabilityStatus
+                venueName={selectedVenue?.venue_name || 'Selected venue'}
+                check={live.pending ? undefined : live.conflict.data}
+                checking={live.pending || live.conflict.isLoading}
+                failed={live.conflict.isError}
+                onSelectSlot={handleSelectSlot}
+              />
+            )}
+
+            {/* Setup / Teardown Buffers */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="setup_minutes" className="flex items-center gap-1">
+                  <Timer className="h-3 w-3" />
+                  Setup Time (minutes)
+                </Label>
+                <Input
+                  id="setup_minutes"
+                  inputMode="numeric"
+                  value={formData.setup_minutes}
+                  onChange={(e) => handleInputChange('setup_minutes', e.target.value)}
+                  placeholder={`Venue default (${selectedVenue?.setup_minutes ?? 0})`}
+                  className={errors.setup_minutes ? 'border-destructive' : ''}
+                />
+                {errors.setup_minutes && (
+                  <p className="text-xs text-destructive">{errors.setup_minutes}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="teardown_minutes" className="flex items-center gap-1">
+                  <Timer className="h-3 w-3" />
+                  Teardown Time (minutes)
+                </Label>
+                <Input
+                  id="teardown_minutes"
+                  inputMode="numeric"
+                  value={formData.teardown_minutes}
+                  onChange={(e) => handleInputChange('teardown_minutes', e.target.value)}
+                  placeholder={`Venue default (${selectedVenue?.teardown_minutes ?? 0})`}
+                  className={errors.teardown_minutes ? 'border-destructive' : ''}
+                />
+                {errors.teardown_minutes && (
+                  <p className="text-xs text-destructive">{errors.teardown_minutes}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Seats and teams */}
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="team_event" className="flex items-center gap-2">
+                    <UsersRound className="h-4 w-4" />
+                    Team event
+                  </Label>
+                  <p className="text-xs text-muted-foreground">Attendees register as teams, e.g. for hackathons and competitions</p>
+                </div>
+                <Switch
+                  id="team_event"
+                  checked={teamEvent}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    team_min_size: checked ? '1' : '',
+                    team_max_size: checked ? '4' : '',
+                  }))}
+                />
+              </div>
+
+              {teamEvent && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="team_min_size">Smallest team</Label>
+                    <Input
+                      id="team_min_size"
+                      inputMode="numeric"
+                      value={formData.team_min_size}
+                      onChange={(e) => handleInputChange('team_min_size', e.target.value)}
+                      className={errors.team_min_size ? 'border-destructive' : ''}
+                    />
+                    {errors.team_min_size && (
+                      <p className="text-xs text-destructive">{errors.team_min_size}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="team_max_size">Largest team</Label>
+                    <Input
+                      id="team_max_size"
+                      inputMode="numeric"
+                      value={formData.team_max_size}
+                      onChange={(e) => handleInputChange('team_max_size', e.target.value)}
+                      className={errors.team_max_size ? 'border-destructive' : ''}
+                    />
+                    {errors.team_max_size && (
+                      <p className="text-xs text-destructive">{errors.team_max_size}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="capacity" className="flex items-center gap-1">
+                  <Armchair className="h-3 w-3" />
+                  {teamEvent ? 'Capacity (teams)' : 'Capacity (seats)'}
+                </Label>
+                <Input
+                  id="capacity"
+                  inputMode="numeric"
+                  value={formData.capacity}
+                  onChange={(e) => handleInputChange('capacity', e.target.value)}
+                  placeholder={defaultCapacity ? `Venue capacity (${defaultCapacity})` : 'No limit'}
+                  className={errors.capacity ? 'border-destructive' : ''}
+                />
+                {errors.capacity ? (
+                  <p className="text-xs text-destructive">{errors.capacity}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Registration moves to a waitlist once every {teamEvent ? 'team slot' : 'seat'} is taken.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {allowRecurrence && (
+              <RecurrenceFields
+                value={recurrence}
+                onChange={(value) => {
+                  setRecurrence(value);
+                  if (errors.recurrence) setErrors(prev => ({ ...prev, recurrence: '' }));
+                }}
+                firstDateKey={formData.start_time.slice(0, 10)}
+                error={errors.recurrence}
+              />
+            )}
+
+            {/* Registration Timing */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="registration_start">Registration Start *</Label>
+                <Input
+                  id="registration_start"
+                  type="datetime-local"
+                  value={formData.registration_start}
+                  onChange={(e) => handleInputChange('registration_start', e.target.value)}
+                  className={errors.registration_start ? 'border-destructive' : ''}
+                />
+                {errors.registration_start && (
+                  <p className="text-xs text-destructive">{errors.registration_start}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="registration_end">Registration End *</Label>
+                <Input
+                  id="registration_end"
+                  type="datetime-local"
+                  value={formData.registration_end}
+                  onChange={(e) => handleInputChange('registration_end', e.target.value)}
+                  className={errors.registration_end ? 'border-destructive' : ''}
+                />
+                {errors.registration_end && (
+                  <p className="text-xs text-destructive">{errors.registration_end}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Registration Status */}
+            <div className="space-y-2">
+              <Label htmlFor="registration_status">Registration Status</Label>
+              <Select
+                value={formData.is_open ? 'open' : 'closed'}
+                onValueChange={(value) => handleInputChange('is_open', value === 'open')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-green-500" />
+                      Registration Open
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="closed">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-red-500" />
+                      Registration Closed
+                    </div>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <RegistrationFormBuilder
+              value={formData.registration_form}
+              onChange={(registration_form) => {
+                setFormData(prev => ({ ...prev, registration_form }));
+                if (errors.registration_form) setErrors(prev => ({ ...prev, registration_form: '' }));
+              }}
+              error={errors.registration_form}
+            />
+          </CardContent>
+
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                  {submittingLabel}
+                </>
+              ) : (
+                <>
+                  <Calendar className="h-4 w-4 mr-2" />
+                  {submitLabel}
+                </>
+              )}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      {/* Venue Conflict Modal */}
+      <VenueConflictModal
+        open={conflictModalOpen}
+        onOpenChange={setConflictModalOpen}
+        conflictingEvents={conflictingEvents}
+        blockedPeriods={blockedPeriods}
+        suggestions={suggestions}
+        venueName={currentVenueName}
+        onSelectSlot={handleSelectSlot}
+        onIgnoreConflict={handleIgnoreConflict}
+        onJoinWaitlist={!excludeEventId && !recurrence ? handleJoinWaitlist : undefined}
+        canOverride={isSuperAdmin}
+      />
+
+      {/* Batch report for recurring series */}
+      <SeriesConflictReport
+        open={seriesReportOpen}
+        onOpenChange={setSeriesReportOpen}
+        occurrences={seriesReport}
+        venueName={currentVenueName}
+        onSkipConflicts={recurrence ? handleSkipConflicts : undefined}
+        onIgnoreConflict={handleIgnoreConflict}
+        canOverride={isSuperAdmin}
+      />
+    </>
+  );
+}
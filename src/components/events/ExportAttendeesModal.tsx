@@ -0,0 +1,176 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Event } from '@/lib/types';
+import {
+  ExportColumn,
+  ExportDataset,
+  ExportFormat,
+  SUBSCRIBER_COLUMNS,
+  downloadExport,
+  exportFileName,
+  fetchRegistrants,
+  fetchSubscribers,
+  registrantColumns,
+} from '@/lib/attendeeExport';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportAttendeesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: Event;
+}
+
+// Participant lists for the venue office and certificates, with the columns the POC picks
+export function ExportAttendeesModal({ open, onOpenChange, event }: ExportAttendeesModalProps) {
+  const { toast } = useToast();
+  const [dataset, setDataset] = useState<ExportDataset>('registrants');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [includeCancelled, setIncludeCancelled] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  const columns = useMemo(
+    () => (dataset === 'registrants' ? registrantColumns(event) : SUBSCRIBER_COLUMNS) as ExportColumn<unknown>[],
+    [dataset, event]
+  );
+
+  // Every column starts ticked whenever the list changes
+  useEffect(() => {
+    setSelected(columns.map((column) => column.key));
+  }, [columns]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected((keys) => (checked ? [...keys, key] : keys.filter((k) => k !== key)));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows = dataset === 'registrants'
+        ? (await fetchRegistrants(event.id)).filter((r) => includeCancelled || r.status !== 'cancelled')
+        : await fetchSubscribers(event.id);
+      const chosen = columns.filter((column) => selected.includes(column.key));
+
+      await downloadExport(chosen, rows, format, exportFileName(event, dataset));
+      toast({
+        title: 'Export ready',
+        description: `${rows.length} ${dataset === 'registrants' ? 'registrant' : 'subscriber'}${rows.length === 1 ? '' : 's'} exported.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: (error as { message?: string }).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+    setExporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Attendees</DialogTitle>
+          <DialogDescription>Download the participant list for {event.event_name}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>List</Label>
+            <RadioGroup value={dataset} onValueChange={(value) => setDataset(value as ExportDataset)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="registrants" id="export-registrants" />
+                <Label htmlFor="export-registrants" className="font-normal">
+                  Registrants, with form answers and check-in status
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="subscribers" id="export-subscribers" />
+                <Label htmlFor="export-subscribers" className="font-normal">
+                  Reminder subscribers
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {dataset === 'registrants' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-cancelled"
+                checked={includeCancelled}
+                onCheckedChange={(checked) => setIncludeCancelled(checked === true)}
+              />
+              <Label htmlFor="export-cancelled" className="font-normal">Include cancelled registrations</Label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setSelected(selected.length === columns.length ? [] : columns.map((c) => c.key))}
+              >
+                {selected.length === columns.length ? 'Clear all' : 'Select all'}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+              {columns.map((column) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selected.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className="font-normal truncate">
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="export-csv" />
+                <Label htmlFor="export-csv" className="font-normal">CSV</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="xlsx" id="export-xlsx" />
+                <Label htmlFor="export-xlsx" className="font-normal">Excel (XLSX)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || selected.length === 0}>
+            {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
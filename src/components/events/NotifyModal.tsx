@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { EmailService } from '@/lib/emailService';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -38,6 +39,14 @@ export function NotifyModal({ open, onOpenChange, eventId, eventName, eventDetai
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState('');
   const { toast } = useToast();
+  const { profile } = useAuth();
+
+  // Signed-in users subscribe with their account's email, so it shows in My Events
+  useEffect(() => {
+    if (open && profile && !email) {
+      setEmail(profile.email);
+    }
+  }, [open, profile]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
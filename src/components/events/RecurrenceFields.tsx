@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { RecurrenceFrequency } from '@/lib/types';
+import { RecurrenceRule, MAX_OCCURRENCES, defaultRecurrence, describeRecurrence, expandRecurrence } from '@/lib/recurrence';
+import { WEEKDAYS } from '@/lib/venueSchedule';
+import { campusDateTime, formatCampus } from '@/lib/timezone';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat, X } from 'lucide-react';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  // Campus date (YYYY-MM-DD) of the first occurrence, taken from the start time
+  firstDateKey: string;
+  error?: string;
+}
+
+const formatDateKey = (dateKey: string) => formatCampus(campusDateTime(dateKey, '12:00'), 'EEE, MMM dd');
+
+export function RecurrenceFields({ value, onChange, firstDateKey, error }: RecurrenceFieldsProps) {
+  const [exceptionDate, setExceptionDate] = useState('');
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const addException = () => {
+    if (!value || !exceptionDate || value.exceptions.includes(exceptionDate)) return;
+    update({ exceptions: [...value.exceptions, exceptionDate].sort() });
+    setExceptionDate('');
+  };
+
+  const dates = value && firstDateKey ? expandRecurrence(value, firstDateKey) : [];
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="repeat" className="flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            Repeat this event
+          </Label>
+          <p className="text-xs text-muted-foreground">Create a series of occurrences at the same time</p>
+        </div>
+        <Switch
+          id="repeat"
+          checked={!!value}
+          disabled={!firstDateKey}
+          onCheckedChange={(checked) => onChange(checked ? defaultRecurrence(firstDateKey) : null)}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select
+                value={value.frequency}
+                onValueChange={(frequency) => update({ frequency: frequency as RecurrenceFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurrence_interval">Every</Label>
+              <Input
+                id="recurrence_interval"
+                type="number"
+                min={1}
+                max={12}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+            </div>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>On</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={value.byWeekday.map(String)}
+                onValueChange={(days) => days.length && update({ byWeekday: days.map(Number) })}
+              >
+                {WEEKDAYS.map((day, weekday) => (
+                  <ToggleGroupItem key={day} value={String(weekday)} aria-label={day} className="w-12">
+                    {day.slice(0, 3)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <RadioGroup
+              value={value.until ? 'until' : 'count'}
+              onValueChange={(mode) =>
+                mode === 'until'
+                  ? update({ until: firstDateKey, count: null })
+                  : update({ until: null, count: 10 })
+              }
+              className="space-y-2"
+            >
+              <div className="flex items-center gap-3">
+                <RadioGroupItem value="count" id="ends_count" />
+                <Label htmlFor="ends_count" className="font-normal">After</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_OCCURRENCES}
+                  className="w-24"
+                  disabled={!!value.until}
+                  value={value.count ?? ''}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                />
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <RadioGroupItem value="until" id="ends_until" />
+                <Label htmlFor="ends_until" className="font-normal">On</Label>
+                <Input
+                  type="date"
+                  className="w-44"
+                  disabled={!value.until}
+                  min={firstDateKey}
+                  value={value.until ?? ''}
+                  onChange={(e) => e.target.value && update({ until: e.target.value })}
+                />
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exception_date">Skip dates</Label>
+            <div className="flex gap-2">
+              <Input
+                id="exception_date"
+                type="date"
+                className="w-44"
+                min={firstDateKey}
+                value={exceptionDate}
+                onChange={(e) => setExceptionDate(e.target.value)}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={addException} disabled={!exceptionDate}>
+                Skip
+              </Button>
+            </div>
+            {value.exceptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {value.exceptions.map((dateKey) => (
+                  <Badge key={dateKey} variant="secondary" className="gap-1">
+                    {formatDateKey(dateKey)}
+                    <button
+                      type="button"
+                      aria-label={`Stop skipping ${dateKey}`}
+                      onClick={() => update({ exceptions: value.exceptions.filter((d) => d !== dateKey) })}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {describeRecurrence(value)}.{' '}
+            {dates.length > 0
+              ? `${dates.length} occurrence${dates.length === 1 ? '' : 's'}, ${formatDateKey(dates[0])} to ${formatDateKey(dates[dates.length - 1])}.`
+              : 'No occurrences match these settings.'}
+          </p>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState, useEffect, useMemo } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { EmailService } from '@/lib/emailService';
+import { createTeam, fetchTeam, isFull, joinTeam, registerForEvent } from '@/lib/registrations';
+import { buildResponsesSchema, emptyResponses, uploadResponseFiles } from '@/lib/registrationForm';
+import { EventSeats, Registration, RegistrationFormField, TeamDetails } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle, ListOrdered, Loader2, Ticket } from 'lucide-react';
+
+const attendeeSchema = z.object({
+  full_name: z.string().trim().min(2, 'Please enter your name'),
+  email: z.string().trim().email('Please enter a valid email address'),
+  // Team events only, depending on whether the attendee starts or joins a team
+  team_name: z.string().trim(),
+  join_code: z.string().trim(),
+});
+
+type TeamMode = 'create' | 'join';
+
+interface RegisterModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  eventName: string;
+  // The event's own questions, asked after name and email
+  fields?: RegistrationFormField[];
+  seats?: EventSeats;
+  // Set for team events
+  teamEvent?: boolean;
+  // Prefills the join form, e.g. from an invite link
+  joinCode?: string;
+  onRegistered?: (registration: Registration) => void;
+}
+
+export function RegisterModal({
+  open,
+  onOpenChange,
+  eventId,
+  eventName,
+  fields = [],
+  seats,
+  teamEvent = false,
+  joinCode = '',
+  onRegistered,
+}: RegisterModalProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [registration, setRegistration] = useState<Registration | null>(null);
+  const [team, setTeam] = useState<TeamDetails | null>(null);
+  const [teamMode, setTeamMode] = useState<TeamMode>(joinCode ? 'join' : 'create');
+
+  const schema = useMemo(
+    () => attendeeSchema.extend({ responses: buildResponsesSchema(fields) }),
+    [fields]
+  );
+  type RegistrationValues = z.infer<typeof schema>;
+
+  const defaultValues = useMemo(
+    () => ({ full_name: '', email: '', team_name: '', join_code: joinCode, responses: emptyResponses(fields) }),
+    [fields, joinCode]
+  );
+
+  const form = useForm<RegistrationValues>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  });
+
+  // Signed-in users register as themselves by default
+  useEffect(() => {
+    if (open && profile) {
+      if (!form.getValues('full_name')) form.setValue('full_name', profile.full_name || '');
+      if (!form.getValues('email')) form.setValue('email', profile.email || '');
+    }
+  }, [open, profile]);
+
+  // An invite link opened the modal with a code
+  useEffect(() => {
+    if (open && joinCode) {
+      setTeamMode('join');
+      form.setValue('join_code', joinCode);
+    }
+  }, [open, joinCode]);
+
+  const full = isFull(seats);
+
+  const onSubmit = async (values: RegistrationValues) => {
+    if (teamEvent && teamMode === 'create' && !values.team_name) {
+      form.setError('team_name', { message: 'Please name your team' });
+      return;
+    }
+    if (teamEvent && teamMode === 'join' && !values.join_code) {
+      form.setError('join_code', { message: 'Enter the code your captain shared' });
+      return;
+    }
+
+    try {
+      const responses = await uploadResponseFiles(eventId, values.responses);
+      const result = !teamEvent
+        ? await registerForEvent(eventId, values.full_name, values.email, responses)
+        : teamMode === 'create'
+          ? await createTeam(eventId, values.team_name, values.full_name, values.email, responses)
+          : await joinTeam(eventId, values.join_code, values.full_name, values.email, responses);
+      setRegistration(result);
+      if (teamEvent) setTeam(await fetchTeam(result.cancel_token));
+      queryClient.invalidateQueries({ queryKey: ['event-seats'] });
+      onRegistered?.(result);
+      EmailService.sendRegistrationUpdates(eventId);
+      toast({
+        title: result.status === 'confirmed' ? 'Registered!' : 'Added to waitlist',
+        description: result.status === 'confirmed'
+          ? `Your seat for ${eventName} is confirmed.`
+          : "The event is full. You'll get a seat automatically if someone cancels.",
+      });
+    } catch (error) {
+      const { code, message } = error as { code?: string; message?: string };
+      if (code === '23505') {
+        if (message?.includes('team')) {
+          form.setError('team_name', { message: 'A team with that name is already registered.' });
+        } else {
+          form.setError('email', { message: 'This email is already registered for the event.' });
+        }
+      } else {
+        toast({
+          title: 'Registration failed',
+          description: message || 'Please try again.',
+          variant: 'destructive',
+        });
+      }
+    }
+  };
+
+  const handleClose = (open: boolean) => {
+    if (!open) {
+      form.reset(defaultValues);
+      setRegistration(null);
+      setTeam(null);
+    }
+    onOpenChange(open);
+  };
+
+  const renderField = (field: RegistrationFormField) => (
+    <FormField
+      key={field.id}
+      control={form.control}
+      name={`responses.${field.id}`}
+      render={({ field: input }) => (
+        <FormItem className={field.type === 'checkbox' ? 'flex flex-row items-start gap-3 space-y-0' : undefined}>
+          {field.type === 'checkbox' ? (
+            <>
+              <FormControl>
+                <Checkbox checked={!!input.value} onCheckedChange={(checked) => input.onChange(checked === true)} />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel className="font-normal">
+                  {field.label}{field.required && ' *'}
+                </FormLabel>
+                {field.help && <FormDescription>{field.help}</FormDescription>}
+                <FormMessage />
+              </div>
+            </>
+          ) : (
+            <>
+              <FormLabel>{field.label}{field.required && ' *'}</FormLabel>
+              {field.type === 'select' ? (
+                <Select value={(input.value as string) || undefined} onValueChange={input.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose..." />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(field.options ?? []).map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : field.type === 'file' ? (
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept={field.accept}
+                    name={input.name}
+                    ref={input.ref}
+                    onBlur={input.onBlur}
+                    onChange={(e) => input.onChange(e.target.files?.[0])}
+                  />
+                </FormControl>
+              ) : (
+                <FormControl>
+                  <Input {...input} value={(input.value as string) ?? ''} maxLength={field.maxLength} />
+                </FormControl>
+              )}
+              {field.help && <FormDescription>{field.help}</FormDescription>}
+              <FormMessage />
+            </>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+
+  const waitlisted = registration?.status === 'waitlisted';
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10 mb-4">
+            {registration ? (
+              waitlisted ? <ListOrdered className="h-6 w-6 text-warning" /> : <CheckCircle className="h-6 w-6 text-success" />
+            ) : (
+              <Ticket className="h-6 w-6 text-primary" />
+            )}
+          </div>
+          <DialogTitle className="text-center">
+            {registration
+              ? (waitlisted ? "You're on the waitlist" : "You're registered!")
+              : (full ? 'Join the Waitlist' : 'Register')}
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            {registration
+              ? (waitlisted
+                  ? `${eventName} is full. If a seat frees up it's given to the next person in line and we'll email you.`
+                  : `Your seat for ${eventName} is confirmed. A confirmation is on its way to ${registration.email}.`)
+              : (full
+                  ? `${eventName} is full. Join the waitlist to get a seat automatically if someone cancels.`
+                  : `Reserve your seat for ${eventName}.`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {team && (
+          <div className="rounded-lg border bg-muted/50 p-4 text-center space-y-1">
+            <p className="text-sm text-muted-foreground">Team {team.name} · join code</p>
+            <p className="text-2xl font-mono font-bold tracking-widest">{team.join_code}</p>
+            <p className="text-xs text-muted-foreground">
+              Share it with your teammates, or invite them from the event page.
+            </p>
+          </div>
+        )}
+
+        {registration ? (
+          <DialogFooter>
+            <Button className="w-full" onClick={() => handleClose(false)}>Done</Button>
+          </DialogFooter>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <div className="space-y-4 py-4">
+                {teamEvent && (
+                  <>
+                    <Tabs value={teamMode} onValueChange={(mode) => setTeamMode(mode as TeamMode)}>
+                      <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="create">Create a team</TabsTrigger>
+                        <TabsTrigger value="join">Join a team</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                    {teamMode === 'create' ? (
+                      <FormField
+                        control={form.control}
+                        name="team_name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Team name *</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormDescription>You'll be the captain and get a code to share with teammates.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ) : (
+                      <FormField
+                        control={form.control}
+                        name="join_code"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Join code *</FormLabel>
+                            <FormControl>
+                              <Input {...field} className="font-mono uppercase" maxLength={6} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </>
+                )}
+                <FormField
+                  control={form.control}
+                  name="full_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full name *</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email address *</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="you@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {fields.map(renderField)}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleClose(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {full ? 'Join Waitlist' : 'Register'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
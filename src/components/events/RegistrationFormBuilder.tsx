@@ -0,0 +1,193 @@
+import { FormFieldType, RegistrationFormField } from '@/lib/types';
+import { FIELD_TYPE_LABELS, MAX_UPLOAD_MB, newFormField } from '@/lib/registrationForm';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ClipboardList, Plus, Trash2 } from 'lucide-react';
+
+interface RegistrationFormBuilderProps {
+  value: RegistrationFormField[];
+  onChange: (value: RegistrationFormField[]) => void;
+  error?: string;
+}
+
+// Blank number inputs clear the rule
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Math.max(parseInt(value, 10) || 0, 0));
+
+export function RegistrationFormBuilder({ value, onChange, error }: RegistrationFormBuilderProps) {
+  const update = (index: number, changes: Partial<RegistrationFormField>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const changeType = (index: number, type: FormFieldType) => {
+    // Start the new type from scratch, keeping what the question asks
+    const { id, label, required, help } = value[index];
+    onChange(value.map((field, i) => (i === index ? { ...newFormField(type), id, label, required, help } : field)));
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div>
+        <Label className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Registration form
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          Attendees always give their name and email. Add any other questions you need answered.
+        </p>
+      </div>
+
+      {value.map((field, index) => (
+        <div key={field.id} className="space-y-3 rounded-md border bg-muted/30 p-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[12rem] space-y-1">
+              <Label htmlFor={`field_label_${field.id}`} className="text-xs">Question</Label>
+              <Input
+                id={`field_label_${field.id}`}
+                value={field.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                placeholder="e.g. Registration number"
+              />
+            </div>
+            <div className="w-36 space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={field.type} onValueChange={(type) => changeType(index, type as FormFieldType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FIELD_TYPE_LABELS) as FormFieldType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id={`field_required_${field.id}`}
+                checked={field.required}
+                onCheckedChange={(required) => update(index, { required })}
+              />
+              <Label htmlFor={`field_required_${field.id}`} className="text-xs font-normal">Required</Label>
+            </div>
+            <div className="flex gap-1">
+              <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" disabled={index === value.length - 1} onClick={() => move(index, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive hover:text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <Input
+            value={field.help ?? ''}
+            onChange={(e) => update(index, { help: e.target.value })}
+            placeholder="Help text (optional)"
+            className="h-8 text-xs"
+          />
+
+          {field.type === 'select' && (
+            <div className="space-y-1">
+              <Label htmlFor={`field_options_${field.id}`} className="text-xs">Options (one per line)</Label>
+              <Textarea
+                id={`field_options_${field.id}`}
+                rows={3}
+                value={(field.options ?? []).join('\n')}
+                onChange={(e) => update(index, { options: e.target.value.split('\n') })}
+                placeholder={'CSE\nECE\nMechanical'}
+              />
+            </div>
+          )}
+
+          {field.type === 'text' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Min length</Label>
+                <Input
+                  inputMode="numeric"
+                  value={field.minLength ?? ''}
+                  onChange={(e) => update(index, { minLength: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max length</Label>
+                <Input
+                  inputMode="numeric"
+                  value={field.maxLength ?? ''}
+                  onChange={(e) => update(index, { maxLength: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Pattern (regex)</Label>
+                <Input
+                  value={field.pattern ?? ''}
+                  onChange={(e) => update(index, { pattern: e.target.value || undefined })}
+                  placeholder="^\d{2}[A-Z]{3}\d{4}$"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Pattern error</Label>
+                <Input
+                  value={field.patternMessage ?? ''}
+                  onChange={(e) => update(index, { patternMessage: e.target.value || undefined })}
+                  placeholder="e.g. Use your VIT reg. no."
+                />
+              </div>
+            </div>
+          )}
+
+          {field.type === 'file' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Allowed types</Label>
+                <Input
+                  value={field.accept ?? ''}
+                  onChange={(e) => update(index, { accept: e.target.value || undefined })}
+                  placeholder=".pdf,image/*"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max size (MB, up to {MAX_UPLOAD_MB})</Label>
+                <Input
+                  inputMode="numeric"
+                  value={field.maxSizeMb ?? ''}
+                  onChange={(e) => update(index, { maxSizeMb: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(FIELD_TYPE_LABELS) as FormFieldType[]).map((type) => (
+          <Button key={type} type="button" variant="outline" size="sm" onClick={() => onChange([...value, newFormField(type)])}>
+            <Plus className="h-3 w-3 mr-1" />
+            {FIELD_TYPE_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
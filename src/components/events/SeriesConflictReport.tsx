@@ -0,0 +1,105 @@
+import { formatCampus } from '@/lib/timezone';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { OccurrenceConflict } from '@/lib/venueConflict';
+import { AlertTriangle, CheckCircle2, Ban } from 'lucide-react';
+
+interface SeriesConflictReportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  occurrences: OccurrenceConflict[];
+  venueName: string;
+  // Only offered when creating a series: save the free dates, skip the rest
+  onSkipConflicts?: () => void;
+  onIgnoreConflict: () => void;
+  canOverride?: boolean;
+}
+
+export function SeriesConflictReport({
+  open,
+  onOpenChange,
+  occurrences,
+  venueName,
+  onSkipConflicts,
+  onIgnoreConflict,
+  canOverride = false,
+}: SeriesConflictReportProps) {
+  const conflicted = occurrences.filter((o) => o.hasConflict);
+  const freeCount = occurrences.length - conflicted.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            Series Booking Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            {conflicted.length} of {occurrences.length} occurrences can't be booked at {venueName}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y rounded-lg border">
+          {occurrences.map((occurrence) => (
+            <div key={occurrence.start.toISOString()} className="flex items-start justify-between gap-4 p-3">
+              <div className="space-y-1">
+                <div className="font-medium">
+                  {formatCampus(occurrence.start, 'EEE, MMM dd, yyyy')}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {formatCampus(occurrence.start, 'h:mm a')} - {formatCampus(occurrence.end, 'h:mm a')}
+                </div>
+                {occurrence.conflictingEvents.map((event) => (
+                  <div key={event.id} className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-3 w-3" />
+                    {event.event_name} ({event.clubs.club_name})
+                    {event.bufferOnly && <Badge variant="outline">Buffer only</Badge>}
+                  </div>
+                ))}
+                {occurrence.blockedPeriods.map((period) => (
+                  <div key={`${period.start.toISOString()}-${period.reason}`} className="flex items-center gap-2 text-sm text-destructive">
+                    <Ban className="h-3 w-3" />
+                    {period.reason}
+                  </div>
+                ))}
+              </div>
+              {occurrence.hasConflict ? (
+                <Badge variant="destructive">Conflict</Badge>
+              ) : (
+                <Badge variant="secondary" className="gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Free
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {onSkipConflicts && freeCount > 0 && (
+            <Button onClick={onSkipConflicts}>
+              Skip Conflicts ({freeCount} free)
+            </Button>
+          )}
+          {canOverride && (
+            <Button variant="destructive" onClick={onIgnoreConflict}>
+              Override Conflicts
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Event } from '@/lib/types';
+import { EmailService } from '@/lib/emailService';
+import { fetchTeam, lockTeam } from '@/lib/registrations';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy, Crown, Lock, Mail, UsersRound } from 'lucide-react';
+
+interface TeamPanelProps {
+  event: Event;
+  // The viewer's own registration token
+  token: string;
+}
+
+// The viewer's team at a team event: members, join code, and the captain's invite and lock controls
+export function TeamPanel({ event, token }: TeamPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [invites, setInvites] = useState('');
+  const [sending, setSending] = useState(false);
+  const [locking, setLocking] = useState(false);
+
+  const { data: team } = useQuery({
+    queryKey: ['team', token],
+    queryFn: () => fetchTeam(token),
+  });
+
+  if (!team || team.status === 'cancelled') return null;
+
+  const maxSize = event.team_max_size ?? 0;
+  const minSize = event.team_min_size ?? 1;
+  const memberCount = team.members.length;
+  const registrationOpen = new Date(event.registration_end) > new Date();
+  const canInvite = team.is_captain && !team.locked_at && registrationOpen && memberCount < maxSize;
+  const canLock = team.is_captain && !team.locked_at && registrationOpen && memberCount >= minSize;
+
+  const copyCode = async () => {
+    await navigator.clipboard.writeText(team.join_code);
+    toast({ title: 'Join code copied' });
+  };
+
+  const sendInvites = async () => {
+    const emails = invites.split(/[\s,;]+/).filter(Boolean);
+    if (emails.length === 0) return;
+
+    setSending(true);
+    const sent = await EmailService.sendTeamInvites(token, emails);
+    setSending(false);
+
+    if (sent) {
+      setInvites('');
+      toast({ title: 'Invites sent', description: `Your teammates will get the join code for ${team.name}.` });
+    } else {
+      toast({ title: 'Error', description: 'Failed to send invites', variant: 'destructive' });
+    }
+  };
+
+  const handleLock = async () => {
+    setLocking(true);
+    try {
+      await lockTeam(token);
+      queryClient.invalidateQueries({ queryKey: ['team'] });
+      toast({ title: 'Team locked', description: `${team.name} is final for ${event.event_name}.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to lock the team',
+        variant: 'destructive',
+      });
+    }
+    setLocking(false);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">{team.name}</h3>
+          <Badge variant={team.status === 'confirmed' ? 'default' : 'secondary'}>
+            {team.status === 'confirmed' ? 'Confirmed' : 'Waitlisted'}
+          </Badge>
+          {team.locked_at && (
+            <Badge variant="outline">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked
+            </Badge>
+          )}
+        </div>
+        {!team.locked_at && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Join code</span>
+            <code className="rounded bg-muted px-2 py-1 font-mono font-bold tracking-widest">{team.join_code}</code>
+            <Button variant="ghost" size="icon" onClick={copyCode} aria-label="Copy join code">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">
+          Members ({memberCount} of {maxSize}{minSize > 1 && `, at least ${minSize}`})
+        </p>
+        <ul className="space-y-1">
+          {team.members.map((member) => (
+            <li key={member.email} className="flex items-center gap-2 text-sm">
+              {member.is_captain && <Crown className="h-4 w-4 text-warning" />}
+              <span>{member.full_name}</span>
+              <span className="text-muted-foreground">{member.email}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {canInvite && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Invite teammates</p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="friend@example.com, another@example.com"
+              value={invites}
+              onChange={(e) => setInvites(e.target.value)}
+            />
+            <Button variant="outline" onClick={sendInvites} disabled={sending || !invites.trim()}>
+              <Mail className="h-4 w-4 mr-2" />
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {team.is_captain && !team.locked_at && registrationOpen && (
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+          <p className="text-sm text-muted-foreground">
+            {canLock
+              ? 'Lock the team once everyone has joined. Members can no longer join or leave after that.'
+              : `You need at least ${minSize} members before you can lock the team.`}
+          </p>
+          <Button size="sm" onClick={handleLock} disabled={!canLock || locking}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock Team
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+
+interface TicketQrProps {
+  ticket: string;
+  className?: string;
+}
+
+// A registration's ticket as a scannable QR code
+export function TicketQr({ ticket, className }: TicketQrProps) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(ticket, { width: 240, margin: 1 }).then((url) => {
+      if (!cancelled) setSrc(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ticket]);
+
+  if (!src) return null;
+
+  return <img src={src} alt="Your ticket QR code" width={240} height={240} className={className} />;
+}
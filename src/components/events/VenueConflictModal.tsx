@@ -1,4 +1,4 @@
-import { format } from 'date-fns';
+import { formatCampus } from '@/lib/timezone';
 import { 
   Dialog,
   DialogContent,
@@ -10,27 +10,38 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ConflictEvent, TimeSlot } from '@/lib/venueConflict';
-import { AlertTriangle, Clock, MapPin, Calendar } from 'lucide-react';
+import { ConflictEvent, SuggestedSlot } from '@/lib/venueConflict';
+import { BlockedPeriod } from '@/lib/venueSchedule';
+import { ClashSuggestion, Venue } from '@/lib/types';
+import { AlertTriangle, Clock, MapPin, Calendar, Users, Ban, ListPlus } from 'lucide-react';
 
 interface VenueConflictModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   conflictingEvents: ConflictEvent[];
-  suggestedSlots: TimeSlot[];
+  blockedPeriods: BlockedPeriod[];
+  suggestions: ClashSuggestion[];
   venueName: string;
-  onSelectSlot: (slot: TimeSlot) => void;
+  // The venue is included so an alternative venue can be picked in one click
+  onSelectSlot: (venue: Venue, slot: SuggestedSlot) => void;
   onIgnoreConflict: () => void;
+  // Queue for this venue and time in case the conflicting booking is freed; omit to hide
+  onJoinWaitlist?: () => void;
+  // Only super admins may book over an existing event
+  canOverride?: boolean;
 }
 
 export function VenueConflictModal({
   open,
   onOpenChange,
   conflictingEvents,
-  suggestedSlots,
+  blockedPeriods,
+  suggestions,
   venueName,
   onSelectSlot,
-  onIgnoreConflict
+  onIgnoreConflict,
+  onJoinWaitlist,
+  canOverride = false
 }: VenueConflictModalProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -41,96 +52,152 @@ export function VenueConflictModal({
             Venue Booking Conflict
           </DialogTitle>
           <DialogDescription>
-            The selected venue and time conflicts with existing events.
+            The selected venue can't be booked for this time.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
           {/* Conflicting Events */}
-          <div>
-            <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
-              <MapPin className="h-4 w-4" />
-              Conflicts at {venueName}
-            </h3>
-            <div className="space-y-3">
-              {conflictingEvents.map((event) => (
-                <Alert key={event.id} variant="destructive">
-                  <AlertTriangle className="h-4 w-4" />
-                  <AlertDescription>
-                    <div className="space-y-1">
-                      <div className="font-semibold">{event.event_name}</div>
-                      <div className="flex items-center gap-4 text-sm">
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {format(new Date(event.start_time), 'MMM dd, yyyy')}
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          {format(new Date(event.start_time), 'h:mm a')} - 
-                          {format(new Date(event.end_time), 'h:mm a')}
-                        </span>
-                        <Badge variant="secondary">
-                          {event.clubs.club_name}
-                        </Badge>
+          {conflictingEvents.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Conflicts at {venueName}
+              </h3>
+              <div className="space-y-3">
+                {conflictingEvents.map((event) => (
+                  <Alert key={event.id} variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <div className="space-y-1">
+                        <div className="font-semibold">{event.event_name}</div>
+                        <div className="flex items-center gap-4 text-sm">
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {formatCampus(event.start_time, 'MMM dd, yyyy')}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatCampus(event.start_time, 'h:mm a')} - 
+                            {formatCampus(event.end_time, 'h:mm a')}
+                          </span>
+                          <Badge variant="secondary">
+                            {event.clubs.club_name}
+                          </Badge>
+                          {event.bufferOnly && (
+                            <Badge variant="outline">Buffer only</Badge>
+                          )}
+                        </div>
+                        {event.bufferOnly && (
+                          <p className="text-xs">
+                            The events don't overlap, but there isn't enough setup and teardown time between them.
+                          </p>
+                        )}
                       </div>
-                    </div>
-                  </AlertDescription>
-                </Alert>
-              ))}
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
-          {/* Suggested Alternative Slots */}
-          {suggestedSlots.length > 0 && (
+          {/* Blackouts and closed hours */}
+          {blockedPeriods.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <Ban className="h-4 w-4" />
+                {venueName} is unavailable
+              </h3>
+              <div className="space-y-3">
+                {blockedPeriods.map((period) => (
+                  <Alert key={`${period.start.toISOString()}-${period.reason}`} variant="destructive">
+                    <Ban className="h-4 w-4" />
+                    <AlertDescription>
+                      <div className="space-y-1">
+                        <div className="font-semibold">{period.reason}</div>
+                        <div className="flex items-center gap-4 text-sm">
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {formatCampus(period.start, 'MMM dd, yyyy')}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatCampus(period.start, 'h:mm a')} - 
+                            {formatCampus(period.end, 'MMM dd, h:mm a')}
+                          </span>
+                        </div>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Suggested Alternative Slots, grouped by venue */}
+          {suggestions.length > 0 && (
             <div>
               <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
                 <Clock className="h-4 w-4 text-success" />
-                Available Alternative Slots
+                Available Alternatives
               </h3>
-              <div className="grid gap-3">
-                {suggestedSlots.map((slot, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 transition-colors"
-                  >
-                    <div className="space-y-1">
-                      <div className="font-medium">
-                        Option {index + 1}
+              <div className="space-y-4">
+                {suggestions.map(({ venue, availableSlots }) => (
+                  <div key={venue.id} className="border rounded-lg">
+                    <div className="flex items-center justify-between gap-2 px-3 py-2 bg-muted/50 rounded-t-lg">
+                      <div className="flex items-center gap-2 font-medium">
+                        <MapPin className="h-4 w-4" />
+                        {venue.venue_name}
+                        {venue.venue_name === venueName && (
+                          <Badge variant="secondary">Requested venue</Badge>
+                        )}
                       </div>
-                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {format(new Date(slot.start_time), 'MMM dd, yyyy')}
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          {format(new Date(slot.start_time), 'h:mm a')} - 
-                          {format(new Date(slot.end_time), 'h:mm a')}
+                      {venue.capacity != null && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Users className="h-3 w-3" />
+                          {venue.capacity} seats
                         </span>
-                        <Badge variant="outline" className="text-success border-success">
-                          Available
-                        </Badge>
-                      </div>
+                      )}
+                    </div>
+                    <div className="divide-y">
+                      {availableSlots.map((slot) => (
+                        <div
+                          key={slot.start.toISOString()}
+                          className="flex items-center justify-between p-3 hover:bg-muted/50 transition-colors"
+                        >
+                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {formatCampus(slot.start, 'EEE, MMM dd, yyyy')}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {formatCampus(slot.start, 'h:mm a')} - 
+                              {formatCampus(slot.end, 'h:mm a')}
+                            </span>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onSelectSlot(venue, slot)}
+                            className="border-success text-success hover:bg-success hover:text-success-foreground"
+                          >
+                            Select
+                          </Button>
+                        </div>
+                      ))}
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => onSelectSlot(slot)}
-                      className="border-success text-success hover:bg-success hover:text-success-foreground"
-                    >
-                      Select This Slot
-                    </Button>
                   </div>
                 ))}
               </div>
             </div>
           )}
 
-          {suggestedSlots.length === 0 && (
+          {suggestions.length === 0 && (
             <Alert>
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                No alternative slots are available for this venue on the selected date. 
+                No alternative slots are available at this or comparable venues in the days around the selected date. 
                 Please choose a different venue or date.
               </AlertDescription>
             </Alert>
@@ -144,12 +211,22 @@ export function VenueConflictModal({
           >
             Cancel
           </Button>
-          {suggestedSlots.length === 0 && (
+          {/* Only bookings can be freed up; blackouts and closed hours can't */}
+          {onJoinWaitlist && conflictingEvents.length > 0 && (
+            <Button
+              variant="secondary"
+              onClick={onJoinWaitlist}
+            >
+              <ListPlus className="h-4 w-4 mr-2" />
+              Join Waitlist
+            </Button>
+          )}
+          {canOverride && (
             <Button
               variant="destructive"
               onClick={onIgnoreConflict}
             >
-              Create Anyway
+              Override Conflict
             </Button>
           )}
         </DialogFooter>
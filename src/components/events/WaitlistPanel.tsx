@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { VenueWaitlistEntry } from '@/lib/types';
+import { formatCampus, toCampusDateTimeLocal } from '@/lib/timezone';
+import { EmailService } from '@/lib/emailService';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar, Clock, ListOrdered, MapPin, X } from 'lucide-react';
+
+interface WaitlistPanelProps {
+  clubIds: string[];
+  className?: string;
+}
+
+// Link to the add form prefilled with the offered slot
+const bookingLink = (entry: VenueWaitlistEntry) =>
+  `/add-event?${new URLSearchParams({
+    venue: entry.venue_id,
+    club: entry.club_id,
+    start: toCampusDateTimeLocal(new Date(entry.starts_at)),
+    end: toCampusDateTimeLocal(new Date(entry.ends_at)),
+    name: entry.event_name,
+  })}`;
+
+// Open waitlist entries for the given clubs, with offered slots ready to book
+export function WaitlistPanel({ clubIds, className }: WaitlistPanelProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<VenueWaitlistEntry[]>([]);
+  // The ids arrive as a fresh array on every render
+  const clubKey = clubIds.join(',');
+
+  useEffect(() => {
+    fetchEntries();
+  }, [clubKey]);
+
+  const fetchEntries = async () => {
+    const { data } = await supabase
+      .from('venue_waitlist')
+      .select('*, venues(*), clubs(*)')
+      .in('club_id', clubIds)
+      .in('status', ['waiting', 'offered'])
+      .gt('starts_at', new Date().toISOString())
+      .order('starts_at');
+    setEntries((data as VenueWaitlistEntry[]) ?? []);
+  };
+
+  const leave = async (entry: VenueWaitlistEntry) => {
+    const { error } = await supabase.from('venue_waitlist').delete().eq('id', entry.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to leave the waitlist', variant: 'destructive' });
+    } else {
+      setEntries(entries.filter((e) => e.id !== entry.id));
+      // Turning down a held slot offers it to the next club
+      if (entry.status === 'offered') EmailService.sendWaitlistOffers();
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  const now = new Date();
+
+  return (
+    <Card id="waitlist" className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Waitlist
+        </CardTitle>
+        <CardDescription>
+          Slots your clubs are queued for. When one frees up it's held for you for a limited time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map((entry) => {
+          const offered = entry.status === 'offered' && !!entry.offer_expires_at && new Date(entry.offer_expires_at) > now;
+
+          return (
+            <div key={entry.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  {entry.event_name}
+                  <Badge variant={offered ? 'open' : 'secondary'}>{offered ? 'Slot available' : 'Waiting'}</Badge>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  {clubIds.length > 1 && <span>{entry.clubs?.club_name}</span>}
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {entry.venues?.venue_name}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    {formatCampus(entry.starts_at, 'EEE, MMM dd')}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatCampus(entry.starts_at, 'h:mm a')} - {formatCampus(entry.ends_at, 'h:mm a')}
+                  </span>
+                </div>
+                {offered && (
+                  <p className="text-xs text-success">
+                    Held for your club until {formatCampus(entry.offer_expires_at!, 'MMM dd, h:mm a')}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {offered && (
+                  <Link to={bookingLink(entry)}>
+                    <Button size="sm">Book Now</Button>
+                  </Link>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => leave(entry)}>
+                  <X className="h-4 w-4 mr-1" />
+                  Leave
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
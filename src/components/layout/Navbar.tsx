@@ -1,11 +1,16 @@
 import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { Club } from '@/lib/types';
+import { CLUB_ROLE_LABELS } from '@/lib/clubRoles';
 import { Button } from '@/components/ui/button';
+import { ClubMembersDialog } from '@/components/clubs/ClubMembersDialog';
+import { RedeemInvitationDialog } from './RedeemInvitationDialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
@@ -17,12 +22,18 @@ import {
   User, 
   Plus, 
   Settings,
-  Home
+  Home,
+  MapPin,
+  Ticket,
+  KeyRound,
+  Users
 } from 'lucide-react';
 
 export function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const { user, profile, signOut, isSuperAdmin, isClubPoc } = useAuth();
+  const [redeemOpen, setRedeemOpen] = useState(false);
+  const [membersClub, setMembersClub] = useState<Club | null>(null);
+  const { user, profile, signOut, isSuperAdmin, isClubPoc, isStudent, isVenueManager, clubMemberships } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -33,10 +44,12 @@ export function Navbar() {
 
   const navLinks = [
     { href: '/', label: 'Home', icon: Home },
+    { href: '/venues', label: 'Venues', icon: MapPin },
+    ...(user ? [{ href: '/my-events', label: 'My Events', icon: Ticket }] : []),
     ...(user && (isSuperAdmin || isClubPoc) 
       ? [{ href: '/add-event', label: 'Add Event', icon: Plus }] 
       : []),
-    ...(isSuperAdmin 
+    ...(isSuperAdmin || isVenueManager
       ? [{ href: '/admin', label: 'Admin', icon: Settings }] 
       : []),
   ];
@@ -95,10 +108,29 @@ export function Navbar() {
                     <p className="text-sm font-medium">{profile?.full_name || user?.user_metadata?.full_name || 'User'}</p>
                     <p className="text-xs text-muted-foreground">{profile?.email || user?.email}</p>
                     <p className="text-xs text-accent font-medium capitalize mt-1">
-                      {profile?.role?.replace('_', ' ') || user?.user_metadata?.role?.replace('_', ' ') || 'User'}
+                      {profile?.role?.replace('_', ' ') || 'User'}
                     </p>
                   </div>
                   <DropdownMenuSeparator />
+                  {clubMemberships.length > 0 && (
+                    <>
+                      <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">My Clubs</DropdownMenuLabel>
+                      {clubMemberships.map((membership) => (
+                        <DropdownMenuItem key={membership.id} onClick={() => setMembersClub(membership.clubs ?? null)}>
+                          <Users className="mr-2 h-4 w-4" />
+                          <span className="flex-1 truncate">{membership.clubs?.club_name}</span>
+                          <span className="ml-2 text-xs text-muted-foreground">{CLUB_ROLE_LABELS[membership.role]}</span>
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  {isStudent && (
+                    <DropdownMenuItem onClick={() => setRedeemOpen(true)}>
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Redeem Invitation
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
                     <LogOut className="mr-2 h-4 w-4" />
                     Sign out
@@ -148,6 +180,9 @@ export function Navbar() {
           </div>
         )}
       </div>
+
+      <RedeemInvitationDialog open={redeemOpen} onOpenChange={setRedeemOpen} />
+      <ClubMembersDialog club={membersClub} onOpenChange={(open) => !open && setMembersClub(null)} />
     </nav>
   );
 }
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface RedeemInvitationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets someone who already has an account take up a staff invitation sent to their email
+export function RedeemInvitationDialog({ open, onOpenChange }: RedeemInvitationDialogProps) {
+  const { profile, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleClose = (open: boolean) => {
+    if (!open) {
+      setCode('');
+      setError('');
+    }
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!code.trim()) {
+      setError('Enter the code from your invitation email');
+      return;
+    }
+
+    setSaving(true);
+    const { data: role, error: rpcError } = await supabase.rpc('redeem_invitation', { _code: code.trim() });
+    setSaving(false);
+
+    if (rpcError) {
+      setError(rpcError.message);
+      return;
+    }
+
+    await refreshProfile();
+    toast({
+      title: 'Invitation accepted',
+      description: `You're now a ${role === 'super_admin' ? 'super admin' : 'club POC'}.`,
+    });
+    handleClose(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Redeem Invitation</DialogTitle>
+          <DialogDescription>
+            Enter the code an OSPC admin sent to {profile?.email}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="redeem-code">Invitation Code</Label>
+            <Input
+              id="redeem-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={`font-mono uppercase ${error ? 'border-destructive' : ''}`}
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleClose(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Redeem
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
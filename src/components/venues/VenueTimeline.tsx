@@ -0,0 +1,182 @@
+import { Link } from 'react-router-dom';
+import { Event, Venue } from '@/lib/types';
+import { clubColor } from '@/lib/calendar';
+import { freeGaps } from '@/lib/venueConflict';
+import { findBlockedPeriods, VenueSchedule } from '@/lib/venueSchedule';
+import { campusDateTime, formatCampus, shiftDateKey, toCampusDateTimeLocal } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { MapPin } from 'lucide-react';
+
+const BOOKING_STEP = 30 * 60 * 1000;
+
+// Diagonal hatching for closed hours and blackouts
+const blockedStyle = {
+  backgroundImage:
+    'repeating-linear-gradient(135deg, hsl(var(--muted)) 0 6px, hsl(var(--muted-foreground) / 0.15) 6px 12px)',
+};
+
+interface VenueTimelineProps {
+  venues: Venue[];
+  events: Event[];
+  // Null when hours and blackouts couldn't be loaded
+  schedules: Record<string, VenueSchedule> | null;
+  // First campus date shown and how many days from it
+  startDate: string;
+  days: number;
+  // Called with a venue and campus datetime-local start when a free gap is clicked; omit to disable
+  onBook?: (venueId: string, start: string) => void;
+}
+
+export function VenueTimeline({ venues, events, schedules, startDate, days, onBook }: VenueTimelineProps) {
+  const rangeStart = campusDateTime(startDate);
+  const rangeEnd = campusDateTime(shiftDateKey(startDate, days));
+  const span = rangeEnd.getTime() - rangeStart.getTime();
+  const now = new Date();
+
+  const position = (start: Date, end: Date) => {
+    const from = Math.max(start.getTime(), rangeStart.getTime());
+    const to = Math.min(end.getTime(), rangeEnd.getTime());
+    return {
+      left: `${((from - rangeStart.getTime()) / span) * 100}%`,
+      width: `${((to - from) / span) * 100}%`,
+    };
+  };
+
+  // Day view ticks every 3 hours, week view once a day
+  const ticks = days === 1
+    ? Array.from({ length: 8 }, (_, i) => campusDateTime(startDate, `${String(i * 3).padStart(2, '0')}:00`))
+    : Array.from({ length: days }, (_, i) => campusDateTime(shiftDateKey(startDate, i)));
+
+  const nowInRange = now > rangeStart && now < rangeEnd;
+
+  const handleGapClick = (venueId: string, gap: { start: Date; end: Date }, e: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    const clicked = gap.start.getTime() + fraction * (gap.end.getTime() - gap.start.getTime());
+
+    // Snap to the half hour, staying inside the gap
+    const earliest = Math.ceil(gap.start.getTime() / BOOKING_STEP) * BOOKING_STEP;
+    const start = Math.max(Math.floor(clicked / BOOKING_STEP) * BOOKING_STEP, earliest);
+    if (start >= gap.end.getTime()) return;
+
+    onBook?.(venueId, toCampusDateTimeLocal(new Date(start)));
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-border/50 bg-card shadow-card">
+      <div className={days === 1 ? 'min-w-[900px]' : 'min-w-[1400px]'}>
+        {/* Time axis */}
+        <div className="flex border-b">
+          <div className="sticky left-0 z-20 w-48 shrink-0 border-r bg-card p-2 text-xs font-medium text-muted-foreground">
+            Venue
+          </div>
+          <div className="relative h-8 flex-1">
+            {ticks.map((tick) => (
+              <div
+                key={tick.toISOString()}
+                className="absolute top-0 h-full border-l pl-1 text-[10px] leading-8 text-muted-foreground"
+                style={{ left: position(tick, rangeEnd).left }}
+              >
+                {formatCampus(tick, days === 1 ? 'h a' : 'EEE, MMM dd')}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {venues.map((venue) => {
+          const unavailable = venue.available === false;
+          const venueEvents = events.filter(
+            (event) =>
+              event.venue_id === venue.id &&
+              new Date(event.start_time) < rangeEnd &&
+              new Date(event.end_time) > rangeStart
+          );
+          const blocked = schedules?.[venue.id]
+            ? findBlockedPeriods(venue.id, schedules[venue.id], rangeStart, rangeEnd)
+            : [];
+          const gaps = onBook && !unavailable
+            ? freeGaps(
+                [
+                  ...venueEvents.map((event) => ({ start: new Date(event.start_time), end: new Date(event.end_time) })),
+                  ...blocked,
+                ],
+                now > rangeStart ? now : rangeStart,
+                rangeEnd
+              )
+            : [];
+
+          return (
+            <div key={venue.id} className="flex border-b last:border-b-0">
+              <div className="sticky left-0 z-20 w-48 shrink-0 border-r bg-card p-2">
+                <div className="flex items-center gap-1 text-sm font-medium">
+                  <MapPin className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{venue.venue_name}</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {venue.capacity != null && <span>{venue.capacity} seats</span>}
+                  {unavailable && <Badge variant="closed">Unavailable</Badge>}
+                </div>
+              </div>
+
+              <div className={cn('relative h-14 flex-1', unavailable && 'opacity-60')} style={unavailable ? blockedStyle : undefined}>
+                {ticks.map((tick) => (
+                  <div
+                    key={tick.toISOString()}
+                    className="absolute top-0 h-full border-l border-border/40"
+                    style={{ left: position(tick, rangeEnd).left }}
+                  />
+                ))}
+
+                {!unavailable && blocked.map((period) => (
+                  <div
+                    key={`${period.start.toISOString()}-${period.reason}`}
+                    className="absolute top-0 h-full"
+                    style={{ ...position(period.start, period.end), ...blockedStyle }}
+                    title={`${period.reason}: ${formatCampus(period.start, 'MMM dd, h:mm a')} - ${formatCampus(period.end, 'MMM dd, h:mm a')}`}
+                  />
+                ))}
+
+                {gaps.map((gap) => (
+                  <button
+                    key={gap.start.toISOString()}
+                    type="button"
+                    className="absolute top-0 h-full hover:bg-primary/10"
+                    style={position(gap.start, gap.end)}
+                    title={`Free until ${formatCampus(gap.end, 'MMM dd, h:mm a')} - click to book`}
+                    onClick={(e) => handleGapClick(venue.id, gap, e)}
+                  />
+                ))}
+
+                {venueEvents.map((event) => (
+                  <Link
+                    key={event.id}
+                    to={`/event/${event.id}`}
+                    className={cn(
+                      'absolute top-1 bottom-1 z-10 overflow-hidden rounded border px-1 text-xs leading-tight hover:shadow-md',
+                      clubColor(event.club_id),
+                      // Requests hold the slot but aren't confirmed yet
+                      event.approval_status === 'requested' && 'border-dashed opacity-75'
+                    )}
+                    style={position(new Date(event.start_time), new Date(event.end_time))}
+                    title={`${event.event_name} (${event.clubs?.club_name ?? ''}): ${formatCampus(event.start_time, 'MMM dd, h:mm a')} - ${formatCampus(event.end_time, 'h:mm a')}${event.approval_status === 'requested' ? ' (awaiting approval)' : ''}`}
+                  >
+                    <div className="truncate font-medium">{event.event_name}</div>
+                    <div className="truncate">{formatCampus(event.start_time, 'h:mm a')}</div>
+                  </Link>
+                ))}
+
+                {nowInRange && (
+                  <div
+                    className="absolute top-0 z-10 h-full w-px bg-destructive"
+                    style={{ left: position(now, rangeEnd).left }}
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
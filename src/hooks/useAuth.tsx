@@ -1,7 +1,8 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Profile, AppRole } from '@/lib/types';
+import { ClubMembership, ClubRole, Profile } from '@/lib/types';
+import { clubRoleIn, isAtLeast } from '@/lib/clubRoles';
 
 interface AuthContextType {
   user: User | null;
@@ -9,10 +10,27 @@ interface AuthContextType {
   profile: Profile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string, role?: AppRole, clubId?: string) => Promise<{ error: Error | null; data?: any }>;
+  // Passwordless sign-in: the email carries both a magic link and a one-time code
+  sendLoginCode: (email: string, fullName?: string) => Promise<{ error: Error | null }>;
+  verifyLoginCode: (email: string, code: string) => Promise<{ error: Error | null }>;
+  // Staff sign up with an invitation code; the database assigns the invited role and club
+  signUp: (email: string, password: string, fullName: string, invitationCode: string) => Promise<{ error: Error | null; data?: any }>;
   signOut: () => Promise<void>;
+  // Reloads the profile after its role changes, e.g. when an invitation is redeemed
+  refreshProfile: () => Promise<void>;
   isSuperAdmin: boolean;
+  // Can run events for at least one club
   isClubPoc: boolean;
+  isStudent: boolean;
+  // Venues this user approves bookings for
+  managedVenueIds: string[];
+  isVenueManager: boolean;
+  // Clubs this user belongs to, with their role in each
+  clubMemberships: ClubMembership[];
+  clubRole: (clubId: string | null | undefined) => ClubRole | null;
+  // Super admins can edit every club
+  canEditClub: (clubId: string | null | undefined) => boolean;
+  editableClubIds: string[];
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,6 +39,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [managedVenueIds, setManagedVenueIds] = useState<string[]>([]);
+  const [clubMemberships, setClubMemberships] = useState<ClubMembership[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -35,6 +55,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }, 0);
         } else {
           setProfile(null);
+          setManagedVenueIds([]);
+          setClubMemberships([]);
         }
       }
     );
@@ -53,11 +75,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const fetchProfile = async (userId: string) => {
     console.log('Fetching profile for user:', userId);
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .maybeSingle();
+    // Loaded together so pages never see the profile without its club memberships
+    const [{ data, error }, { data: managed }, { data: memberships }] = await Promise.all([
+      supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+      supabase.from('venue_managers').select('venue_id').eq('user_id', userId),
+      supabase.from('club_memberships').select('*, clubs(*)').eq('user_id', userId),
+    ]);
 
     console.log('Profile fetch result:', { data, error });
     if (!error && data) {
@@ -65,6 +88,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } else if (error) {
       console.error('Profile fetch error:', error);
     }
+
+    setManagedVenueIds(managed?.map((row) => row.venue_id) ?? []);
+    setClubMemberships((memberships as ClubMembership[]) ?? []);
   };
 
   const signIn = async (email: string, password: string) => {
@@ -75,12 +101,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
+  const sendLoginCode = async (email: string, fullName?: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/my-events`,
+        // Only used when this creates the account, which makes it a student
+        data: fullName ? { full_name: fullName } : undefined,
+      },
+    });
+    return { error };
+  };
+
+  const verifyLoginCode = async (email: string, code: string) => {
+    const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+    return { error };
+  };
+
   const signUp = async (
     email: string, 
     password: string, 
     fullName: string, 
-    role: AppRole = 'club_poc',
-    clubId?: string
+    invitationCode: string
   ) => {
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -88,8 +130,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       options: {
         data: {
           full_name: fullName,
-          role: role,
-          club_id: clubId || null,
+          invitation_code: invitationCode,
         },
       },
     });
@@ -100,10 +141,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setProfile(null);
+    setManagedVenueIds([]);
+    setClubMemberships([]);
+  };
+
+  const refreshProfile = async () => {
+    if (user) {
+      await fetchProfile(user.id);
+    }
   };
 
   const isSuperAdmin = profile?.role === 'super_admin';
-  const isClubPoc = profile?.role === 'club_poc';
+  const isStudent = profile?.role === 'student';
+  const isVenueManager = managedVenueIds.length > 0;
+  const editableClubIds = clubMemberships.filter((m) => isAtLeast(m.role, 'editor')).map((m) => m.club_id);
+  const isClubPoc = editableClubIds.length > 0;
+  const clubRole = (clubId: string | null | undefined) => clubRoleIn(clubMemberships, clubId);
+  const canEditClub = (clubId: string | null | undefined) =>
+    isSuperAdmin || (!!clubId && editableClubIds.includes(clubId));
 
   return (
     <AuthContext.Provider
@@ -113,10 +168,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         profile,
         loading,
         signIn,
+        sendLoginCode,
+        verifyLoginCode,
         signUp,
         signOut,
+        refreshProfile,
         isSuperAdmin,
         isClubPoc,
+        isStudent,
+        managedVenueIds,
+        isVenueManager,
+        clubMemberships,
+        clubRole,
+        canEditClub,
+        editableClubIds,
       }}
     >
       {children}
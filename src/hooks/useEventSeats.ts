@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchEventSeats } from '@/lib/registrations';
+
+// Seats fill up while the page is open; poll so the counts stay current
+const REFRESH_MS = 30 * 1000;
+
+/**
+ * Live seat counts for the given events, keyed by event id. Registering or
+ * cancelling invalidates 'event-seats' so the change shows straight away.
+ */
+export function useEventSeats(eventIds: string[]) {
+  const { data } = useQuery({
+    queryKey: ['event-seats', eventIds],
+    queryFn: () => fetchEventSeats(eventIds),
+    enabled: eventIds.length > 0,
+    refetchInterval: REFRESH_MS,
+  });
+
+  return data ?? {};
+}
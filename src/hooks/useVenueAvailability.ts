@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useDebounce } from '@/hooks/use-debounce';
+import { BufferOverrides, checkVenueConflict, getVenueAvailability } from '@/lib/venueConflict';
+import { parseCampusDateTime } from '@/lib/timezone';
+
+const DEBOUNCE_MS = 500;
+// Bookings change rarely while a form is open; refetch on focus still catches new ones
+const STALE_MS = 30 * 1000;
+
+interface VenueAvailabilityInput {
+  venueId: string;
+  venueIds: string[];
+  // Campus datetime-local values straight from the form
+  startTime: string;
+  endTime: string;
+  excludeEventId?: string;
+  buffers: BufferOverrides;
+}
+
+// ISO window for a start/end pair, or null while either is missing or out of order
+function toWindow(startTime: string, endTime: string) {
+  if (!startTime || !endTime) return null;
+  const start = parseCampusDateTime(startTime);
+  const end = parseCampusDateTime(endTime);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return null;
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/**
+ * Checks the chosen venue and time as the form is filled in, and which other
+ * venues are free for the same window. Inputs are debounced and results
+ * cached per venue/window, so flipping back to an earlier choice is instant.
+ */
+export function useVenueAvailability(input: VenueAvailabilityInput) {
+  // Debounce a serialised copy; the input object itself is new on every render
+  const inputKey = JSON.stringify(input);
+  const debouncedKey = useDebounce(inputKey, DEBOUNCE_MS);
+  const debounced = useMemo(() => JSON.parse(debouncedKey) as VenueAvailabilityInput, [debouncedKey]);
+  const range = toWindow(debounced.startTime, debounced.endTime);
+  const setup = debounced.buffers.setup_minutes ?? null;
+  const teardown = debounced.buffers.teardown_minutes ?? null;
+
+  const conflict = useQuery({
+    queryKey: ['venue-conflict', debounced.venueId, range?.start, range?.end, debounced.excludeEventId, setup, teardown],
+    queryFn: () =>
+      checkVenueConflict(debounced.venueId, range!.start, range!.end, debounced.excludeEventId, debounced.buffers),
+    enabled: !!debounced.venueId && !!range,
+    staleTime: STALE_MS,
+  });
+
+  const availability = useQuery({
+    queryKey: ['venue-availability', debounced.venueIds, range?.start, range?.end, debounced.excludeEventId, setup, teardown],
+    queryFn: () =>
+      getVenueAvailability(debounced.venueIds, range!.start, range!.end, debounced.excludeEventId, debounced.buffers),
+    enabled: debounced.venueIds.length > 0 && !!range,
+    staleTime: STALE_MS,
+  });
+
+  // Still typing: the debounced values haven't caught up with the form yet
+  const pending = inputKey !== debouncedKey;
+
+  return { conflict, availability, pending, ready: !!toWindow(input.startTime, input.endTime) };
+}
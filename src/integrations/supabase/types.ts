@@ -14,6 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          email: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      club_memberships: {
+        Row: {
+          club_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["club_role"]
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["club_role"]
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["club_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "club_memberships_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "club_memberships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clubs: {
         Row: {
           club_name: string
@@ -35,49 +92,184 @@ export type Database = {
         }
         Relationships: []
       }
+      event_series: {
+        Row: {
+          by_weekday: number[]
+          club_id: string
+          created_at: string
+          created_by: string | null
+          exception_dates: string[]
+          frequency: string
+          id: string
+          interval_count: number
+          occurrence_count: number | null
+          rrule: string
+          until_date: string | null
+        }
+        Insert: {
+          by_weekday?: number[]
+          club_id: string
+          created_at?: string
+          created_by?: string | null
+          exception_dates?: string[]
+          frequency: string
+          id?: string
+          interval_count?: number
+          occurrence_count?: number | null
+          rrule: string
+          until_date?: string | null
+        }
+        Update: {
+          by_weekday?: number[]
+          club_id?: string
+          created_at?: string
+          created_by?: string | null
+          exception_dates?: string[]
+          frequency?: string
+          id?: string
+          interval_count?: number
+          occurrence_count?: number | null
+          rrule?: string
+          until_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_series_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_tombstones: {
+        Row: {
+          club_id: string | null
+          deleted_at: string
+          end_time: string
+          event_id: string
+          event_name: string
+          sequence: number
+          start_time: string
+          venue_id: string | null
+        }
+        Insert: {
+          club_id?: string | null
+          deleted_at?: string
+          end_time: string
+          event_id: string
+          event_name: string
+          sequence: number
+          start_time: string
+          venue_id?: string | null
+        }
+        Update: {
+          club_id?: string | null
+          deleted_at?: string
+          end_time?: string
+          event_id?: string
+          event_name?: string
+          sequence?: number
+          start_time?: string
+          venue_id?: string | null
+        }
+        Relationships: []
+      }
       events: {
         Row: {
+          approval_reason: string | null
+          approval_status: string
+          booked_range: unknown
+          capacity: number | null
           club_id: string
+          conflict_override: boolean
           created_at: string
           created_by: string | null
+          decided_at: string | null
+          decided_by: string | null
           description: string | null
           end_time: string
           event_name: string
           id: string
           is_open: boolean | null
+          published_at: string | null
           registration_end: string
+          registration_form: Json
           registration_start: string
+          sequence: number
+          series_id: string | null
+          setup_minutes: number | null
           start_time: string
+          team_max_size: number | null
+          team_min_size: number | null
+          teardown_minutes: number | null
           updated_at: string
           venue_id: string
         }
         Insert: {
+          approval_reason?: string | null
+          approval_status?: string
+          booked_range?: unknown
+          capacity?: number | null
           club_id: string
+          conflict_override?: boolean
           created_at?: string
           created_by?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
           description?: string | null
           end_time: string
           event_name: string
           id?: string
           is_open?: boolean | null
+          published_at?: string | null
           registration_end: string
+          registration_form?: Json
           registration_start: string
+          sequence?: number
+          series_id?: string | null
+          setup_minutes?: number | null
           start_time: string
+          team_max_size?: number | null
+          team_min_size?: number | null
+          teardown_minutes?: number | null
           updated_at?: string
           venue_id: string
         }
         Update: {
+          approval_reason?: string | null
+          approval_status?: string
+          booked_range?: unknown
+          capacity?: number | null
           club_id?: string
+          conflict_override?: boolean
           created_at?: string
           created_by?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
           description?: string | null
           end_time?: string
           event_name?: string
           id?: string
           is_open?: boolean | null
+          published_at?: string | null
           registration_end?: string
+          registration_form?: Json
           registration_start?: string
+          sequence?: number
+          series_id?: string | null
+          setup_minutes?: number | null
           start_time?: string
+          team_max_size?: number | null
+          team_min_size?: number | null
+          teardown_minutes?: number | null
           updated_at?: string
           venue_id?: string
         }
@@ -96,6 +288,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "events_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "events_venue_id_fkey"
             columns: ["venue_id"]
@@ -105,6 +311,70 @@ export type Database = {
           },
         ]
       }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          club_id: string | null
+          club_role: Database["public"]["Enums"]["club_role"]
+          code: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          club_id?: string | null
+          club_role?: Database["public"]["Enums"]["club_role"]
+          code?: string
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          club_id?: string | null
+          club_role?: Database["public"]["Enums"]["club_role"]
+          code?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -113,6 +383,7 @@ export type Database = {
           id: string
           notified_at: string | null
           status: string | null
+          user_id: string | null
         }
         Insert: {
           created_at?: string
@@ -121,6 +392,7 @@ export type Database = {
           id?: string
           notified_at?: string | null
           status?: string | null
+          user_id?: string | null
         }
         Update: {
           created_at?: string
@@ -129,6 +401,7 @@ export type Database = {
           id?: string
           notified_at?: string | null
           status?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -138,6 +411,13 @@ export type Database = {
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -175,66 +455,815 @@ export type Database = {
           },
         ]
       }
-      user_roles: {
+      registrations: {
+        Row: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          cancel_token?: string
+          cancelled_at?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          email: string
+          event_id: string
+          full_name: string
+          id?: string
+          notified_status?: string | null
+          promoted_at?: string | null
+          responses?: Json
+          status?: string
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          cancel_token?: string
+          cancelled_at?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          email?: string
+          event_id?: string
+          full_name?: string
+          id?: string
+          notified_status?: string | null
+          promoted_at?: string | null
+          responses?: Json
+          status?: string
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registrations_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_audit_findings: {
         Row: {
+          details: string | null
+          finding: string
+          found_at: string
           id: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Insert: {
+          details?: string | null
+          finding: string
+          found_at?: string
           id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Update: {
+          details?: string | null
+          finding?: string
+          found_at?: string
           id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
           role?: Database["public"]["Enums"]["app_role"]
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "role_audit_findings_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      venues: {
+      team_invites: {
         Row: {
-          available: boolean | null
-          capacity: number | null
+          email: string
+          sent_at: string
+          team_id: string
+        }
+        Insert: {
+          email: string
+          sent_at?: string
+          team_id: string
+        }
+        Update: {
+          email?: string
+          sent_at?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          cancelled_at: string | null
+          captain_registration_id: string | null
           created_at: string
+          event_id: string
           id: string
-          location: string | null
-          venue_name: string
+          join_code: string
+          locked_at: string | null
+          name: string
+          promoted_at: string | null
+          status: string
         }
         Insert: {
-          available?: boolean | null
-          capacity?: number | null
+          cancelled_at?: string | null
+          captain_registration_id?: string | null
           created_at?: string
+          event_id: string
           id?: string
-          location?: string | null
-          venue_name: string
+          join_code: string
+          locked_at?: string | null
+          name: string
+          promoted_at?: string | null
+          status?: string
         }
         Update: {
-          available?: boolean | null
-          capacity?: number | null
+          cancelled_at?: string | null
+          captain_registration_id?: string | null
           created_at?: string
+          event_id?: string
           id?: string
-          location?: string | null
-          venue_name?: string
-        }
-        Relationships: []
-      }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+          join_code?: string
+          locked_at?: string | null
+          name?: string
+          promoted_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_captain_registration_id_fkey"
+            columns: ["captain_registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "teams_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_signing_keys: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      venue_blackouts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          reason: string
+          starts_at: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          reason: string
+          starts_at: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          reason?: string
+          starts_at?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_blackouts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_blackouts_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_hours: {
+        Row: {
+          close_time: string
+          created_at: string
+          id: string
+          open_time: string
+          venue_id: string
+          weekday: number
+        }
+        Insert: {
+          close_time: string
+          created_at?: string
+          id?: string
+          open_time: string
+          venue_id: string
+          weekday: number
+        }
+        Update: {
+          close_time?: string
+          created_at?: string
+          id?: string
+          open_time?: string
+          venue_id?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_hours_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_managers: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_managers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_managers_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_waitlist: {
+        Row: {
+          claimed_event_id: string | null
+          club_id: string
+          created_at: string
+          ends_at: string
+          event_name: string
+          id: string
+          notified_status: string | null
+          offer_expires_at: string | null
+          offered_at: string | null
+          requested_by: string | null
+          starts_at: string
+          status: string
+          venue_id: string
+        }
+        Insert: {
+          claimed_event_id?: string | null
+          club_id: string
+          created_at?: string
+          ends_at: string
+          event_name: string
+          id?: string
+          notified_status?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          requested_by?: string | null
+          starts_at: string
+          status?: string
+          venue_id: string
+        }
+        Update: {
+          claimed_event_id?: string | null
+          club_id?: string
+          created_at?: string
+          ends_at?: string
+          event_name?: string
+          id?: string
+          notified_status?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          requested_by?: string | null
+          starts_at?: string
+          status?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_waitlist_claimed_event_id_fkey"
+            columns: ["claimed_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_waitlist_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_waitlist_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_waitlist_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venues: {
+        Row: {
+          available: boolean | null
+          capacity: number | null
+          created_at: string
+          id: string
+          location: string | null
+          setup_minutes: number
+          teardown_minutes: number
+          venue_name: string
+        }
+        Insert: {
+          available?: boolean | null
+          capacity?: number | null
+          created_at?: string
+          id?: string
+          location?: string | null
+          setup_minutes?: number
+          teardown_minutes?: number
+          venue_name: string
+        }
+        Update: {
+          available?: boolean | null
+          capacity?: number | null
+          created_at?: string
+          id?: string
+          location?: string | null
+          setup_minutes?: number
+          teardown_minutes?: number
+          venue_name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      public_profiles: {
+        Row: {
+          full_name: string | null
+          id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      apply_invitation: {
+        Args: {
+          _code: string
+          _email: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      audit_user_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      calendar_feed_token: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
+      can_decide_booking: {
+        Args: {
+          _user_id: string
+          _venue_id: string
+        }
+        Returns: boolean
+      }
+      cancel_registration: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }
+      }
+      check_in_ticket: {
+        Args: {
+          _event_id: string
+          _scanned_at?: string
+          _ticket: string
+        }
+        Returns: Json
+      }
+      check_invitation: {
+        Args: {
+          _code: string
+          _email: string
         }
         Returns: boolean
       }
+      claim_my_events: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      claim_user_events: {
+        Args: {
+          _email: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      create_team: {
+        Args: {
+          _email: string
+          _event_id: string
+          _full_name: string
+          _responses?: Json
+          _team_name: string
+        }
+        Returns: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }
+      }
+      decide_booking: {
+        Args: {
+          _event_id: string
+          _reason?: string
+          _status: string
+        }
+        Returns: {
+          approval_reason: string | null
+          approval_status: string
+          booked_range: unknown
+          capacity: number | null
+          club_id: string
+          conflict_override: boolean
+          created_at: string
+          created_by: string | null
+          decided_at: string | null
+          decided_by: string | null
+          description: string | null
+          end_time: string
+          event_name: string
+          id: string
+          is_open: boolean | null
+          published_at: string | null
+          registration_end: string
+          registration_form: Json
+          registration_start: string
+          sequence: number
+          series_id: string | null
+          setup_minutes: number | null
+          start_time: string
+          team_max_size: number | null
+          team_min_size: number | null
+          teardown_minutes: number | null
+          updated_at: string
+          venue_id: string
+        }
+      }
+      event_capacity: {
+        Args: {
+          _event_id: string
+        }
+        Returns: number
+      }
+      get_event_seats: {
+        Args: {
+          _event_ids: string[]
+        }
+        Returns: {
+          capacity: number
+          confirmed: number
+          event_id: string
+          waitlisted: number
+        }[]
+      }
+      get_registration: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }[]
+      }
+      get_team: {
+        Args: {
+          _token: string
+        }
+        Returns: Json
+      }
+      get_ticket: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      has_club_role: {
+        Args: {
+          _club_id: string
+          _role: Database["public"]["Enums"]["club_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      join_team: {
+        Args: {
+          _email: string
+          _event_id: string
+          _full_name: string
+          _join_code: string
+          _responses?: Json
+        }
+        Returns: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }
+      }
+      lock_team: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          cancelled_at: string | null
+          captain_registration_id: string | null
+          created_at: string
+          event_id: string
+          id: string
+          join_code: string
+          locked_at: string | null
+          name: string
+          promoted_at: string | null
+          status: string
+        }
+      }
+      my_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      offer_waitlisted_slots: {
+        Args: {
+          _venue_id?: string
+        }
+        Returns: number
+      }
+      promote_waitlisted_registrations: {
+        Args: {
+          _event_id: string
+        }
+        Returns: number
+      }
+      redeem_invitation: {
+        Args: {
+          _code: string
+        }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      register_for_event: {
+        Args: {
+          _email: string
+          _event_id: string
+          _full_name: string
+          _responses?: Json
+        }
+        Returns: {
+          cancel_token: string
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          full_name: string
+          id: string
+          notified_status: string | null
+          promoted_at: string | null
+          responses: Json
+          status: string
+          team_id: string | null
+          user_id: string | null
+        }
+      }
+      registration_form_error: {
+        Args: {
+          _event_id: string
+          _form: Json
+          _responses: Json
+        }
+        Returns: string
+      }
+      resolve_role_finding: {
+        Args: {
+          _finding_id: string
+          _revoke: boolean
+        }
+        Returns: undefined
+      }
+      sign_ticket: {
+        Args: {
+          _event_id: string
+          _registration_id: string
+        }
+        Returns: string
+      }
+      update_series_occurrences: {
+        Args: {
+          _changes: Json
+          _earlier_rule: Json
+          _occurrences: Json
+          _override?: boolean
+          _rule: Json
+          _series_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "super_admin" | "club_poc"
+      app_role: "super_admin" | "club_poc" | "student"
+      club_role: "viewer" | "editor" | "owner"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -362,7 +1391,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["super_admin", "club_poc"],
+      app_role: ["super_admin", "club_poc", "student"],
+      club_role: ["viewer", "editor", "owner"],
     },
   },
 } as const
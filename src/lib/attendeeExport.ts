@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Event, Notification, Registration } from '@/lib/types';
+import { formFields } from '@/lib/registrationForm';
+import { formatCampus } from '@/lib/timezone';
+
+export type ExportDataset = 'registrants' | 'subscribers';
+export type ExportFormat = 'csv' | 'xlsx';
+
+type Cell = string | number | null;
+
+export interface ExportColumn<Row> {
+  key: string;
+  label: string;
+  value: (row: Row) => Cell;
+}
+
+export type Registrant = Registration & { teams: { name: string } | null };
+
+const formatTimestamp = (value: string | null) => (value ? formatCampus(value, 'yyyy-MM-dd HH:mm') : null);
+
+// Fixed columns first, then one per question on the event's registration form
+export function registrantColumns(event: Event): ExportColumn<Registrant>[] {
+  const columns: ExportColumn<Registrant>[] = [
+    { key: 'full_name', label: 'Name', value: (r) => r.full_name },
+    { key: 'email', label: 'Email', value: (r) => r.email },
+    { key: 'status', label: 'Status', value: (r) => r.status },
+    { key: 'registered_at', label: 'Registered At', value: (r) => formatTimestamp(r.created_at) },
+    { key: 'checked_in', label: 'Checked In', value: (r) => (r.checked_in_at ? 'Yes' : 'No') },
+    { key: 'checked_in_at', label: 'Checked In At', value: (r) => formatTimestamp(r.checked_in_at) },
+  ];
+
+  if (event.team_max_size != null) {
+    columns.push({ key: 'team', label: 'Team', value: (r) => r.teams?.name ?? null });
+  }
+
+  for (const field of formFields(event.registration_form)) {
+    columns.push({
+      key: `responses.${field.id}`,
+      label: field.label,
+      value: (r) => {
+        const answer = r.responses?.[field.id];
+        if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+        return answer ?? null;
+      },
+    });
+  }
+
+  return columns;
+}
+
+export const SUBSCRIBER_COLUMNS: ExportColumn<Notification>[] = [
+  { key: 'email', label: 'Email', value: (n) => n.email },
+  { key: 'subscribed_at', label: 'Subscribed At', value: (n) => formatTimestamp(n.created_at) },
+  { key: 'status', label: 'Reminder', value: (n) => n.status },
+  { key: 'notified_at', label: 'Reminded At', value: (n) => formatTimestamp(n.notified_at) },
+];
+
+export async function fetchRegistrants(eventId: string): Promise<Registrant[]> {
+  const { data, error } = await supabase
+    .from('registrations')
+    .select('*, teams(name)')
+    .eq('event_id', eventId)
+    .order('created_at');
+  if (error) throw error;
+  return data as Registrant[];
+}
+
+export async function fetchSubscribers(eventId: string): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at');
+  if (error) throw error;
+  return data as Notification[];
+}
+
+// Quotes where needed, and defuses values a spreadsheet would run as a formula
+function csvCell(value: Cell) {
+  if (value == null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<Row>(columns: ExportColumn<Row>[], rows: Row[]) {
+  const lines = [
+    columns.map((column) => csvCell(column.label)),
+    ...rows.map((row) => columns.map((column) => csvCell(column.value(row)))),
+  ];
+  return lines.map((line) => line.join(',')).join('\r\n');
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadExport<Row>(
+  columns: ExportColumn<Row>[],
+  rows: Row[],
+  format: ExportFormat,
+  baseName: string
+) {
+  if (format === 'csv') {
+    // The BOM lets Excel pick up UTF-8 names
+    saveBlob(new Blob(['\uFEFF', toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet writer stays out of the main bundle
+  const { default: writeExcelFile } = await import('write-excel-file/browser');
+  const sheetData = [
+    columns.map((column) => ({ value: column.label, fontWeight: 'bold' as const })),
+    ...rows.map((row) => columns.map((column) => ({ value: column.value(row) }))),
+  ];
+  await writeExcelFile(sheetData, {
+    columns: columns.map(() => ({ width: 24 })),
+    stickyRowsCount: 1,
+  }).toFile(`${baseName}.xlsx`);
+}
+
+// e.g. "hackathon-2026-registrants-2026-03-14"
+export function exportFileName(event: Event, dataset: ExportDataset) {
+  const slug = event.event_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'event'}-${dataset}-${formatCampus(new Date(), 'yyyy-MM-dd')}`;
+}
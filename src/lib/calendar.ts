@@ -0,0 +1,116 @@
+import { Event } from '@/lib/types';
+import { campusDateTime, shiftDateKey } from '@/lib/timezone';
+import { weekdayOf } from '@/lib/venueSchedule';
+
+export type EventsView = 'grid' | 'month' | 'week' | 'day';
+export type CalendarView = Exclude<EventsView, 'grid'>;
+
+// Full class names so Tailwind keeps them; picked per club by a stable hash
+const CLUB_COLORS = [
+  'bg-blue-100 text-blue-900 border-blue-300 dark:bg-blue-950 dark:text-blue-100 dark:border-blue-800',
+  'bg-emerald-100 text-emerald-900 border-emerald-300 dark:bg-emerald-950 dark:text-emerald-100 dark:border-emerald-800',
+  'bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-950 dark:text-amber-100 dark:border-amber-800',
+  'bg-rose-100 text-rose-900 border-rose-300 dark:bg-rose-950 dark:text-rose-100 dark:border-rose-800',
+  'bg-violet-100 text-violet-900 border-violet-300 dark:bg-violet-950 dark:text-violet-100 dark:border-violet-800',
+  'bg-cyan-100 text-cyan-900 border-cyan-300 dark:bg-cyan-950 dark:text-cyan-100 dark:border-cyan-800',
+  'bg-orange-100 text-orange-900 border-orange-300 dark:bg-orange-950 dark:text-orange-100 dark:border-orange-800',
+  'bg-lime-100 text-lime-900 border-lime-300 dark:bg-lime-950 dark:text-lime-100 dark:border-lime-800',
+  'bg-fuchsia-100 text-fuchsia-900 border-fuchsia-300 dark:bg-fuchsia-950 dark:text-fuchsia-100 dark:border-fuchsia-800',
+  'bg-teal-100 text-teal-900 border-teal-300 dark:bg-teal-950 dark:text-teal-100 dark:border-teal-800',
+];
+
+export function clubColor(clubId: string) {
+  let hash = 0;
+  for (const char of clubId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return CLUB_COLORS[Math.abs(hash) % CLUB_COLORS.length];
+}
+
+// First day (YYYY-MM-DD) of the month a campus date falls in
+export function startOfMonthKey(dateKey: string) {
+  return `${dateKey.slice(0, 8)}01`;
+}
+
+export function shiftMonthKey(dateKey: string, months: number) {
+  const [year, month] = dateKey.split('-').map(Number);
+  const monthIndex = year * 12 + (month - 1) + months;
+  const y = Math.floor(monthIndex / 12);
+  return `${y}-${String((monthIndex % 12) + 1).padStart(2, '0')}-01`;
+}
+
+// Sunday-first week containing the date
+export function weekDays(dateKey: string) {
+  const sunday = shiftDateKey(dateKey, -weekdayOf(dateKey));
+  return Array.from({ length: 7 }, (_, i) => shiftDateKey(sunday, i));
+}
+
+// Whole weeks (Sunday-first) covering the month the date falls in
+export function monthWeeks(dateKey: string) {
+  const first = startOfMonthKey(dateKey);
+  const nextMonth = shiftMonthKey(first, 1);
+  const weeks: string[][] = [];
+
+  for (let sunday = weekDays(first)[0]; sunday < nextMonth; sunday = shiftDateKey(sunday, 7)) {
+    weeks.push(weekDays(sunday));
+  }
+
+  return weeks;
+}
+
+// Events running at any point during a campus day, including multi-day ones
+export function eventsOnDay(events: Event[], dateKey: string) {
+  const dayStart = campusDateTime(dateKey);
+  const dayEnd = campusDateTime(shiftDateKey(dateKey, 1));
+
+  return events
+    .filter(event => new Date(event.start_time) < dayEnd && new Date(event.end_time) > dayStart)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+export interface PositionedEvent {
+  event: Event;
+  // Minutes from campus midnight, clipped to the day
+  startMinute: number;
+  endMinute: number;
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * Places a day's events on a time grid. Overlapping events share the width
+ * side by side; each group of overlaps gets as many lanes as it needs.
+ */
+export function layoutDay(events: Event[], dateKey: string): PositionedEvent[] {
+  const dayStart = campusDateTime(dateKey).getTime();
+  const minutes = (iso: string) => (new Date(iso).getTime() - dayStart) / 60000;
+
+  const positioned: PositionedEvent[] = [];
+  let group: PositionedEvent[] = [];
+  let groupEnd = -Infinity;
+
+  const closeGroup = () => {
+    const lanes = Math.max(1, ...group.map(p => p.lane + 1));
+    group.forEach(p => (p.lanes = lanes));
+    group = [];
+  };
+
+  for (const event of eventsOnDay(events, dateKey)) {
+    const startMinute = Math.max(0, minutes(event.start_time));
+    const endMinute = Math.min(24 * 60, minutes(event.end_time));
+
+    if (startMinute >= groupEnd) closeGroup();
+
+    // Lowest lane whose last event has finished
+    let lane = 0;
+    while (group.some(p => p.lane === lane && p.endMinute > startMinute)) lane++;
+
+    const item = { event, startMinute, endMinute, lane, lanes: 1 };
+    group.push(item);
+    positioned.push(item);
+    groupEnd = Math.max(groupEnd, endMinute);
+  }
+  closeGroup();
+
+  return positioned;
+}
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CheckInResult, Registration } from '@/lib/types';
+
+// Attendees who can be checked in. Names come from the server; offline the scanner only has ids and state.
+export type RosterEntry = Pick<Registration, 'id' | 'checked_in_at'> & Partial<Pick<Registration, 'full_name' | 'email'>>;
+
+// A scan made while offline, waiting to be sent
+export interface QueuedScan {
+  ticket: string;
+  scannedAt: string;
+}
+
+const TICKET_PATTERN = /^([0-9a-f-]{36})\.([0-9a-f-]{36})\.[0-9a-f]{32}$/;
+
+const queueKey = (eventId: string) => `check-in-queue:${eventId}`;
+const rosterKey = (eventId: string) => `check-in-roster:${eventId}`;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The event and registration a ticket claims to be for. Only the server can
+ * check the signature; this just lets the scanner reject obvious mismatches offline.
+ */
+export function parseTicket(text: string): { ticket: string; eventId: string; registrationId: string } | null {
+  const ticket = text.trim().toLowerCase();
+  const match = ticket.match(TICKET_PATTERN);
+  return match ? { ticket, eventId: match[1], registrationId: match[2] } : null;
+}
+
+export function readQueue(eventId: string): QueuedScan[] {
+  return readJson(queueKey(eventId), []);
+}
+
+function writeQueue(eventId: string, queue: QueuedScan[]) {
+  localStorage.setItem(queueKey(eventId), JSON.stringify(queue));
+}
+
+export function enqueueScan(eventId: string, ticket: string) {
+  writeQueue(eventId, [...readQueue(eventId), { ticket, scannedAt: new Date().toISOString() }]);
+}
+
+export function cachedRoster(eventId: string): RosterEntry[] {
+  return readJson(rosterKey(eventId), []);
+}
+
+// Confirmed attendees. The device keeps only ids and check-in state, enough to catch duplicates offline.
+export async function fetchRoster(eventId: string): Promise<RosterEntry[]> {
+  const { data, error } = await supabase
+    .from('registrations')
+    .select('id, full_name, email, checked_in_at')
+    .eq('event_id', eventId)
+    .eq('status', 'confirmed')
+    .order('full_name');
+  if (error) throw error;
+
+  const cached: RosterEntry[] = data.map(({ id, checked_in_at }) => ({ id, checked_in_at }));
+  localStorage.setItem(rosterKey(eventId), JSON.stringify(cached));
+  return data;
+}
+
+// Network failures carry no Postgres error code
+export function isOfflineError(error: unknown) {
+  return !navigator.onLine || !(error as { code?: string })?.code;
+}
+
+export async function checkInTicket(eventId: string, ticket: string, scannedAt?: string): Promise<CheckInResult> {
+  const { data, error } = await supabase.rpc('check_in_ticket', {
+    _event_id: eventId,
+    _ticket: ticket,
+    ...(scannedAt ? { _scanned_at: scannedAt } : {}),
+  });
+  if (error) throw error;
+  return data as CheckInResult;
+}
+
+/**
+ * Sends queued scans in the order they were made. Stops at the first network
+ * failure and leaves the rest queued for the next attempt.
+ */
+export async function syncQueue(eventId: string): Promise<CheckInResult[]> {
+  const queue = readQueue(eventId);
+  const results: CheckInResult[] = [];
+
+  while (queue.length > 0) {
+    const [scan] = queue;
+    try {
+      results.push(await checkInTicket(eventId, scan.ticket, scan.scannedAt));
+    } catch (error) {
+      if (isOfflineError(error)) break;
+      results.push({ result: 'invalid' });
+    }
+    queue.shift();
+    writeQueue(eventId, queue);
+  }
+
+  return results;
+}
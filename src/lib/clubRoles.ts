@@ -0,0 +1,24 @@
+import { ClubMembership, ClubRole } from '@/lib/types';
+
+// Same order as the club_role enum, which the database compares against
+export const CLUB_ROLES: ClubRole[] = ['viewer', 'editor', 'owner'];
+
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+export const CLUB_ROLE_DESCRIPTIONS: Record<ClubRole, string> = {
+  viewer: 'Sees registrations, teams and subscribers',
+  editor: 'Also creates and edits events and checks attendees in',
+  owner: 'Also adds, removes and changes the roles of members',
+};
+
+export function isAtLeast(role: ClubRole | null | undefined, minimum: ClubRole) {
+  return !!role && CLUB_ROLES.indexOf(role) >= CLUB_ROLES.indexOf(minimum);
+}
+
+export function clubRoleIn(memberships: ClubMembership[], clubId: string | null | undefined): ClubRole | null {
+  return memberships.find((m) => m.club_id === clubId)?.role ?? null;
+}
@@ -1,5 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
-import { format } from 'date-fns';
+import { formatCampus } from '@/lib/timezone';
 
 interface EmailNotification {
   email: string;
@@ -16,9 +16,9 @@ interface EmailNotification {
 export class EmailService {
   static async sendWelcomeEmail(notification: EmailNotification): Promise<void> {
     try {
-      const eventDate = format(new Date(notification.eventDetails.start_time), 'EEEE, MMMM dd, yyyy');
-      const eventTime = `${format(new Date(notification.eventDetails.start_time), 'h:mm a')} - ${format(new Date(notification.eventDetails.end_time), 'h:mm a')}`;
-      const registrationEnd = format(new Date(notification.eventDetails.registration_end), 'MMM dd, yyyy h:mm a');
+      const eventDate = formatCampus(notification.eventDetails.start_time, 'EEEE, MMMM dd, yyyy');
+      const eventTime = `${formatCampus(notification.eventDetails.start_time, 'h:mm a')} - ${formatCampus(notification.eventDetails.end_time, 'h:mm a')}`;
+      const registrationEnd = formatCampus(notification.eventDetails.registration_end, 'MMM dd, yyyy h:mm a');
       const venueName = notification.eventDetails.venues?.venue_name || 'TBA';
 
       console.log('🔄 Attempting to send welcome email...');
@@ -28,11 +28,16 @@ export class EmailService {
         const { data, error } = await supabase.functions.invoke('send-welcome-email', {
           body: {
             email: notification.email,
+            eventId: notification.eventId,
             eventName: notification.eventName,
             eventDate,
             eventTime,
             venueName,
             registrationEnd,
+            // Lets the function format times in the campus timezone itself
+            startTime: notification.eventDetails.start_time,
+            endTime: notification.eventDetails.end_time,
+            registrationEndTime: notification.eventDetails.registration_end,
           }
         });
 
@@ -72,6 +77,70 @@ export class EmailService {
     }
   }
 
+  // Tells the requesting POC a booking was approved or rejected; the function loads the details itself
+  static async sendBookingDecision(eventId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke('send-booking-decision', {
+        body: { eventId },
+      });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Booking decision email not sent:', error);
+      return false;
+    }
+  }
+
+  // Emails clubs offered a freed slot from the waitlist, or whose hold lapsed; safe to call repeatedly
+  static async sendWaitlistOffers(): Promise<void> {
+    try {
+      const { error } = await supabase.functions.invoke('send-waitlist-offers');
+      if (error) throw error;
+    } catch (error) {
+      console.warn('⚠️ Waitlist offer emails not sent:', error);
+    }
+  }
+
+  // Confirms registrations, waitlist places, promotions and cancellations for an event; safe to call repeatedly
+  static async sendRegistrationUpdates(eventId: string): Promise<void> {
+    try {
+      const { error } = await supabase.functions.invoke('send-registration-updates', {
+        body: { eventId },
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.warn('⚠️ Registration emails not sent:', error);
+    }
+  }
+
+  // Emails teammates the captain's join code; the function checks the team still has room
+  static async sendTeamInvites(token: string, emails: string[]): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke('send-team-invites', {
+        body: { token, emails },
+      });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Team invites not sent:', error);
+      return false;
+    }
+  }
+
+  // Emails an invitation's code to the invited address; the function checks the caller is a super admin
+  static async sendInvitation(invitationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke('send-invitation', {
+        body: { invitationId },
+      });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Invitation email not sent:', error);
+      return false;
+    }
+  }
+
   static async checkAndSendReminders(): Promise<{ sent: number; errors: number }> {
     try {
       // Get notifications that need reminders (2 hours before registration ends)
@@ -125,9 +194,9 @@ export class EmailService {
           sent++;
           
           // Log the reminder details
-          const eventDate = format(new Date(event.start_time), 'EEEE, MMMM dd, yyyy');
-          const eventTime = `${format(new Date(event.start_time), 'h:mm a')} - ${format(new Date(event.end_time), 'h:mm a')}`;
-          const registrationEnd = format(new Date(event.registration_end), 'MMM dd, yyyy h:mm a');
+          const eventDate = formatCampus(event.start_time, 'EEEE, MMMM dd, yyyy');
+          const eventTime = `${formatCampus(event.start_time, 'h:mm a')} - ${formatCampus(event.end_time, 'h:mm a')}`;
+          const registrationEnd = formatCampus(event.registration_end, 'MMM dd, yyyy h:mm a');
           
           console.log('⏰ DEMO - Reminder Email Details:', {
             to: notification.email,
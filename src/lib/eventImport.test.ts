@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toCampusDateTimeLocal } from '@/lib/timezone';
+import { parseIcs } from '@/lib/eventImport';
+
+// The parser is pure; the client just can't be built without env vars
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseIcs', () => {
+  it('ignores the properties of a reminder inside the event', () => {
+    const { rows } = parseIcs(
+      ics(
+        'BEGIN:VEVENT',
+        'SUMMARY:Robotics workshop',
+        'DESCRIPTION:Bring a laptop\\, and a charger',
+        'LOCATION:Main Hall',
+        'DTSTART:20260314T043000Z',
+        'DTEND:20260314T063000Z',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'SUMMARY:Reminder',
+        'DESCRIPTION:This is an event reminder',
+        'TRIGGER:-P0DT0H30M0S',
+        'END:VALARM',
+        'END:VEVENT'
+      )
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].slice(0, 4)).toEqual(['Robotics workshop', 'Bring a laptop, and a charger', '', 'Main Hall']);
+  });
+
+  it('converts times given in another time zone to campus time', () => {
+    const { rows } = parseIcs(
+      ics(
+        'BEGIN:VEVENT',
+        'SUMMARY:Guest lecture',
+        'DTSTART;TZID=America/New_York:20260115T090000',
+        'DTEND;TZID=America/New_York:20260115T103000',
+        'END:VEVENT'
+      )
+    );
+
+    // New York is UTC-5 in January
+    expect(rows[0][4]).toBe(toCampusDateTimeLocal(new Date('2026-01-15T14:00:00Z')));
+    expect(rows[0][5]).toBe(toCampusDateTimeLocal(new Date('2026-01-15T15:30:00Z')));
+  });
+
+  it('keeps all-day dates as written, with no time to book', () => {
+    const { rows } = parseIcs(
+      ics(
+        'BEGIN:VEVENT',
+        'SUMMARY:Founders day',
+        'DTSTART;VALUE=DATE:20260320',
+        'DTEND;VALUE=DATE:20260321',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Open house',
+        'DTSTART:20260321T100000',
+        'DTEND:20260321T120000',
+        'END:VEVENT'
+      )
+    );
+
+    expect(rows.map((row) => row[0])).toEqual(['Founders day', 'Open house']);
+    expect(rows[0].slice(4)).toEqual(['20260320', '20260321']);
+    expect(rows[1].slice(4)).toEqual(['2026-03-21T10:00', '2026-03-21T12:00']);
+  });
+});
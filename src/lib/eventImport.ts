@@ -0,0 +1,356 @@
+import { fromZonedTime } from 'date-fns-tz';
+import { Club, Venue } from '@/lib/types';
+import { EventFormValues, emptyEventForm, toBufferOverrides, validateEventForm } from '@/lib/eventValidation';
+import { checkVenueConflict, intervalsOverlap } from '@/lib/venueConflict';
+import { formatCampus, parseCampusDateTime, toCampusDateTimeLocal } from '@/lib/timezone';
+
+export type ImportField =
+  | 'event_name'
+  | 'description'
+  | 'club'
+  | 'venue'
+  | 'start_time'
+  | 'end_time'
+  | 'registration_start'
+  | 'registration_end'
+  | 'is_open'
+  | 'capacity'
+  | 'setup_minutes'
+  | 'teardown_minutes';
+
+// Which column (by index) feeds each field; missing fields use the defaults
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'event_name', label: 'Event name', required: true, aliases: ['event name', 'name', 'title', 'event', 'summary'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details', 'about'] },
+  { field: 'club', label: 'Club', aliases: ['club', 'club name', 'organiser', 'organizer', 'categories'] },
+  { field: 'venue', label: 'Venue', required: true, aliases: ['venue', 'venue name', 'location', 'room'] },
+  { field: 'start_time', label: 'Start', required: true, aliases: ['start', 'start time', 'starts', 'start date', 'dtstart'] },
+  { field: 'end_time', label: 'End', required: true, aliases: ['end', 'end time', 'ends', 'end date', 'dtend'] },
+  { field: 'registration_start', label: 'Registration opens', aliases: ['registration start', 'registration opens', 'reg start'] },
+  { field: 'registration_end', label: 'Registration closes', aliases: ['registration end', 'registration closes', 'reg end', 'deadline'] },
+  { field: 'is_open', label: 'Open for registration', aliases: ['open', 'is open', 'registration open'] },
+  { field: 'capacity', label: 'Capacity', aliases: ['capacity', 'seats'] },
+  { field: 'setup_minutes', label: 'Setup minutes', aliases: ['setup', 'setup minutes'] },
+  { field: 'teardown_minutes', label: 'Teardown minutes', aliases: ['teardown', 'teardown minutes'] },
+];
+
+// A parsed file: header names and the cells under them
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// One row of the file after mapping, with everything that would stop it being imported
+export interface ImportCandidate {
+  // 1-based, counting the header, so it matches what spreadsheets show
+  rowNumber: number;
+  values: EventFormValues;
+  venueName: string;
+  errors: string[];
+  conflicts: string[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks. */
+export function parseCsv(text: string): ImportTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((c) => c.trim()));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+// "20260314T100000Z", or wall-clock time in the given zone (campus time when there's none)
+function parseIcsDate(value: string, tzid?: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, , utc] = match;
+  // All-day entries have no time to book a venue for
+  if (!hour) return null;
+
+  const wallClock = `${year}-${month}-${day}T${hour}:${minute}`;
+  if (utc) return toCampusDateTimeLocal(new Date(`${wallClock}:00Z`));
+  if (tzid) {
+    const instant = fromZonedTime(`${wallClock}:00`, tzid);
+    if (!isNaN(instant.getTime())) return toCampusDateTimeLocal(instant);
+  }
+  return wallClock;
+}
+
+const unescapeIcs = (text: string) =>
+  text.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+/**
+ * VEVENTs from an iCalendar file, as a table with the same columns a CSV would
+ * have so both go through one mapping. Times come out as campus wall-clock.
+ */
+export function parseIcs(text: string): ImportTable {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const headers = ['Summary', 'Description', 'Categories', 'Location', 'DTSTART', 'DTEND'];
+  const rows: string[][] = [];
+  let current: Record<string, string> | null = null;
+  // Components nested in the event (VALARM reminders) have their own SUMMARY and DESCRIPTION
+  let nested = 0;
+
+  for (const line of lines) {
+    const component = line.match(/^(BEGIN|END):(\S+)/i);
+    if (component && !current) {
+      if (component[1].toUpperCase() === 'BEGIN' && component[2].toUpperCase() === 'VEVENT') current = {};
+    } else if (component && component[1].toUpperCase() === 'BEGIN') {
+      nested++;
+    } else if (component && nested > 0) {
+      nested--;
+    } else if (component) {
+      rows.push(headers.map((header) => current![header.toUpperCase()] ?? ''));
+      current = null;
+    } else if (current && nested === 0) {
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+      const [name, ...params] = line.slice(0, separator).split(';');
+      const value = line.slice(separator + 1);
+      const key = name.toUpperCase();
+
+      if (key === 'DTSTART' || key === 'DTEND') {
+        const tzid = params.find((p) => p.toUpperCase().startsWith('TZID='))?.slice(5);
+        current[key] = parseIcsDate(value, tzid) ?? value;
+      } else if (key === 'CATEGORIES') {
+        current[key] = unescapeIcs(value.split(',')[0]);
+      } else {
+        current[key] = unescapeIcs(value);
+      }
+    }
+  }
+
+  return { headers, rows };
+}
+
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  return /\.ics$/i.test(fileName) || text.trimStart().startsWith('BEGIN:VCALENDAR') ? parseIcs(text) : parseCsv(text);
+}
+
+// Matches headers to fields by name, ignoring case and punctuation
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const normalized = headers.map((h) => normalizeName(h.replace(/[_\-.]/g, ' ')));
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+/**
+ * A date and time as a campus datetime-local value. Takes ISO timestamps (with
+ * or without an offset), "YYYY-MM-DD HH:mm" and "DD/MM/YYYY HH:mm" campus times.
+ */
+export function parseImportDateTime(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (local) {
+    const [, year, month, day, hour, minute] = local;
+    return `${year}-${month}-${day}T${hour.padStart(2, '0')}:${minute}`;
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})[ T](\d{1,2}):(\d{2})$/);
+  if (dayFirst) {
+    const [, day, month, year, hour, minute] = dayFirst;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T${hour.padStart(2, '0')}:${minute}`;
+  }
+
+  // Already-converted ICS values, or ISO timestamps with a zone
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(text)) return text;
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    return toCampusDateTimeLocal(new Date(text));
+  }
+
+  return null;
+}
+
+function parseBoolean(value: string) {
+  return !/^(no|n|false|0|closed)$/i.test(value.trim());
+}
+
+interface ImportContext {
+  clubs: Club[];
+  venues: Venue[];
+  // Set for club members, who can only import for the clubs they edit
+  editableClubIds: string[] | null;
+}
+
+/**
+ * Maps each row to event form values and runs the same checks as the add
+ * form. Rows that fail carry their errors; nothing is written.
+ */
+export function buildCandidates(table: ImportTable, mapping: ImportMapping, context: ImportContext): ImportCandidate[] {
+  const clubsByName = new Map(context.clubs.map((club) => [normalizeName(club.club_name), club]));
+  const venuesByName = new Map(context.venues.map((venue) => [normalizeName(venue.venue_name), venue]));
+
+  return table.rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column == null ? '' : (row[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const clubName = cell('club');
+    // Without a club column, rows go to the only club the user edits
+    let clubId = context.editableClubIds?.length === 1 ? context.editableClubIds[0] : '';
+    if (clubName) {
+      const club = clubsByName.get(normalizeName(clubName));
+      if (!club) {
+        errors.push(`Unknown club "${clubName}"`);
+      } else if (context.editableClubIds && !context.editableClubIds.includes(club.id)) {
+        errors.push(`You can only import events for clubs you edit, not ${club.club_name}`);
+      } else {
+        clubId = club.id;
+      }
+    }
+
+    const venueName = cell('venue');
+    const venue = venueName ? venuesByName.get(normalizeName(venueName)) : undefined;
+    if (venueName && !venue) {
+      errors.push(`Unknown venue "${venueName}"`);
+    }
+
+    const times: Partial<Record<'start_time' | 'end_time' | 'registration_start' | 'registration_end', string>> = {};
+    for (const field of ['start_time', 'end_time', 'registration_start', 'registration_end'] as const) {
+      const raw = cell(field);
+      const parsed = parseImportDateTime(raw);
+      if (raw && !parsed) {
+        errors.push(`Can't read ${IMPORT_FIELDS.find((f) => f.field === field)!.label.toLowerCase()} "${raw}"`);
+      }
+      if (parsed) times[field] = parsed;
+    }
+
+    // Same defaults as the add form: registration opens now and closes an hour before the start
+    const start = times.start_time ? parseCampusDateTime(times.start_time) : null;
+    const registrationEnd = start
+      ? new Date(Math.max(start.getTime() - HOUR, Math.min(Date.now() + HOUR / 4, start.getTime())))
+      : null;
+
+    const values: EventFormValues = {
+      ...emptyEventForm,
+      event_name: cell('event_name'),
+      description: cell('description'),
+      club_id: clubId,
+      venue_id: venue?.id ?? '',
+      start_time: times.start_time ?? '',
+      end_time: times.end_time ?? '',
+      registration_start: times.registration_start ?? toCampusDateTimeLocal(new Date()),
+      registration_end: times.registration_end ?? (registrationEnd ? toCampusDateTimeLocal(registrationEnd) : ''),
+      is_open: mapping.is_open == null || !cell('is_open') ? true : parseBoolean(cell('is_open')),
+      capacity: cell('capacity'),
+      setup_minutes: cell('setup_minutes'),
+      teardown_minutes: cell('teardown_minutes'),
+    };
+
+    if (errors.length === 0) {
+      const fieldErrors = validateEventForm(values);
+      if (fieldErrors) errors.push(...Object.values(fieldErrors));
+    }
+
+    if (errors.length === 0 && venue?.capacity && values.capacity && parseInt(values.capacity, 10) > venue.capacity) {
+      errors.push(`${venue.venue_name} only seats ${venue.capacity}`);
+    }
+
+    if (errors.length === 0 && parseCampusDateTime(values.start_time) <= new Date()) {
+      errors.push('Starts in the past');
+    }
+
+    return { rowNumber: index + 2, values, venueName: venue?.venue_name ?? venueName, errors, conflicts: [] };
+  });
+}
+
+/**
+ * The dry run: checks every valid row against existing bookings, closed hours
+ * and blackouts, and against earlier rows of the same file at the same venue.
+ */
+export async function checkCandidateConflicts(candidates: ImportCandidate[]): Promise<ImportCandidate[]> {
+  const checked: ImportCandidate[] = [];
+
+  for (const candidate of candidates) {
+    if (candidate.errors.length > 0) {
+      checked.push(candidate);
+      continue;
+    }
+
+    const { values } = candidate;
+    const start = parseCampusDateTime(values.start_time);
+    const end = parseCampusDateTime(values.end_time);
+    const conflicts: string[] = [];
+
+    const result = await checkVenueConflict(
+      values.venue_id,
+      start.toISOString(),
+      end.toISOString(),
+      undefined,
+      toBufferOverrides(values)
+    );
+    for (const event of result.conflictingEvents) {
+      conflicts.push(
+        `${event.bufferOnly ? 'Too close to' : 'Overlaps'} ${event.event_name} (${event.clubs.club_name}, ` +
+        `${formatCampus(event.start_time, 'MMM d h:mm a')})`
+      );
+    }
+    for (const period of result.blockedPeriods) {
+      conflicts.push(period.reason);
+    }
+
+    for (const earlier of checked) {
+      if (
+        earlier.errors.length === 0 &&
+        earlier.values.venue_id === values.venue_id &&
+        intervalsOverlap(start, end, parseCampusDateTime(earlier.values.start_time), parseCampusDateTime(earlier.values.end_time))
+      ) {
+        conflicts.push(`Overlaps row ${earlier.rowNumber} of this file`);
+      }
+    }
+
+    checked.push({ ...candidate, conflicts });
+  }
+
+  return checked;
+}
@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { parseCampusDateTime, toCampusDateTimeLocal } from '@/lib/timezone';
+import { MAX_BUFFER_MINUTES } from '@/lib/venueConflict';
+import { normalizeFormDefinition, validateFormDefinition } from '@/lib/registrationForm';
+import { RegistrationFormField } from '@/lib/types';
+
+// Blank means "use the venue's default buffer"
+const bufferMinutes = z
+  .string()
+  .refine((value) => !value || /^\d+$/.test(value), 'Enter whole minutes')
+  .refine((value) => !value || parseInt(value, 10) <= MAX_BUFFER_MINUTES, `At most ${MAX_BUFFER_MINUTES} minutes`);
+
+// Blank means "seat as many as the venue holds"
+const seatCapacity = z
+  .string()
+  .refine((value) => !value || (/^\d+$/.test(value) && parseInt(value, 10) > 0), 'Enter a whole number of seats');
+
+const teamSize = z
+  .string()
+  .refine((value) => !value || (/^\d+$/.test(value) && parseInt(value, 10) > 0), 'Enter a whole number of members');
+
+export const eventSchema = z.object({
+  event_name: z.string().min(3, 'Event name must be at least 3 characters'),
+  description: z.string().optional(),
+  venue_id: z.string().min(1, 'Please select a venue'),
+  start_time: z.string().min(1, 'Start time is required'),
+  end_time: z.string().min(1, 'End time is required'),
+  registration_start: z.string().min(1, 'Registration start is required'),
+  registration_end: z.string().min(1, 'Registration end is required'),
+  is_open: z.boolean(),
+  setup_minutes: bufferMinutes,
+  teardown_minutes: bufferMinutes,
+  capacity: seatCapacity,
+  team_min_size: teamSize,
+  team_max_size: teamSize,
+});
+
+// Form state uses datetime-local strings (YYYY-MM-DDTHH:mm, campus time) for every time field
+export interface EventFormValues {
+  event_name: string;
+  description: string;
+  venue_id: string;
+  start_time: string;
+  end_time: string;
+  registration_start: string;
+  registration_end: string;
+  is_open: boolean;
+  club_id: string;
+  // Buffer overrides in minutes; '' falls back to the venue's default
+  setup_minutes: string;
+  teardown_minutes: string;
+  // Seat limit; '' falls back to the venue's capacity
+  capacity: string;
+  // Extra questions attendees answer when registering
+  registration_form: RegistrationFormField[];
+  // Both set for team events; capacity then counts teams
+  team_min_size: string;
+  team_max_size: string;
+}
+
+export const emptyEventForm: EventFormValues = {
+  event_name: '',
+  description: '',
+  venue_id: '',
+  start_time: '',
+  end_time: '',
+  registration_start: '',
+  registration_end: '',
+  is_open: true,
+  club_id: '',
+  setup_minutes: '',
+  teardown_minutes: '',
+  capacity: '',
+  registration_form: [],
+  team_min_size: '',
+  team_max_size: '',
+};
+
+/**
+ * Runs the schema, club and date-ordering checks shared by every event form.
+ * Returns a field -> message map, or null when the values are valid.
+ */
+export function validateEventForm(values: EventFormValues): Record<string, string> | null {
+  const validation = eventSchema.safeParse(values);
+
+  if (!validation.success) {
+    const fieldErrors: Record<string, string> = {};
+    validation.error.errors.forEach((err) => {
+      if (err.path[0]) {
+        fieldErrors[err.path[0].toString()] = err.message;
+      }
+    });
+    return fieldErrors;
+  }
+
+  if (!values.club_id) {
+    return { club_id: 'Please select a club' };
+  }
+
+  if (!!values.team_min_size !== !!values.team_max_size) {
+    return { [values.team_min_size ? 'team_max_size' : 'team_min_size']: 'Set both the smallest and largest team size' };
+  }
+
+  if (values.team_min_size && parseInt(values.team_min_size, 10) > parseInt(values.team_max_size, 10)) {
+    return { team_max_size: 'Largest team size must be at least the smallest' };
+  }
+
+  const formError = validateFormDefinition(values.registration_form);
+  if (formError) {
+    return { registration_form: formError };
+  }
+
+  const startTime = parseCampusDateTime(values.start_time);
+  const endTime = parseCampusDateTime(values.end_time);
+  const regStart = parseCampusDateTime(values.registration_start);
+  const regEnd = parseCampusDateTime(values.registration_end);
+
+  if (endTime <= startTime) {
+    return { end_time: 'End time must be after start time' };
+  }
+
+  if (regEnd <= regStart) {
+    return { registration_end: 'Registration end must be after registration start' };
+  }
+
+  if (regEnd > startTime) {
+    return { registration_end: 'Registration must end before event starts' };
+  }
+
+  return null;
+}
+
+// Generate datetime-local input value (campus wall-clock)
+export function formatDateTimeLocal(date: Date | string) {
+  return toCampusDateTimeLocal(date);
+}
+
+// Buffer overrides as stored on the event (null = venue default)
+export function toBufferOverrides(values: EventFormValues) {
+  return {
+    setup_minutes: values.setup_minutes ? parseInt(values.setup_minutes, 10) : null,
+    teardown_minutes: values.teardown_minutes ? parseInt(values.teardown_minutes, 10) : null,
+  };
+}
+
+// Convert campus datetime-local values to proper ISO format for database
+export function toEventPayload(values: EventFormValues) {
+  return {
+    event_name: values.event_name,
+    description: values.description,
+    venue_id: values.venue_id,
+    club_id: values.club_id,
+    is_open: values.is_open,
+    ...toBufferOverrides(values),
+    capacity: values.capacity ? parseInt(values.capacity, 10) : null,
+    registration_form: normalizeFormDefinition(values.registration_form),
+    team_min_size: values.team_min_size ? parseInt(values.team_min_size, 10) : null,
+    team_max_size: values.team_max_size ? parseInt(values.team_max_size, 10) : null,
+    start_time: parseCampusDateTime(values.start_time).toISOString(),
+    end_time: parseCampusDateTime(values.end_time).toISOString(),
+    registration_start: parseCampusDateTime(values.registration_start).toISOString(),
+    registration_end: parseCampusDateTime(values.registration_end).toISOString(),
+  };
+}
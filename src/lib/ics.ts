@@ -0,0 +1,37 @@
+import { Event } from '@/lib/types';
+// Same module the functions use for feeds and email attachments, so every copy of an event matches
+import { buildCalendar, calendarFeedUrl as feedUrl, eventToIcs, icsDate } from '../../supabase/functions/_shared/ics.ts';
+
+export function downloadEventIcs(event: Event) {
+  const ics = buildCalendar(event.event_name, [eventToIcs(event, window.location.origin)]);
+  const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${event.event_name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'event'}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function googleCalendarUrl(event: Event) {
+  const ics = eventToIcs(event, window.location.origin);
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: ics.summary,
+    dates: `${icsDate(ics.start)}/${icsDate(ics.end)}`,
+    details: [ics.description, ics.url].filter(Boolean).join('\n\n'),
+    location: ics.location ?? '',
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+export interface CalendarFeed {
+  club?: string;
+  venue?: string;
+  token?: string;
+}
+
+// webcal:// makes calendar apps offer to subscribe instead of importing once
+export function calendarFeedUrl(feed: CalendarFeed, webcal = false) {
+  return feedUrl(import.meta.env.VITE_SUPABASE_URL, { ...feed }, webcal);
+}
@@ -0,0 +1,221 @@
+import { EventSeries, RecurrenceFrequency } from '@/lib/types';
+import { campusDateKey, campusDateTime, formatCampus, shiftDateKey } from '@/lib/timezone';
+import { WEEKDAYS, weekdayOf } from '@/lib/venueSchedule';
+
+// Upper bound on occurrences one series can create (matches the database check)
+export const MAX_OCCURRENCES = 52;
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Repeat rule in campus dates. Exactly one of until/count ends the series;
+ * exceptions are dates the rule would produce but that are skipped.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Weekly only; 0 = Sunday
+  byWeekday: number[];
+  until: string | null;
+  count: number | null;
+  exceptions: string[];
+}
+
+// One concrete booking of a series, with registration kept at the same offsets from the start
+export interface Occurrence {
+  start: Date;
+  end: Date;
+  registrationStart: Date;
+  registrationEnd: Date;
+}
+
+export function defaultRecurrence(firstDateKey: string): RecurrenceRule {
+  return {
+    frequency: 'weekly',
+    interval: 1,
+    byWeekday: [weekdayOf(firstDateKey)],
+    until: null,
+    count: 10,
+    exceptions: [],
+  };
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Campus dates the rule produces, starting on the first occurrence's date.
+ * Count includes excepted dates (as in RFC 5545), and months without the
+ * starting day of month are skipped rather than clamped.
+ */
+export function expandRecurrence(rule: RecurrenceRule, firstDateKey: string): string[] {
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = Math.max(1, rule.interval);
+  const pastEnd = (dateKey: string) => !!rule.until && dateKey > rule.until;
+  const dates: string[] = [];
+
+  if (rule.frequency === 'daily') {
+    for (let day = firstDateKey; dates.length < limit && !pastEnd(day); day = shiftDateKey(day, interval)) {
+      dates.push(day);
+    }
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday.length ? [...rule.byWeekday].sort() : [weekdayOf(firstDateKey)];
+    let weekStart = shiftDateKey(firstDateKey, -weekdayOf(firstDateKey));
+
+    while (dates.length < limit && !pastEnd(weekStart)) {
+      for (const weekday of weekdays) {
+        const day = shiftDateKey(weekStart, weekday);
+        if (day < firstDateKey) continue;
+        if (pastEnd(day) || dates.length >= limit) break;
+        dates.push(day);
+      }
+      weekStart = shiftDateKey(weekStart, 7 * interval);
+    }
+  } else {
+    const [year, month, dayOfMonth] = firstDateKey.split('-').map(Number);
+
+    // Bounded so a day-31 rule over short months can't loop forever
+    for (let step = 0; dates.length < limit && step < MAX_OCCURRENCES * 12; step += interval) {
+      const monthIndex = month - 1 + step;
+      const y = year + Math.floor(monthIndex / 12);
+      const m = monthIndex % 12;
+      if (dayOfMonth > daysInMonth(y, m)) continue;
+
+      const day = `${y}-${String(m + 1).padStart(2, '0')}-${String(dayOfMonth).padStart(2, '0')}`;
+      if (pastEnd(day)) break;
+      dates.push(day);
+    }
+  }
+
+  return dates.filter(day => !rule.exceptions.includes(day));
+}
+
+/**
+ * Lays the first occurrence's campus wall-clock times onto every date of the
+ * rule, so a 6 PM meetup stays at 6 PM across DST changes.
+ */
+export function buildOccurrences(rule: RecurrenceRule, first: Occurrence): Occurrence[] {
+  const time = formatCampus(first.start, 'HH:mm');
+  const duration = first.end.getTime() - first.start.getTime();
+  const registrationStartOffset = first.registrationStart.getTime() - first.start.getTime();
+  const registrationEndOffset = first.registrationEnd.getTime() - first.start.getTime();
+
+  return expandRecurrence(rule, campusDateKey(first.start)).map(day => {
+    const start = campusDateTime(day, time);
+    return {
+      start,
+      end: new Date(start.getTime() + duration),
+      registrationStart: new Date(start.getTime() + registrationStartOffset),
+      registrationEnd: new Date(start.getTime() + registrationEndOffset),
+    };
+  });
+}
+
+/**
+ * Moves another occurrence of a series the way one occurrence was moved from
+ * `from` to `to`: same number of campus days, same new time of day.
+ */
+export function shiftOccurrence(occurrenceStart: Date, from: Date, to: Date) {
+  return campusDateTime(shiftDateKey(campusDateKey(occurrenceStart), campusDayDelta(from, to)), formatCampus(to, 'HH:mm'));
+}
+
+/**
+ * Splits a series where "this and all future occurrences" moved from `from` to
+ * `to`. The earlier part keeps its rule but now ends the day before; the later
+ * part repeats on the shifted days, with the exceptions that fell after the
+ * split. `remaining` is how many occurrences moved, for rules ending after a count.
+ */
+export function splitRecurrence(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  remaining: number
+): { earlier: RecurrenceRule; later: RecurrenceRule } {
+  const dayDelta = campusDayDelta(from, to);
+  const fromKey = campusDateKey(from);
+  const laterExceptions = rule.exceptions.filter(day => day >= fromKey).map(day => shiftDateKey(day, dayDelta));
+
+  return {
+    earlier: {
+      ...rule,
+      until: shiftDateKey(fromKey, -1),
+      count: null,
+      exceptions: rule.exceptions.filter(day => day < fromKey),
+    },
+    later: {
+      ...rule,
+      byWeekday: rule.byWeekday.map(d => (((d + dayDelta) % 7) + 7) % 7),
+      until: rule.until && shiftDateKey(rule.until, dayDelta),
+      // Counts include excepted dates
+      count: rule.until ? null : remaining + laterExceptions.length,
+      exceptions: laterExceptions,
+    },
+  };
+}
+
+function campusDayDelta(from: Date, to: Date) {
+  const fromKey = campusDateKey(from);
+  const toKey = campusDateKey(to);
+  return Math.round(
+    (new Date(`${toKey}T00:00:00Z`).getTime() - new Date(`${fromKey}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
+
+// RFC 5545 RRULE text for the rule (exceptions are EXDATEs, not part of the RRULE)
+export function toRRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(d => RRULE_DAYS[d]).join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
+
+// "Every 2 weeks on Monday, Wednesday, until Mar 01, 2026"
+export function describeRecurrence(rule: RecurrenceRule) {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = rule.interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.frequency]
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length) {
+    text += ` on ${[...rule.byWeekday].sort().map(d => WEEKDAYS[d]).join(', ')}`;
+  }
+  if (rule.until) {
+    text += `, until ${formatCampus(campusDateTime(rule.until, '12:00'), 'MMM dd, yyyy')}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
+
+export function toSeriesRow(rule: RecurrenceRule) {
+  return {
+    frequency: rule.frequency,
+    interval_count: rule.interval,
+    by_weekday: rule.frequency === 'weekly' ? rule.byWeekday : [],
+    until_date: rule.until,
+    occurrence_count: rule.until ? null : rule.count,
+    exception_dates: rule.exceptions,
+    rrule: toRRule(rule),
+  };
+}
+
+export function fromSeriesRow(series: EventSeries): RecurrenceRule {
+  return {
+    frequency: series.frequency,
+    interval: series.interval_count,
+    byWeekday: series.by_weekday,
+    until: series.until_date,
+    count: series.occurrence_count,
+    exceptions: series.exception_dates,
+  };
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { FormFieldType, RegistrationFormField, RegistrationResponses } from '@/lib/types';
+
+export const REGISTRATION_UPLOADS_BUCKET = 'registration-uploads';
+export const MAX_UPLOAD_MB = 10;
+
+export const FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Text',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+  file: 'File upload',
+};
+
+// An event's registration_form column as fields; anything but a list means no questions
+export function formFields(form: Json | undefined): RegistrationFormField[] {
+  return Array.isArray(form) ? (form as RegistrationFormField[]) : [];
+}
+
+export function newFormField(type: FormFieldType): RegistrationFormField {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    label: '',
+    required: false,
+    ...(type === 'select' ? { options: [] } : {}),
+    ...(type === 'file' ? { maxSizeMb: 5 } : {}),
+  };
+}
+
+/**
+ * Checks the form a POC designed. Returns the first problem, or null when
+ * every field can be rendered and validated.
+ */
+export function validateFormDefinition(fields: RegistrationFormField[]): string | null {
+  for (const [index, field] of fields.entries()) {
+    const name = field.label.trim() || `Question ${index + 1}`;
+    if (!field.label.trim()) return `${name} needs a label`;
+    if (field.type === 'select' && !field.options?.some((option) => option.trim())) {
+      return `${name} needs at least one option`;
+    }
+    if (field.minLength != null && field.maxLength != null && field.minLength > field.maxLength) {
+      return `${name}: minimum length is longer than the maximum`;
+    }
+    if (field.pattern) {
+      try {
+        new RegExp(field.pattern);
+      } catch {
+        return `${name}: the pattern isn't a valid regular expression`;
+      }
+    }
+    if (field.maxSizeMb != null && (field.maxSizeMb <= 0 || field.maxSizeMb > MAX_UPLOAD_MB)) {
+      return `${name}: files can be at most ${MAX_UPLOAD_MB} MB`;
+    }
+  }
+  return null;
+}
+
+// Tidies a designed form for saving: trimmed labels and no blank options
+export function normalizeFormDefinition(fields: RegistrationFormField[]): RegistrationFormField[] {
+  return fields.map((field) => ({
+    ...field,
+    label: field.label.trim(),
+    help: field.help?.trim() || undefined,
+    ...(field.options ? { options: field.options.map((option) => option.trim()).filter(Boolean) } : {}),
+  }));
+}
+
+// Whether a file matches an <input accept> list such as ".pdf,image/*"
+function matchesAccept(file: File, accept: string) {
+  const name = file.name.toLowerCase();
+  return accept
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) =>
+      entry.startsWith('.')
+        ? name.endsWith(entry)
+        : entry.endsWith('/*')
+          ? file.type.startsWith(entry.slice(0, -1))
+          : file.type === entry
+    );
+}
+
+function fieldSchema(field: RegistrationFormField): z.ZodTypeAny {
+  switch (field.type) {
+    case 'checkbox':
+      return field.required
+        ? z.boolean().refine((checked) => checked, 'This box must be ticked')
+        : z.boolean();
+
+    case 'select': {
+      const options = field.options ?? [];
+      const choice = z.string().refine((value) => !value || options.includes(value), 'Choose one of the options');
+      return field.required ? choice.refine((value) => !!value, 'Please choose an option') : choice;
+    }
+
+    case 'file': {
+      const maxBytes = (field.maxSizeMb ?? MAX_UPLOAD_MB) * 1024 * 1024;
+      const file = z
+        .instanceof(File)
+        .refine((value) => value.size <= maxBytes, `Files can be at most ${field.maxSizeMb ?? MAX_UPLOAD_MB} MB`)
+        .refine((value) => !field.accept || matchesAccept(value, field.accept), `Allowed types: ${field.accept}`);
+      return field.required ? file : file.optional();
+    }
+
+    default: {
+      let text = z.string().trim();
+      if (field.required) text = text.min(1, 'This field is required');
+      if (field.maxLength != null) text = text.max(field.maxLength, `At most ${field.maxLength} characters`);
+      return text
+        .refine((value) => !value || field.minLength == null || value.length >= field.minLength, `At least ${field.minLength} characters`)
+        .refine(
+          (value) => !value || !field.pattern || new RegExp(field.pattern).test(value),
+          field.patternMessage || "This doesn't look right"
+        );
+    }
+  }
+}
+
+// Zod schema for the answers to a form, keyed by field id
+export function buildResponsesSchema(fields: RegistrationFormField[]) {
+  return z.object(Object.fromEntries(fields.map((field) => [field.id, fieldSchema(field)])));
+}
+
+// Empty answers for react-hook-form's defaultValues
+export function emptyResponses(fields: RegistrationFormField[]) {
+  return Object.fromEntries(
+    fields.map((field) => [field.id, field.type === 'checkbox' ? false : field.type === 'file' ? undefined : ''])
+  );
+}
+
+/**
+ * Uploads any files in the answers to the event's folder and swaps them for
+ * their storage paths, ready to be saved with the registration.
+ */
+export async function uploadResponseFiles(
+  eventId: string,
+  answers: Record<string, unknown>
+): Promise<RegistrationResponses> {
+  const responses: RegistrationResponses = {};
+
+  for (const [fieldId, value] of Object.entries(answers)) {
+    if (value instanceof File) {
+      const path = `${eventId}/${crypto.randomUUID()}-${value.name}`;
+      const { error } = await supabase.storage.from(REGISTRATION_UPLOADS_BUCKET).upload(path, value);
+      if (error) throw error;
+      responses[fieldId] = path;
+    } else if (typeof value === 'string' || typeof value === 'boolean') {
+      responses[fieldId] = value;
+    }
+  }
+
+  return responses;
+}
@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Event, EventSeats, Registration, RegistrationResponses, Team, TeamDetails } from '@/lib/types';
+
+// Registration tokens this browser holds, by event id
+const TOKENS_KEY = 'event-registrations';
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function getRegistrationToken(eventId: string): string | null {
+  return readTokens()[eventId] ?? null;
+}
+
+export function rememberRegistration(eventId: string, token: string) {
+  localStorage.setItem(TOKENS_KEY, JSON.stringify({ ...readTokens(), [eventId]: token }));
+}
+
+export function forgetRegistration(eventId: string) {
+  const tokens = readTokens();
+  delete tokens[eventId];
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+}
+
+// Whether the event takes registrations right now; a full event still takes waitlist sign-ups
+export function acceptsRegistrations(event: Event, now = new Date()) {
+  return (
+    event.approval_status === 'approved' &&
+    !!event.is_open &&
+    new Date(event.registration_start) <= now &&
+    new Date(event.registration_end) > now
+  );
+}
+
+// Team events register and count teams rather than individuals
+export function isTeamEvent(event: Pick<Event, 'team_max_size'>) {
+  return event.team_max_size != null;
+}
+
+// "2-4 members", or "3 members" when the size is fixed
+export function describeTeamSize(event: Pick<Event, 'team_min_size' | 'team_max_size'>) {
+  if (event.team_max_size == null) return '';
+  const min = event.team_min_size ?? 1;
+  return min === event.team_max_size ? `${min} members` : `${min}-${event.team_max_size} members`;
+}
+
+// Seats still free, or null when the event has no limit
+export function seatsLeft(seats: EventSeats): number | null {
+  return seats.capacity == null ? null : Math.max(seats.capacity - seats.confirmed, 0);
+}
+
+export function isFull(seats: EventSeats | undefined) {
+  return !!seats && seatsLeft(seats) === 0;
+}
+
+export async function fetchEventSeats(eventIds: string[]): Promise<Record<string, EventSeats>> {
+  const { data, error } = await supabase.rpc('get_event_seats', { _event_ids: eventIds });
+  if (error) throw error;
+
+  const seats: Record<string, EventSeats> = {};
+  for (const row of data ?? []) {
+    seats[row.event_id] = row;
+  }
+  return seats;
+}
+
+// Takes a seat, or a waitlist place once the event is full
+export async function registerForEvent(
+  eventId: string,
+  fullName: string,
+  email: string,
+  responses: RegistrationResponses = {}
+) {
+  const { data, error } = await supabase.rpc('register_for_event', {
+    _event_id: eventId,
+    _full_name: fullName,
+    _email: email,
+    _responses: responses,
+  });
+  if (error) throw error;
+
+  const registration = data as Registration;
+  rememberRegistration(eventId, registration.cancel_token);
+  return registration;
+}
+
+export async function fetchRegistration(token: string): Promise<Registration | null> {
+  const { data, error } = await supabase.rpc('get_registration', { _token: token }).maybeSingle();
+  if (error) throw error;
+  return data as Registration | null;
+}
+
+// Frees the seat; the first person on the waitlist is promoted into it
+export async function cancelRegistration(token: string) {
+  const { data, error } = await supabase.rpc('cancel_registration', { _token: token });
+  if (error) throw error;
+  return data as Registration;
+}
+
+// Starts a team with the caller as captain; the team takes a slot or a waitlist place
+export async function createTeam(
+  eventId: string,
+  teamName: string,
+  fullName: string,
+  email: string,
+  responses: RegistrationResponses = {}
+) {
+  const { data, error } = await supabase.rpc('create_team', {
+    _event_id: eventId,
+    _team_name: teamName,
+    _full_name: fullName,
+    _email: email,
+    _responses: responses,
+  });
+  if (error) throw error;
+
+  const registration = data as Registration;
+  rememberRegistration(eventId, registration.cancel_token);
+  return registration;
+}
+
+export async function joinTeam(
+  eventId: string,
+  joinCode: string,
+  fullName: string,
+  email: string,
+  responses: RegistrationResponses = {}
+) {
+  const { data, error } = await supabase.rpc('join_team', {
+    _event_id: eventId,
+    _join_code: joinCode,
+    _full_name: fullName,
+    _email: email,
+    _responses: responses,
+  });
+  if (error) throw error;
+
+  const registration = data as Registration;
+  rememberRegistration(eventId, registration.cancel_token);
+  return registration;
+}
+
+export async function fetchTeam(token: string): Promise<TeamDetails | null> {
+  const { data, error } = await supabase.rpc('get_team', { _token: token });
+  if (error) throw error;
+  return data as TeamDetails | null;
+}
+
+// Captain only; the team needs at least the event's minimum size
+export async function lockTeam(token: string) {
+  const { data, error } = await supabase.rpc('lock_team', { _token: token });
+  if (error) throw error;
+  return data as Team;
+}
+
+// The signed ticket shown as a QR code; null unless the seat is confirmed
+export async function fetchTicket(token: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_ticket', { _token: token });
+  if (error) throw error;
+  return data;
+}
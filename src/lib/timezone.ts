@@ -0,0 +1,36 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// All scheduling happens on campus time, whatever zone the browser is in
+export const CAMPUS_TIMEZONE: string = import.meta.env.VITE_CAMPUS_TIMEZONE || 'Asia/Kolkata';
+
+// date-fns format pattern applied to the instant as seen on campus
+export function formatCampus(date: Date | string, pattern: string) {
+  return formatInTimeZone(new Date(date), CAMPUS_TIMEZONE, pattern);
+}
+
+// Campus calendar date (YYYY-MM-DD) the instant falls on
+export function campusDateKey(date: Date | string) {
+  return formatCampus(date, 'yyyy-MM-dd');
+}
+
+// Instant at which a campus date and wall-clock time (HH:mm) occur
+export function campusDateTime(dateKey: string, time = '00:00') {
+  return fromZonedTime(`${dateKey}T${time}:00`, CAMPUS_TIMEZONE);
+}
+
+// datetime-local input value (campus wall-clock) -> instant
+export function parseCampusDateTime(value: string) {
+  return fromZonedTime(value, CAMPUS_TIMEZONE);
+}
+
+// Instant -> datetime-local input value in campus wall-clock
+export function toCampusDateTimeLocal(date: Date | string) {
+  return formatCampus(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+// Calendar arithmetic on YYYY-MM-DD keys, independent of any zone's DST
+export function shiftDateKey(dateKey: string, days: number) {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
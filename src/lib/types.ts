@@ -1,4 +1,6 @@
-export type AppRole = 'super_admin' | 'club_poc';
+import { Json } from '@/integrations/supabase/types';
+
+export type AppRole = 'super_admin' | 'club_poc' | 'student';
 
 export interface Profile {
   id: string;
@@ -16,15 +18,87 @@ export interface Club {
   created_at: string;
 }
 
+// Ordered: each role can do everything the ones before it can
+export type ClubRole = 'viewer' | 'editor' | 'owner';
+
+export interface ClubMembership {
+  id: string;
+  club_id: string;
+  user_id: string;
+  role: ClubRole;
+  created_at: string;
+  // Joined data
+  clubs?: Club;
+  profiles?: Profile;
+}
+
 export interface Venue {
   id: string;
   venue_name: string;
   capacity: number | null;
   location: string | null;
   available: boolean;
+  // Minutes kept free before and after every booking
+  setup_minutes: number;
+  teardown_minutes: number;
   created_at: string;
 }
 
+// Weekly opening hours; times are campus wall-clock (HH:mm:ss), weekday 0 = Sunday
+export interface VenueHours {
+  id: string;
+  venue_id: string;
+  weekday: number;
+  open_time: string;
+  close_time: string;
+  created_at: string;
+}
+
+export interface VenueBlackout {
+  id: string;
+  venue_id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Users who can approve or reject booking requests for a venue
+export interface VenueManager {
+  id: string;
+  venue_id: string;
+  user_id: string;
+  created_at: string;
+  // Joined data
+  profiles?: Profile;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired';
+
+// A club queued for a venue and time someone else has booked
+export interface VenueWaitlistEntry {
+  id: string;
+  venue_id: string;
+  club_id: string;
+  requested_by: string | null;
+  event_name: string;
+  starts_at: string;
+  ends_at: string;
+  status: WaitlistStatus;
+  offered_at: string | null;
+  // The slot is held for the club until then
+  offer_expires_at: string | null;
+  claimed_event_id: string | null;
+  notified_status: WaitlistStatus | null;
+  created_at: string;
+  // Joined data
+  venues?: Venue;
+  clubs?: Club;
+}
+
+export type ApprovalStatus = 'requested' | 'approved' | 'rejected';
+
 export interface Event {
   id: string;
   event_name: string;
@@ -36,12 +110,152 @@ export interface Event {
   registration_start: string;
   registration_end: string;
   is_open: boolean;
+  conflict_override: boolean;
+  // Per-event buffer overrides; null uses the venue's default
+  setup_minutes: number | null;
+  teardown_minutes: number | null;
+  // Seats offered, or teams at team events; null uses the venue's capacity
+  capacity: number | null;
+  // Questions asked when registering
+  registration_form: Json;
+  // Set for team events, which register and count teams instead of individuals
+  team_min_size: number | null;
+  team_max_size: number | null;
+  // Set when the event is one occurrence of a recurring series
+  series_id: string | null;
+  approval_status: ApprovalStatus;
+  // Given by the approver; required when rejecting
+  approval_reason: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  // When the event was first approved; null until then, and kept if approval is withdrawn
+  published_at: string | null;
+  // Goes up on every change calendars should pick up
+  sequence: number;
   created_by: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
   clubs?: Club;
   venues?: Venue;
+  event_series?: EventSeries | null;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface EventSeries {
+  id: string;
+  club_id: string;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  by_weekday: number[];
+  until_date: string | null;
+  occurrence_count: number | null;
+  exception_dates: string[];
+  rrule: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type FormFieldType = 'text' | 'select' | 'checkbox' | 'file';
+
+// One question on an event's registration form, stored in events.registration_form.
+// A type alias rather than an interface so it stays assignable to the column's Json type.
+export type RegistrationFormField = {
+  id: string;
+  type: FormFieldType;
+  label: string;
+  required: boolean;
+  help?: string;
+  // text
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  // select
+  options?: string[];
+  // file: comma-separated extensions or MIME types, as for <input accept>
+  accept?: string;
+  maxSizeMb?: number;
+};
+
+// Answers keyed by field id; uploaded files are stored as their storage path
+export type RegistrationResponses = Record<string, string | boolean>;
+
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+// An attendee's seat, or place on the event's waitlist once it's full
+export interface Registration {
+  id: string;
+  event_id: string;
+  user_id: string | null;
+  full_name: string;
+  email: string;
+  status: RegistrationStatus;
+  // Identifies the registration to whoever made it, signed in or not
+  cancel_token: string;
+  promoted_at: string | null;
+  cancelled_at: string | null;
+  notified_status: RegistrationStatus | null;
+  responses: RegistrationResponses;
+  // Set at team events
+  team_id: string | null;
+  checked_in_at: string | null;
+  checked_in_by: string | null;
+  created_at: string;
+}
+
+// A team at a team event; its members are registrations sharing its seat
+export interface Team {
+  id: string;
+  event_id: string;
+  name: string;
+  join_code: string;
+  status: RegistrationStatus;
+  captain_registration_id: string | null;
+  // Locked teams can't change members
+  locked_at: string | null;
+  promoted_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+}
+
+export type TeamMember = {
+  full_name: string;
+  email: string;
+  is_captain: boolean;
+};
+
+// A member's view of their own team, as get_team returns it (JSONB, hence a type alias)
+export type TeamDetails = {
+  id: string;
+  event_id: string;
+  name: string;
+  join_code: string;
+  status: RegistrationStatus;
+  locked_at: string | null;
+  is_captain: boolean;
+  members: TeamMember[];
+};
+
+export type CheckInOutcome = 'checked_in' | 'duplicate' | 'wrong_event' | 'not_confirmed' | 'invalid';
+
+// What the server made of a scanned ticket (check_in_ticket returns JSONB, hence a type alias)
+export type CheckInResult = {
+  result: CheckInOutcome;
+  registration_id?: string;
+  full_name?: string;
+  checked_in_at?: string;
+  // Set for wrong_event: the event the ticket belongs to
+  event_name?: string;
+};
+
+// Live seat counts for an event; capacity null means unlimited
+export interface EventSeats {
+  event_id: string;
+  capacity: number | null;
+  confirmed: number;
+  waitlisted: number;
 }
 
 export interface Notification {
@@ -50,6 +264,8 @@ export interface Notification {
   event_id: string;
   notified_at: string | null;
   status: 'pending' | 'sent';
+  // Set once the subscriber has an account with this email
+  user_id: string | null;
   created_at: string;
 }
 
@@ -59,6 +275,39 @@ export interface UserRole {
   role: AppRole;
 }
 
+export type RoleAuditFindingKind = 'self_assigned' | 'profile_mismatch' | 'missing_club' | 'missing_profile';
+
+// A staff role grant that wasn't verified, open until a super admin keeps or revokes it
+export interface RoleAuditFinding {
+  id: string;
+  user_id: string;
+  role: AppRole;
+  finding: RoleAuditFindingKind;
+  details: string | null;
+  found_at: string;
+  resolution: 'kept' | 'revoked' | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+// A single-use, expiring offer of a staff role to one email address
+export interface Invitation {
+  id: string;
+  code: string;
+  email: string;
+  role: Exclude<AppRole, 'student'>;
+  club_id: string | null;
+  // Role in the club once accepted
+  club_role: ClubRole;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+  // Joined data
+  clubs?: Club | null;
+}
+
 export interface ClashSuggestion {
   venue: Venue;
   availableSlots: { start: Date; end: Date }[];
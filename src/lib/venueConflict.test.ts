@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { campusDateKey, campusDateTime } from '@/lib/timezone';
+import { checkVenueConflict, freeGaps, heldInterval, intervalsOverlap, mergeIntervals } from '@/lib/venueConflict';
+
+type Row = Record<string, unknown>;
+
+// Rows per table that the fake client below serves
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Row[]> }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: (table: string) => fakeQuery(db.tables[table] ?? []) },
+}));
+
+// Just enough of the query builder for the conflict checks, applying each filter to the rows
+function fakeQuery(rows: Row[]) {
+  let result = rows;
+  const filter = (keep: (row: Row) => boolean) => {
+    result = result.filter(keep);
+    return query;
+  };
+  const time = (value: unknown) => new Date(value as string).getTime();
+
+  const query = {
+    select: () => query,
+    order: () => query,
+    eq: (column: string, value: unknown) => filter((row) => row[column] === value),
+    neq: (column: string, value: unknown) => filter((row) => row[column] !== value),
+    in: (column: string, values: unknown[]) => filter((row) => values.includes(row[column])),
+    lt: (column: string, value: string) => filter((row) => time(row[column]) < time(value)),
+    gt: (column: string, value: string) => filter((row) => time(row[column]) > time(value)),
+    then: (resolve: (response: { data: Row[]; error: null }) => unknown) => Promise.resolve({ data: result, error: null }).then(resolve),
+  };
+  return query;
+}
+
+const at = (iso: string) => new Date(iso);
+const span = (start: string, end: string) => ({ start: at(start), end: at(end) });
+
+describe('intervalsOverlap', () => {
+  it('catches an overnight event clashing after midnight', () => {
+    // 22:00 -> 02:00 the next day, then a 01:00 booking
+    expect(
+      intervalsOverlap(at('2026-03-10T22:00:00Z'), at('2026-03-11T02:00:00Z'), at('2026-03-11T01:00:00Z'), at('2026-03-11T03:00:00Z'))
+    ).toBe(true);
+    expect(
+      intervalsOverlap(at('2026-03-10T22:00:00Z'), at('2026-03-11T02:00:00Z'), at('2026-03-10T20:00:00Z'), at('2026-03-10T22:30:00Z'))
+    ).toBe(true);
+  });
+
+  it('treats back-to-back bookings as free', () => {
+    expect(
+      intervalsOverlap(at('2026-03-10T22:00:00Z'), at('2026-03-11T02:00:00Z'), at('2026-03-11T02:00:00Z'), at('2026-03-11T04:00:00Z'))
+    ).toBe(false);
+  });
+
+  it('catches a clash on the second day of a two-day event', () => {
+    const start = at('2026-03-10T09:00:00Z');
+    const end = at('2026-03-11T18:00:00Z');
+    expect(intervalsOverlap(start, end, at('2026-03-11T14:00:00Z'), at('2026-03-11T15:00:00Z'))).toBe(true);
+    expect(intervalsOverlap(start, end, at('2026-03-12T09:00:00Z'), at('2026-03-12T10:00:00Z'))).toBe(false);
+  });
+
+  it('compares instants, not campus or UTC calendar days', () => {
+    // 23:00 -> 01:00 on campus is the same UTC day; 03:00 -> 07:00 on campus crosses UTC midnight
+    const campusOvernightStart = campusDateTime('2026-03-10', '23:00');
+    const campusOvernightEnd = campusDateTime('2026-03-11', '01:00');
+    const utcOvernightStart = campusDateTime('2026-03-11', '03:00');
+    const utcOvernightEnd = campusDateTime('2026-03-11', '07:00');
+
+    expect(campusDateKey(campusOvernightStart)).not.toBe(campusDateKey(campusOvernightEnd));
+    expect(campusOvernightStart.toISOString().slice(0, 10)).toBe(campusOvernightEnd.toISOString().slice(0, 10));
+    expect(utcOvernightStart.toISOString().slice(0, 10)).not.toBe(utcOvernightEnd.toISOString().slice(0, 10));
+
+    expect(
+      intervalsOverlap(campusOvernightStart, campusOvernightEnd, campusDateTime('2026-03-11', '00:30'), campusDateTime('2026-03-11', '02:00'))
+    ).toBe(true);
+    expect(intervalsOverlap(campusOvernightStart, campusOvernightEnd, utcOvernightStart, utcOvernightEnd)).toBe(false);
+  });
+});
+
+describe('mergeIntervals', () => {
+  it('joins an overnight event with the booking that follows it into one block', () => {
+    expect(
+      mergeIntervals([
+        span('2026-03-11T02:00:00Z', '2026-03-11T04:00:00Z'),
+        span('2026-03-10T22:00:00Z', '2026-03-11T02:00:00Z'),
+      ])
+    ).toEqual([span('2026-03-10T22:00:00Z', '2026-03-11T04:00:00Z')]);
+  });
+
+  it('absorbs bookings inside a multi-day event', () => {
+    expect(
+      mergeIntervals([
+        span('2026-03-10T09:00:00Z', '2026-03-11T18:00:00Z'),
+        span('2026-03-11T14:00:00Z', '2026-03-11T15:00:00Z'),
+        span('2026-03-12T09:00:00Z', '2026-03-12T10:00:00Z'),
+      ])
+    ).toEqual([span('2026-03-10T09:00:00Z', '2026-03-11T18:00:00Z'), span('2026-03-12T09:00:00Z', '2026-03-12T10:00:00Z')]);
+  });
+
+  it('leaves its input untouched', () => {
+    const input = [span('2026-03-10T10:00:00Z', '2026-03-10T12:00:00Z'), span('2026-03-10T11:00:00Z', '2026-03-10T13:00:00Z')];
+    mergeIntervals(input);
+    expect(input[0].end).toEqual(at('2026-03-10T12:00:00Z'));
+  });
+});
+
+describe('freeGaps', () => {
+  it('starts the next day after an overnight event', () => {
+    const dayStart = campusDateTime('2026-03-11');
+    const dayEnd = campusDateTime('2026-03-12');
+    const overnight = { start: campusDateTime('2026-03-10', '22:00'), end: campusDateTime('2026-03-11', '02:00') };
+
+    expect(freeGaps([overnight], dayStart, dayEnd)).toEqual([{ start: overnight.end, end: dayEnd }]);
+  });
+
+  it('leaves no gap on a day a multi-day event covers', () => {
+    const twoDays = { start: campusDateTime('2026-03-10', '09:00'), end: campusDateTime('2026-03-12', '09:00') };
+
+    expect(freeGaps([twoDays], campusDateTime('2026-03-11'), campusDateTime('2026-03-12'))).toEqual([]);
+  });
+
+  it('splits the day around bookings', () => {
+    const from = at('2026-03-10T08:00:00Z');
+    const to = at('2026-03-10T20:00:00Z');
+
+    expect(freeGaps([span('2026-03-10T10:00:00Z', '2026-03-10T12:00:00Z')], from, to)).toEqual([
+      { start: from, end: at('2026-03-10T10:00:00Z') },
+      { start: at('2026-03-10T12:00:00Z'), end: to },
+    ]);
+  });
+});
+
+describe('heldInterval', () => {
+  it('widens an overnight event by its buffers', () => {
+    expect(heldInterval(at('2026-03-10T22:00:00Z'), at('2026-03-11T02:00:00Z'), 30, 45)).toEqual(
+      span('2026-03-10T21:30:00Z', '2026-03-11T02:45:00Z')
+    );
+  });
+
+  it('lets a teardown reach into the next booking', () => {
+    const held = heldInterval(at('2026-03-10T22:00:00Z'), at('2026-03-11T02:00:00Z'), 0, 30);
+    expect(intervalsOverlap(held.start, held.end, at('2026-03-11T02:15:00Z'), at('2026-03-11T03:00:00Z'))).toBe(true);
+  });
+});
+
+describe('checkVenueConflict', () => {
+  const booking = (id: string, start: Date, end: Date) => ({
+    id,
+    event_name: id,
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    venue_id: 'hall',
+    setup_minutes: null,
+    teardown_minutes: null,
+    approval_status: 'approved',
+    clubs: { club_name: 'Robotics Club' },
+  });
+  const check = (start: Date, end: Date) => checkVenueConflict('hall', start.toISOString(), end.toISOString());
+
+  beforeEach(() => {
+    db.tables = {
+      venues: [{ id: 'hall', venue_name: 'Main Hall', capacity: 100, available: true, setup_minutes: 0, teardown_minutes: 0 }],
+      // Open around the clock, so only bookings can clash
+      venue_hours: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ venue_id: 'hall', weekday, open_time: '00:00:00', close_time: '24:00:00' })),
+      venue_blackouts: [],
+      events: [],
+    };
+  });
+
+  it('sees an overnight event that started the evening before', async () => {
+    db.tables.events = [booking('overnight', campusDateTime('2026-03-10', '22:00'), campusDateTime('2026-03-11', '02:00'))];
+
+    const result = await check(campusDateTime('2026-03-11', '00:30'), campusDateTime('2026-03-11', '01:30'));
+
+    expect(result.hasConflict).toBe(true);
+    expect(result.conflictingEvents.map((event) => event.id)).toEqual(['overnight']);
+  });
+
+  it('sees the second day of a multi-day event', async () => {
+    db.tables.events = [booking('fest', campusDateTime('2026-03-10', '09:00'), campusDateTime('2026-03-12', '18:00'))];
+
+    const result = await check(campusDateTime('2026-03-11', '14:00'), campusDateTime('2026-03-11', '15:00'));
+
+    expect(result.hasConflict).toBe(true);
+    expect(result.conflictingEvents.map((event) => event.id)).toEqual(['fest']);
+  });
+
+  it('finds the venue free once the multi-day event is over', async () => {
+    db.tables.events = [booking('fest', campusDateTime('2026-03-10', '09:00'), campusDateTime('2026-03-12', '18:00'))];
+
+    const result = await check(campusDateTime('2026-03-13', '10:00'), campusDateTime('2026-03-13', '12:00'));
+
+    expect(result.hasConflict).toBe(false);
+  });
+});
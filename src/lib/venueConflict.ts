@@ -1,4 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
+import { ClashSuggestion, Venue } from '@/lib/types';
+import { campusDateKey, campusDateTime, shiftDateKey } from '@/lib/timezone';
+import {
+  BlockedPeriod,
+  fetchVenueSchedules,
+  findBlockedPeriods,
+  openingWindow,
+  VenueSchedule,
+} from '@/lib/venueSchedule';
 
 export interface ConflictEvent {
   id: string;
@@ -6,38 +15,178 @@ export interface ConflictEvent {
   start_time: string;
   end_time: string;
   venue_id: string;
+  setup_minutes: number | null;
+  teardown_minutes: number | null;
   clubs: {
     club_name: string;
   };
+  // The events themselves don't overlap; only the setup/teardown buffers do
+  bufferOnly: boolean;
 }
 
-export interface TimeSlot {
-  start_time: string;
-  end_time: string;
-  available: boolean;
+// Per-event buffer overrides; null or missing uses the venue's default
+export interface BufferOverrides {
+  setup_minutes?: number | null;
+  teardown_minutes?: number | null;
 }
 
+export type SuggestedSlot = ClashSuggestion['availableSlots'][number];
+
 export interface ConflictCheck {
   hasConflict: boolean;
   conflictingEvents: ConflictEvent[];
-  suggestedSlots: TimeSlot[];
+  // Blackouts and closed hours the requested time runs into
+  blockedPeriods: BlockedPeriod[];
+  // Alternatives grouped by venue, best venue first
+  suggestions: ClashSuggestion[];
 }
 
-export async function checkVenueConflict(
+// One booking of a series to check; eventId is set when it already exists
+export interface PlannedOccurrence {
+  start: Date;
+  end: Date;
+  eventId?: string;
+}
+
+export interface OccurrenceConflict extends PlannedOccurrence {
+  hasConflict: boolean;
+  conflictingEvents: ConflictEvent[];
+  blockedPeriods: BlockedPeriod[];
+}
+
+// How far either side of the requested day to look for alternatives
+const SUGGESTION_DAY_RANGE = 3;
+const MAX_SUGGESTED_VENUES = 4;
+const MAX_SLOTS_PER_VENUE = 3;
+
+// Upper bound on any setup/teardown buffer (matches the database check)
+export const MAX_BUFFER_MINUTES = 240;
+const MINUTE = 60 * 1000;
+// Bookings further than this from a request can't reach it even with buffers on both sides
+const BUFFER_REACH = 2 * MAX_BUFFER_MINUTES * MINUTE;
+
+// Exclusion constraint on events that rejects overlapping bookings at a venue
+export const VENUE_OVERLAP_CONSTRAINT = 'events_no_venue_overlap';
+
+/**
+ * Raised when the database rejects a booking for overlapping another one,
+ * carrying the same details the pre-submit check gives VenueConflictModal.
+ */
+export class VenueConflictError extends Error {
+  conflict: ConflictCheck;
+
+  constructor(conflict: ConflictCheck) {
+    super('The selected venue is already booked for this time');
+    this.name = 'VenueConflictError';
+    this.conflict = conflict;
+  }
+}
+
+export function isVenueConflictError(error: { code?: string; message?: string } | null) {
+  // 23P01 = exclusion_violation
+  return error?.code === '23P01' && !!error.message?.includes(VENUE_OVERLAP_CONSTRAINT);
+}
+
+/**
+ * Turns a failed insert/update into a VenueConflictError when the overlap
+ * constraint caused it, re-reading the clashing events so the modal can show them.
+ */
+export async function toVenueConflictError(
+  error: { code?: string; message?: string } | null,
   venueId: string,
   startTime: string,
   endTime: string,
-  excludeEventId?: string
-): Promise<ConflictCheck> {
-  // Convert to Date objects for comparison
-  const newStart = new Date(startTime);
-  const newEnd = new Date(endTime);
-  
-  // Get the date for the event to check conflicts on the same day
-  const eventDate = newStart.toISOString().split('T')[0];
-  
-  // Query for overlapping events at the same venue on the same date
-  let query = supabase
+  excludeEventId?: string,
+  buffers: BufferOverrides = {}
+): Promise<VenueConflictError | null> {
+  if (!isVenueConflictError(error)) return null;
+
+  // The constraint already settled it; without the details the modal just has less to show
+  const conflict = await checkVenueConflict(venueId, startTime, endTime, excludeEventId, buffers).catch(
+    () => ({ hasConflict: true, conflictingEvents: [], blockedPeriods: [], suggestions: [] })
+  );
+  return new VenueConflictError({ ...conflict, hasConflict: true });
+}
+
+/**
+ * Half-open interval overlap: [aStart, aEnd) and [bStart, bEnd) share time.
+ * Back-to-back bookings (one ends exactly when the next starts) don't overlap.
+ */
+export function intervalsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Collapses overlapping or touching intervals into a sorted list of busy
+ * blocks, so events running past midnight or across days act as one block.
+ */
+export function mergeIntervals(intervals: { start: Date; end: Date }[]) {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: { start: Date; end: Date }[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Free stretches of [from, to) left between busy intervals, in order.
+ */
+export function freeGaps(busy: { start: Date; end: Date }[], from: Date, to: Date) {
+  const gaps: { start: Date; end: Date }[] = [];
+  let cursor = from;
+
+  for (const block of mergeIntervals(busy)) {
+    if (block.end <= cursor) continue;
+    if (block.start >= to) break;
+    if (block.start > cursor) gaps.push({ start: cursor, end: block.start });
+    cursor = block.end;
+  }
+  if (cursor < to) gaps.push({ start: cursor, end: to });
+
+  return gaps;
+}
+
+/**
+ * The stretch a booking holds the venue for: the event widened by its
+ * setup and teardown minutes.
+ */
+export function heldInterval(start: Date, end: Date, setupMinutes: number, teardownMinutes: number) {
+  return {
+    start: new Date(start.getTime() - setupMinutes * MINUTE),
+    end: new Date(end.getTime() + teardownMinutes * MINUTE),
+  };
+}
+
+type BookedEvent = Omit<ConflictEvent, 'bufferOnly'>;
+
+interface VenueBookings {
+  events: BookedEvent[];
+  setupMinutes: number;
+  teardownMinutes: number;
+  schedule: VenueSchedule | null;
+}
+
+/**
+ * Everything needed to judge requests at each venue within [rangeStart, rangeEnd):
+ * bookings whose held interval could reach the range, default buffers and
+ * the opening schedule. Null when the bookings or venues can't be read.
+ */
+async function loadVenueBookings(
+  venueIds: string[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  excludeEventIds: string[]
+): Promise<Record<string, VenueBookings> | null> {
+  // Any event at the venues whose held interval could reach the range, whatever day it started
+  const query = supabase
     .from('events')
     .select(`
       id,
@@ -45,150 +194,312 @@ export async function checkVenueConflict(
       start_time,
       end_time,
       venue_id,
+      setup_minutes,
+      teardown_minutes,
       clubs!inner(club_name)
     `)
-    .eq('venue_id', venueId)
-    .gte('start_time', `${eventDate}T00:00:00`)
-    .lt('start_time', `${eventDate}T23:59:59`);
-  
-  if (excludeEventId) {
-    query = query.neq('id', excludeEventId);
+    .in('venue_id', venueIds)
+    // Rejected requests no longer hold the venue
+    .neq('approval_status', 'rejected')
+    .lt('start_time', new Date(rangeEnd.getTime() + BUFFER_REACH).toISOString())
+    .gt('end_time', new Date(rangeStart.getTime() - BUFFER_REACH).toISOString());
+
+  const [{ data: existingEvents, error }, { data: venueRows, error: venueError }, schedules] = await Promise.all([
+    query,
+    supabase.from('venues').select('id, setup_minutes, teardown_minutes').in('id', venueIds),
+    fetchVenueSchedules(venueIds, rangeStart, rangeEnd),
+  ]);
+
+  if (error || venueError) {
+    console.error('Error checking venue conflicts:', error || venueError);
+    return null;
   }
-  
-  const { data: existingEvents, error } = await query;
-  
-  if (error) {
-    console.error('Error checking venue conflicts:', error);
-    return {
-      hasConflict: false,
-      conflictingEvents: [],
-      suggestedSlots: []
+
+  const bookings: Record<string, VenueBookings> = {};
+  for (const venueId of venueIds) {
+    const venue = venueRows?.find(v => v.id === venueId);
+    bookings[venueId] = {
+      events: (existingEvents || []).filter(event => event.venue_id === venueId && !excludeEventIds.includes(event.id)),
+      setupMinutes: venue?.setup_minutes ?? 0,
+      teardownMinutes: venue?.teardown_minutes ?? 0,
+      schedule: schedules ? schedules[venueId] : null,
     };
   }
-  
-  const conflictingEvents: ConflictEvent[] = [];
-  
-  // Check for time overlaps
-  existingEvents?.forEach(event => {
-    const existingStart = new Date(event.start_time);
-    const existingEnd = new Date(event.end_time);
-    
-    // Check if events overlap
-    if (
-      (newStart >= existingStart && newStart < existingEnd) || // New event starts during existing event
-      (newEnd > existingStart && newEnd <= existingEnd) || // New event ends during existing event
-      (newStart <= existingStart && newEnd >= existingEnd) || // New event completely encompasses existing event
-      (newStart >= existingStart && newEnd <= existingEnd) // New event is completely within existing event
-    ) {
-      conflictingEvents.push(event as ConflictEvent);
-    }
-  });
+
+  return bookings;
+}
+
+// Bookings and closed periods that [start, end) runs into at an already loaded venue
+function findConflicts(
+  venueId: string,
+  bookings: VenueBookings,
+  start: Date,
+  end: Date,
+  buffers: BufferOverrides
+) {
+  const requested = heldInterval(
+    start,
+    end,
+    buffers.setup_minutes ?? bookings.setupMinutes,
+    buffers.teardown_minutes ?? bookings.teardownMinutes
+  );
+
+  const conflictingEvents: ConflictEvent[] = bookings.events
+    .filter(event => {
+      const held = heldInterval(
+        new Date(event.start_time),
+        new Date(event.end_time),
+        event.setup_minutes ?? bookings.setupMinutes,
+        event.teardown_minutes ?? bookings.teardownMinutes
+      );
+      return intervalsOverlap(requested.start, requested.end, held.start, held.end);
+    })
+    .map(event => ({
+      ...event,
+      bufferOnly: !intervalsOverlap(start, end, new Date(event.start_time), new Date(event.end_time)),
+    }));
+
+  const blockedPeriods = bookings.schedule
+    ? findBlockedPeriods(venueId, bookings.schedule, start, end)
+    : [];
+
+  return { conflictingEvents, blockedPeriods };
+}
+
+export async function checkVenueConflict(
+  venueId: string,
+  startTime: string,
+  endTime: string,
+  excludeEventId?: string,
+  buffers: BufferOverrides = {}
+): Promise<ConflictCheck> {
+  // Convert to Date objects for comparison
+  const newStart = new Date(startTime);
+  const newEnd = new Date(endTime);
+
+  const loaded = await loadVenueBookings([venueId], newStart, newEnd, excludeEventId ? [excludeEventId] : []);
+  const bookings = loaded?.[venueId];
+  // Not knowing the bookings isn't the same as the venue being free
+  if (!bookings) {
+    throw new Error('Failed to load venue bookings');
+  }
+
+  const { conflictingEvents, blockedPeriods } = findConflicts(venueId, bookings, newStart, newEnd, buffers);
+  const hasConflict = conflictingEvents.length > 0 || blockedPeriods.length > 0;
   
   // Generate suggested slots if there are conflicts
-  const suggestedSlots = conflictingEvents.length > 0 
-    ? await generateSuggestedSlots(venueId, eventDate, newStart, newEnd, existingEvents || [])
+  const suggestions = hasConflict 
+    ? await generateSuggestedSlots(venueId, newStart, newEnd, excludeEventId, buffers)
     : [];
   
   return {
-    hasConflict: conflictingEvents.length > 0,
+    hasConflict,
     conflictingEvents,
-    suggestedSlots
+    blockedPeriods,
+    suggestions
   };
 }
 
+/**
+ * Checks every occurrence of a series against the venue in one pass. The
+ * occurrences' own current bookings (eventId) are ignored, so moving a series
+ * doesn't clash with where it used to be.
+ */
+export async function checkSeriesConflicts(
+  venueId: string,
+  occurrences: PlannedOccurrence[],
+  buffers: BufferOverrides = {}
+): Promise<OccurrenceConflict[]> {
+  if (occurrences.length === 0) return [];
+
+  const rangeStart = new Date(Math.min(...occurrences.map(o => o.start.getTime())));
+  const rangeEnd = new Date(Math.max(...occurrences.map(o => o.end.getTime())));
+  const ownIds = occurrences.flatMap(o => (o.eventId ? [o.eventId] : []));
+
+  const loaded = await loadVenueBookings([venueId], rangeStart, rangeEnd, ownIds);
+  const bookings = loaded?.[venueId];
+  if (!bookings) {
+    throw new Error('Failed to load venue bookings');
+  }
+
+  return occurrences.map(occurrence => {
+    const { conflictingEvents, blockedPeriods } = findConflicts(
+      venueId,
+      bookings,
+      occurrence.start,
+      occurrence.end,
+      buffers
+    );
+    return {
+      ...occurrence,
+      hasConflict: conflictingEvents.length > 0 || blockedPeriods.length > 0,
+      conflictingEvents,
+      blockedPeriods,
+    };
+  });
+}
+
+/**
+ * Which venues could take [startTime, endTime) as things stand, keyed by
+ * venue id, for marking free venues before anything is submitted.
+ */
+export async function getVenueAvailability(
+  venueIds: string[],
+  startTime: string,
+  endTime: string,
+  excludeEventId?: string,
+  buffers: BufferOverrides = {}
+): Promise<Record<string, boolean>> {
+  if (venueIds.length === 0) return {};
+
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const loaded = await loadVenueBookings(venueIds, start, end, excludeEventId ? [excludeEventId] : []);
+  if (!loaded) {
+    throw new Error('Failed to load venue bookings');
+  }
+
+  const availability: Record<string, boolean> = {};
+  for (const venueId of venueIds) {
+    const { conflictingEvents, blockedPeriods } = findConflicts(venueId, loaded[venueId], start, end, buffers);
+    availability[venueId] = conflictingEvents.length === 0 && blockedPeriods.length === 0;
+  }
+
+  return availability;
+}
+
+/**
+ * For each free gap inside [windowStart, windowEnd) that fits the duration,
+ * returns the slot whose start is closest to the target start.
+ */
+export function findFreeSlots(
+  busy: { start: Date; end: Date }[],
+  windowStart: Date,
+  windowEnd: Date,
+  duration: number,
+  target: Date
+): SuggestedSlot[] {
+  const slots: SuggestedSlot[] = [];
+  let cursor = windowStart.getTime();
+
+  const blocks = mergeIntervals(busy).filter(block => block.end > windowStart && block.start < windowEnd);
+
+  for (const block of [...blocks, { start: windowEnd, end: windowEnd }]) {
+    const gapEnd = Math.min(block.start.getTime(), windowEnd.getTime());
+    const latestStart = gapEnd - duration;
+
+    if (latestStart >= cursor) {
+      const start = Math.min(Math.max(target.getTime(), cursor), latestStart);
+      slots.push({ start: new Date(start), end: new Date(start + duration) });
+    }
+    cursor = Math.max(cursor, block.end.getTime());
+  }
+
+  return slots;
+}
+
+/**
+ * Ranks alternatives at the requested venue and at other available venues
+ * with at least its capacity, over nearby campus days, inside each venue's
+ * opening hours and clear of its blackouts and everyone's setup/teardown
+ * buffers. Slots closest to the requested
+ * start come first; ties favour keeping the requested venue.
+ */
 async function generateSuggestedSlots(
   venueId: string,
-  eventDate: string,
   requestedStart: Date,
   requestedEnd: Date,
-  existingEvents: any[]
-): Promise<TimeSlot[]> {
-  const suggestions: TimeSlot[] = [];
+  excludeEventId?: string,
+  buffers: BufferOverrides = {}
+): Promise<ClashSuggestion[]> {
   const eventDuration = requestedEnd.getTime() - requestedStart.getTime();
-  
-  // Define working hours (9 AM to 9 PM)
-  const dayStart = new Date(`${eventDate}T09:00:00`);
-  const dayEnd = new Date(`${eventDate}T21:00:00`);
-  
-  // Sort existing events by start time
-  const sortedEvents = existingEvents
-    .map(event => ({
-      start: new Date(event.start_time),
-      end: new Date(event.end_time)
-    }))
-    .sort((a, b) => a.start.getTime() - b.start.getTime());
-  
-  // Check slot before first event
-  if (sortedEvents.length > 0) {
-    const firstEvent = sortedEvents[0];
-    const availableEnd = new Date(firstEvent.start.getTime());
-    
-    if (dayStart.getTime() + eventDuration <= availableEnd.getTime()) {
-      const slotStart = new Date(dayStart);
-      const slotEnd = new Date(dayStart.getTime() + eventDuration);
-      
-      suggestions.push({
-        start_time: slotStart.toISOString(),
-        end_time: slotEnd.toISOString(),
-        available: true
-      });
-    }
-  }
-  
-  // Check slots between events
-  for (let i = 0; i < sortedEvents.length - 1; i++) {
-    const currentEventEnd = sortedEvents[i].end;
-    const nextEventStart = sortedEvents[i + 1].start;
-    
-    const availableDuration = nextEventStart.getTime() - currentEventEnd.getTime();
-    
-    if (availableDuration >= eventDuration) {
-      suggestions.push({
-        start_time: currentEventEnd.toISOString(),
-        end_time: new Date(currentEventEnd.getTime() + eventDuration).toISOString(),
-        available: true
-      });
-    }
+  const eventDate = campusDateKey(requestedStart);
+
+  const { data: venueRows, error: venuesError } = await supabase.from('venues').select('*');
+  if (venuesError || !venueRows) {
+    console.error('Error fetching venues for suggestions:', venuesError);
+    return [];
   }
-  
-  // Check slot after last event
-  if (sortedEvents.length > 0) {
-    const lastEvent = sortedEvents[sortedEvents.length - 1];
-    const availableStart = new Date(lastEvent.end);
-    
-    if (availableStart.getTime() + eventDuration <= dayEnd.getTime()) {
-      const slotEnd = new Date(availableStart.getTime() + eventDuration);
-      
-      suggestions.push({
-        start_time: availableStart.toISOString(),
-        end_time: slotEnd.toISOString(),
-        available: true
-      });
-    }
+
+  const venues = venueRows as Venue[];
+  const requestedVenue = venues.find(v => v.id === venueId);
+  const neededCapacity = requestedVenue?.capacity ?? 0;
+
+  const candidates = venues.filter(v =>
+    v.id === venueId || (v.available !== false && (v.capacity ?? 0) >= neededCapacity)
+  );
+
+  const rangeStart = campusDateTime(shiftDateKey(eventDate, -SUGGESTION_DAY_RANGE));
+  const rangeEnd = campusDateTime(shiftDateKey(eventDate, SUGGESTION_DAY_RANGE + 1));
+
+  let query = supabase
+    .from('events')
+    .select('id, venue_id, start_time, end_time, setup_minutes, teardown_minutes')
+    .in('venue_id', candidates.map(v => v.id))
+    .neq('approval_status', 'rejected')
+    .lt('start_time', new Date(rangeEnd.getTime() + BUFFER_REACH).toISOString())
+    .gt('end_time', new Date(rangeStart.getTime() - BUFFER_REACH).toISOString());
+
+  if (excludeEventId) {
+    query = query.neq('id', excludeEventId);
   }
-  
-  // If no existing events, suggest the requested time if within working hours
-  if (sortedEvents.length === 0) {
-    const requestedStartTime = requestedStart.getTime();
-    const requestedEndTime = requestedEnd.getTime();
-    
-    if (requestedStartTime >= dayStart.getTime() && requestedEndTime <= dayEnd.getTime()) {
-      suggestions.push({
-        start_time: dayStart.toISOString(),
-        end_time: new Date(dayStart.getTime() + eventDuration).toISOString(),
-        available: true
-      });
-    }
+
+  const [{ data: bookedEvents, error }, schedules] = await Promise.all([
+    query,
+    fetchVenueSchedules(candidates.map(v => v.id), rangeStart, rangeEnd),
+  ]);
+  if (error || !schedules) {
+    console.error('Error fetching bookings for suggestions:', error);
+    return [];
   }
-  
-  // Limit to 3 suggestions and ensure they're within working hours
-  return suggestions
-    .filter(slot => {
-      const start = new Date(slot.start_time);
-      const end = new Date(slot.end_time);
-      return start >= dayStart && end <= dayEnd;
+
+  const distance = (slot: SuggestedSlot) => Math.abs(slot.start.getTime() - requestedStart.getTime());
+
+  const ranked = candidates
+    .map(venue => {
+      const { hours, blackouts } = schedules[venue.id];
+      const ownSetup = buffers.setup_minutes ?? venue.setup_minutes ?? 0;
+      const ownTeardown = buffers.teardown_minutes ?? venue.teardown_minutes ?? 0;
+
+      // Widen each booking by its own buffers plus ours, so a free slot leaves room for both
+      const busy = [
+        ...(bookedEvents || [])
+          .filter(event => event.venue_id === venue.id)
+          .map(event => heldInterval(
+            new Date(event.start_time),
+            new Date(event.end_time),
+            (event.setup_minutes ?? venue.setup_minutes ?? 0) + ownTeardown,
+            (event.teardown_minutes ?? venue.teardown_minutes ?? 0) + ownSetup
+          )),
+        ...blackouts.map(blackout => ({ start: new Date(blackout.starts_at), end: new Date(blackout.ends_at) })),
+      ];
+
+      const slots: SuggestedSlot[] = [];
+      for (let offset = -SUGGESTION_DAY_RANGE; offset <= SUGGESTION_DAY_RANGE; offset++) {
+        const day = shiftDateKey(eventDate, offset);
+        // Venue's opening hours that day; the target keeps the requested time of day
+        const window = openingWindow(hours, day);
+        if (!window) continue;
+        const target = new Date(requestedStart.getTime() + offset * 24 * 60 * 60 * 1000);
+
+        slots.push(...findFreeSlots(busy, window.start, window.end, eventDuration, target));
+      }
+
+      const availableSlots = slots
+        .filter(slot => slot.start >= new Date())
+        .sort((a, b) => distance(a) - distance(b))
+        .slice(0, MAX_SLOTS_PER_VENUE);
+
+      return { venue, availableSlots };
     })
-    .slice(0, 3);
+    .filter(suggestion => suggestion.availableSlots.length > 0);
+
+  return ranked
+    .sort((a, b) =>
+      distance(a.availableSlots[0]) - distance(b.availableSlots[0]) ||
+      Number(b.venue.id === venueId) - Number(a.venue.id === venueId)
+    )
+    .slice(0, MAX_SUGGESTED_VENUES);
 }
 
 export async function getVenues() {
@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { VenueBlackout, VenueHours } from '@/lib/types';
+import { campusDateKey, campusDateTime, formatCampus, shiftDateKey } from '@/lib/timezone';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface VenueSchedule {
+  hours: VenueHours[];
+  blackouts: VenueBlackout[];
+}
+
+// A stretch of time a venue can't be booked, with the reason shown to organisers
+export interface BlockedPeriod {
+  venue_id: string;
+  start: Date;
+  end: Date;
+  reason: string;
+}
+
+// Weekday (0 = Sunday) of a campus YYYY-MM-DD key
+export function weekdayOf(dateKey: string) {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+// Postgres TIME ('HH:mm:ss', '24:00:00' for midnight at close) on a campus date -> instant
+function campusTimeOn(dateKey: string, time: string) {
+  const hhmm = time.slice(0, 5);
+  return hhmm === '24:00' ? campusDateTime(shiftDateKey(dateKey, 1)) : campusDateTime(dateKey, hhmm);
+}
+
+/**
+ * When the venue is open on a campus date, or null if it has no hours that
+ * weekday (closed).
+ */
+export function openingWindow(hours: VenueHours[], dateKey: string) {
+  const day = hours.find(h => h.weekday === weekdayOf(dateKey));
+  if (!day) return null;
+
+  return {
+    start: campusTimeOn(dateKey, day.open_time),
+    end: campusTimeOn(dateKey, day.close_time),
+  };
+}
+
+/**
+ * Loads weekly hours and the blackouts overlapping [rangeStart, rangeEnd) for
+ * each venue. Returns null when the schedule can't be read, so callers can
+ * fall back to event overlaps only.
+ */
+export async function fetchVenueSchedules(
+  venueIds: string[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<Record<string, VenueSchedule> | null> {
+  const [hoursResult, blackoutsResult] = await Promise.all([
+    supabase.from('venue_hours').select('*').in('venue_id', venueIds),
+    supabase
+      .from('venue_blackouts')
+      .select('*')
+      .in('venue_id', venueIds)
+      .lt('starts_at', rangeEnd.toISOString())
+      .gt('ends_at', rangeStart.toISOString()),
+  ]);
+
+  if (hoursResult.error || blackoutsResult.error) {
+    console.error('Error fetching venue schedules:', hoursResult.error || blackoutsResult.error);
+    return null;
+  }
+
+  const schedules: Record<string, VenueSchedule> = {};
+  for (const venueId of venueIds) {
+    schedules[venueId] = {
+      hours: (hoursResult.data || []).filter(h => h.venue_id === venueId),
+      blackouts: (blackoutsResult.data || []).filter(b => b.venue_id === venueId),
+    };
+  }
+
+  return schedules;
+}
+
+/**
+ * Parts of [start, end) the venue can't be booked for: blackouts, closed
+ * weekdays and the hours before opening or after closing on each campus day.
+ */
+export function findBlockedPeriods(
+  venueId: string,
+  schedule: VenueSchedule,
+  start: Date,
+  end: Date
+): BlockedPeriod[] {
+  const blocked: BlockedPeriod[] = [];
+
+  const addClipped = (from: Date, to: Date, reason: string) => {
+    const clippedStart = from > start ? from : start;
+    const clippedEnd = to < end ? to : end;
+    if (clippedStart < clippedEnd) {
+      blocked.push({ venue_id: venueId, start: clippedStart, end: clippedEnd, reason });
+    }
+  };
+
+  for (const blackout of schedule.blackouts) {
+    addClipped(new Date(blackout.starts_at), new Date(blackout.ends_at), blackout.reason);
+  }
+
+  const lastDay = campusDateKey(new Date(end.getTime() - 1));
+  for (let day = campusDateKey(start); day <= lastDay; day = shiftDateKey(day, 1)) {
+    const dayStart = campusDateTime(day);
+    const nextDayStart = campusDateTime(shiftDateKey(day, 1));
+    const window = openingWindow(schedule.hours, day);
+
+    if (!window) {
+      addClipped(dayStart, nextDayStart, `Closed on ${WEEKDAYS[weekdayOf(day)]}s`);
+      continue;
+    }
+
+    const reason = `Outside opening hours (${formatCampus(window.start, 'h:mm a')} - ${formatCampus(window.end, 'h:mm a')})`;
+    addClipped(dayStart, window.start, reason);
+    addClipped(window.end, nextDayStart, reason);
+  }
+
+  return blocked.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
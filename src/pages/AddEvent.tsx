@@ -1,174 +1,140 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { z } from 'zod';
+import { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Navbar } from '@/components/layout/Navbar';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { VenueConflictModal } from '@/components/events/VenueConflictModal';
-import { checkVenueConflict, ConflictEvent, TimeSlot } from '@/lib/venueConflict';
-import { Calendar, Clock, MapPin, Users, ArrowLeft } from 'lucide-react';
-
-const eventSchema = z.object({
-  event_name: z.string().min(3, 'Event name must be at least 3 characters'),
-  description: z.string().optional(),
-  venue_id: z.string().min(1, 'Please select a venue'),
-  start_time: z.string().min(1, 'Start time is required'),
-  end_time: z.string().min(1, 'End time is required'),
-  registration_start: z.string().min(1, 'Registration start is required'),
-  registration_end: z.string().min(1, 'Registration end is required'),
-  is_open: z.boolean(),
-});
+import { EventForm, EventSubmitOptions } from '@/components/events/EventForm';
+import { EventFormValues, emptyEventForm, formatDateTimeLocal, toEventPayload } from '@/lib/eventValidation';
+import { isVenueConflictError, toVenueConflictError, VenueConflictError } from '@/lib/venueConflict';
+import { buildOccurrences, RecurrenceRule, toSeriesRow } from '@/lib/recurrence';
+import { campusDateKey, parseCampusDateTime, shiftDateKey } from '@/lib/timezone';
+import { ArrowLeft, FileUp } from 'lucide-react';
+
+const HOUR = 60 * 60 * 1000;
+
+// Set default dates (tomorrow, campus time), or from ?start= (and ?end=) when picked on the calendar or waitlist
+function defaultFormValues(params: URLSearchParams): EventFormValues {
+  const start = params.get('start');
+  const end = params.get('end');
+  const venueId = params.get('venue');
+  const startAt = start ? parseCampusDateTime(start) : null;
+  const endAt = end ? parseCampusDateTime(end) : null;
+
+  if (startAt && !isNaN(startAt.getTime()) && startAt > new Date()) {
+    // Registration closes an hour before, or at the start if that's already too soon
+    const registrationEnd = new Date(Math.max(startAt.getTime() - HOUR, Date.now() + HOUR / 4));
+
+    return {
+      ...emptyEventForm,
+      event_name: params.get('name') || '',
+      club_id: params.get('club') || '',
+      venue_id: venueId || '',
+      start_time: formatDateTimeLocal(startAt),
+      end_time: formatDateTimeLocal(
+        endAt && !isNaN(endAt.getTime()) && endAt > startAt ? endAt : new Date(startAt.getTime() + HOUR)
+      ),
+      registration_start: formatDateTimeLocal(new Date()),
+      registration_end: formatDateTimeLocal(new Date(Math.min(registrationEnd.getTime(), startAt.getTime()))),
+    };
+  }
+
+  const tomorrow = shiftDateKey(campusDateKey(new Date()), 1);
+
+  return {
+    ...emptyEventForm,
+    venue_id: venueId || '',
+    start_time: `${tomorrow}T09:00`, // 9 AM
+    end_time: `${tomorrow}T17:00`, // 5 PM
+    registration_start: formatDateTimeLocal(new Date()),
+    registration_end: `${tomorrow}T08:00`, // 8 AM on event day
+  };
+}
 
 export default function AddEvent() {
-  const { user, profile, isSuperAdmin, isClubPoc } = useAuth();
+  const { user, isSuperAdmin, isClubPoc, managedVenueIds } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
-  const [formData, setFormData] = useState({
-    event_name: '',
-    description: '',
-    venue_id: '',
-    start_time: '',
-    end_time: '',
-    registration_start: '',
-    registration_end: '',
-    is_open: true,
-    club_id: '',
-  });
-
-  const [venues, setVenues] = useState<any[]>([]);
-  const [clubs, setClubs] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<Record<string, string>>({});
-  
-  // Conflict detection state
-  const [conflictModalOpen, setConflictModalOpen] = useState(false);
-  const [conflictingEvents, setConflictingEvents] = useState<ConflictEvent[]>([]);
-  const [suggestedSlots, setSuggestedSlots] = useState<TimeSlot[]>([]);
-  const [currentVenueName, setCurrentVenueName] = useState('');
-
   useEffect(() => {
     // Check if user has permission to add events
     if (!user || (!isSuperAdmin && !isClubPoc)) {
       navigate('/login');
-      return;
     }
+  }, [user, isSuperAdmin, isClubPoc, navigate]);
 
-    fetchData();
-    
-    // Set default club for club POCs
-    if (isClubPoc && profile?.club_id) {
-      setFormData(prev => ({ ...prev, club_id: profile.club_id }));
-    }
-  }, [user, isSuperAdmin, isClubPoc, profile, navigate]);
-
-  const fetchData = async () => {
-    const [venuesRes, clubsRes] = await Promise.all([
-      supabase.from('venues').select('*').order('venue_name'),
-      supabase.from('clubs').select('*').order('club_name'),
-    ]);
-
-    if (venuesRes.data) setVenues(venuesRes.data);
-    if (clubsRes.data) setClubs(clubsRes.data);
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setErrors({});
-
-    // Validation
-    const validation = eventSchema.safeParse({
-      ...formData,
-      is_open: formData.is_open,
-    });
+  // Matches the database: approvers' own bookings skip the request queue
+  const needsApproval = (venueId: string) => !isSuperAdmin && !managedVenueIds.includes(venueId);
 
-    if (!validation.success) {
-      const fieldErrors: Record<string, string> = {};
-      validation.error.errors.forEach((err) => {
-        if (err.path[0]) {
-          fieldErrors[err.path[0].toString()] = err.message;
-        }
-      });
-      setErrors(fieldErrors);
-      return;
-    }
-
-    // Check club selection
-    if (!formData.club_id) {
-      setErrors({ club_id: 'Please select a club' });
-      return;
-    }
+  // Saves the series rule, then every occurrence as its own event in one insert
+  const createSeries = async (values: EventFormValues, rule: RecurrenceRule, overrideConflict: boolean) => {
+    const payload = toEventPayload(values);
 
-    // Validate dates
-    const startTime = new Date(formData.start_time);
-    const endTime = new Date(formData.end_time);
-    const regStart = new Date(formData.registration_start);
-    const regEnd = new Date(formData.registration_end);
+    const { data: series, error: seriesError } = await supabase
+      .from('event_series')
+      .insert([{ ...toSeriesRow(rule), club_id: values.club_id, created_by: user?.id }])
+      .select()
+      .single();
 
-    if (endTime <= startTime) {
-      setErrors({ end_time: 'End time must be after start time' });
+    if (seriesError) {
+      toast({ title: 'Error', description: seriesError.message, variant: 'destructive' });
       return;
     }
 
-    if (regEnd <= regStart) {
-      setErrors({ registration_end: 'Registration end must be after registration start' });
-      return;
-    }
-
-    if (regEnd > startTime) {
-      setErrors({ registration_end: 'Registration must end before event starts' });
-      return;
-    }
-
-    setLoading(true);
-
-    try {
-      // Check for venue conflicts
-      const conflictCheck = await checkVenueConflict(
-        formData.venue_id,
-        formData.start_time,
-        formData.end_time
-      );
+    const occurrences = buildOccurrences(rule, {
+      start: new Date(payload.start_time),
+      end: new Date(payload.end_time),
+      registrationStart: new Date(payload.registration_start),
+      registrationEnd: new Date(payload.registration_end),
+    });
 
-      if (conflictCheck.hasConflict) {
-        // Show conflict modal
-        const selectedVenue = venues.find(v => v.id === formData.venue_id);
-        setCurrentVenueName(selectedVenue?.venue_name || 'Selected Venue');
-        setConflictingEvents(conflictCheck.conflictingEvents);
-        setSuggestedSlots(conflictCheck.suggestedSlots);
-        setConflictModalOpen(true);
-        setLoading(false);
-        return;
-      }
+    const { error } = await supabase.from('events').insert(
+      occurrences.map((occurrence) => ({
+        ...payload,
+        start_time: occurrence.start.toISOString(),
+        end_time: occurrence.end.toISOString(),
+        registration_start: occurrence.registrationStart.toISOString(),
+        registration_end: occurrence.registrationEnd.toISOString(),
+        series_id: series.id,
+        conflict_override: overrideConflict,
+        created_by: user?.id,
+      }))
+    );
 
-      // No conflicts, proceed with event creation
-      await createEvent();
-    } catch (error: any) {
+    if (error) {
+      // Nothing was inserted, so don't leave an empty series behind
+      await supabase.from('event_series').delete().eq('id', series.id);
       toast({
         title: 'Error',
-        description: 'Failed to check venue availability',
+        description: isVenueConflictError(error)
+          ? 'One of the dates was booked by someone else in the meantime. Please check the series again.'
+          : error.message,
         variant: 'destructive',
       });
-      setLoading(false);
+      return;
     }
+
+    toast({
+      title: 'Success!',
+      description: needsApproval(values.venue_id)
+        ? `Requested ${occurrences.length} bookings. They'll be listed once the venue approves them.`
+        : `Created ${occurrences.length} occurrences`,
+    });
+    navigate('/');
   };
 
-  const createEvent = async () => {
+  const createEvent = async (values: EventFormValues, { overrideConflict, recurrence }: EventSubmitOptions) => {
+    if (recurrence) {
+      await createSeries(values, recurrence, overrideConflict);
+      return;
+    }
+
     try {
-      // Convert datetime-local values to proper ISO format for database
       const eventData = {
-        ...formData,
-        start_time: new Date(formData.start_time).toISOString(),
-        end_time: new Date(formData.end_time).toISOString(),
-        registration_start: new Date(formData.registration_start).toISOString(),
-        registration_end: new Date(formData.registration_end).toISOString(),
+        ...toEventPayload(values),
+        conflict_override: overrideConflict,
         created_by: user?.id,
       };
 
@@ -177,6 +143,16 @@ export default function AddEvent() {
 
       const { error } = await supabase.from('events').insert([eventData]);
 
+      const conflictError = await toVenueConflictError(
+        error,
+        values.venue_id,
+        eventData.start_time,
+        eventData.end_time,
+        undefined,
+        eventData
+      );
+      if (conflictError) throw conflictError;
+
       if (error) {
         console.error('Database error:', error);
         toast({
@@ -187,97 +163,27 @@ export default function AddEvent() {
       } else {
         toast({
           title: 'Success!',
-          description: 'Event created successfully',
+          description: needsApproval(values.venue_id)
+            ? 'Booking requested. The event will be listed once the venue approves it.'
+            : 'Event created successfully',
         });
         navigate('/');
       }
-    } catch (error: any) {
+    } catch (error) {
+      if (error instanceof VenueConflictError) throw error;
       console.error('Event creation error:', error);
       toast({
         title: 'Error',
         description: 'Failed to create event',
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleSelectSlot = (slot: TimeSlot) => {
-    // Update form data with suggested slot
-    setFormData({
-      ...formData,
-      start_time: slot.start_time,
-      end_time: slot.end_time,
-    });
-    setConflictModalOpen(false);
-    
-    // Show success message
-    toast({
-      title: 'Time Slot Updated',
-      description: 'Event times have been updated to the selected available slot.',
-    });
-  };
-
-  const handleIgnoreConflict = async () => {
-    setConflictModalOpen(false);
-    
-    // Proceed with event creation despite conflict
-    toast({
-      title: 'Warning',
-      description: 'Creating event despite venue conflict. Please coordinate with other organizers.',
-      variant: 'destructive',
-    });
-    
-    await createEvent();
-  };
-
-  const handleInputChange = (field: string, value: string | boolean) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    // Clear error when user starts typing
-    if (errors[field]) {
-      setErrors(prev => ({ ...prev, [field]: '' }));
     }
   };
 
-  // Generate datetime-local input value
-  const formatDateTimeLocal = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    return `${year}-${month}-${day}T${hours}:${minutes}`;
-  };
-
-  // Set default dates (tomorrow)
-  useEffect(() => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(9, 0, 0, 0); // 9 AM
-
-    const dayAfter = new Date(tomorrow);
-    dayAfter.setHours(17, 0, 0, 0); // 5 PM
-
-    const regStart = new Date();
-    const regEnd = new Date(tomorrow);
-    regEnd.setHours(8, 0, 0, 0); // 8 AM on event day
-
-    if (!formData.start_time) {
-      setFormData(prev => ({
-        ...prev,
-        start_time: formatDateTimeLocal(tomorrow),
-        end_time: formatDateTimeLocal(dayAfter),
-        registration_start: formatDateTimeLocal(regStart),
-        registration_end: formatDateTimeLocal(regEnd),
-      }));
-    }
-  }, []);
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
-      
+
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
           <div className="mb-6">
@@ -285,221 +191,27 @@ export default function AddEvent() {
               <ArrowLeft className="h-4 w-4 mr-2" />
               Back to Events
             </Button>
-            <h1 className="text-3xl font-bold">Create New Event</h1>
-            <p className="text-muted-foreground">Add a new event for your club</p>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold">Create New Event</h1>
+                <p className="text-muted-foreground">Add a new event for your club</p>
+              </div>
+              <Button variant="outline" onClick={() => navigate('/import-events')}>
+                <FileUp className="h-4 w-4 mr-2" />
+                Import from File
+              </Button>
+            </div>
           </div>
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Calendar className="h-5 w-5" />
-                Event Details
-              </CardTitle>
-              <CardDescription>
-                Fill in the details for your event
-              </CardDescription>
-            </CardHeader>
-
-            <form onSubmit={handleSubmit}>
-              <CardContent className="space-y-6">
-                {/* Event Name */}
-                <div className="space-y-2">
-                  <Label htmlFor="event_name">Event Name *</Label>
-                  <Input
-                    id="event_name"
-                    value={formData.event_name}
-                    onChange={(e) => handleInputChange('event_name', e.target.value)}
-                    placeholder="Enter event name"
-                    className={errors.event_name ? 'border-destructive' : ''}
-                  />
-                  {errors.event_name && (
-                    <p className="text-xs text-destructive">{errors.event_name}</p>
-                  )}
-                </div>
-
-                {/* Description */}
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => handleInputChange('description', e.target.value)}
-                    placeholder="Event description (optional)"
-                    rows={3}
-                  />
-                </div>
-
-                {/* Club Selection (Super Admin only) */}
-                {isSuperAdmin && (
-                  <div className="space-y-2">
-                    <Label htmlFor="club">Club *</Label>
-                    <Select
-                      value={formData.club_id}
-                      onValueChange={(value) => handleInputChange('club_id', value)}
-                    >
-                      <SelectTrigger className={errors.club_id ? 'border-destructive' : ''}>
-                        <SelectValue placeholder="Select club" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {clubs.map((club) => (
-                          <SelectItem key={club.id} value={club.id}>
-                            {club.club_name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {errors.club_id && (
-                      <p className="text-xs text-destructive">{errors.club_id}</p>
-                    )}
-                  </div>
-                )}
-
-                {/* Venue */}
-                <div className="space-y-2">
-                  <Label htmlFor="venue">Venue *</Label>
-                  <Select
-                    value={formData.venue_id}
-                    onValueChange={(value) => handleInputChange('venue_id', value)}
-                  >
-                    <SelectTrigger className={errors.venue_id ? 'border-destructive' : ''}>
-                      <SelectValue placeholder="Select venue" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {venues.map((venue) => (
-                        <SelectItem key={venue.id} value={venue.id}>
-                          <div className="flex items-center gap-2">
-                            <MapPin className="h-4 w-4" />
-                            {venue.venue_name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {errors.venue_id && (
-                    <p className="text-xs text-destructive">{errors.venue_id}</p>
-                  )}
-                </div>
-
-                {/* Event Timing */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="start_time">Event Start Time *</Label>
-                    <Input
-                      id="start_time"
-                      type="datetime-local"
-                      value={formData.start_time}
-                      onChange={(e) => handleInputChange('start_time', e.target.value)}
-                      className={errors.start_time ? 'border-destructive' : ''}
-                    />
-                    {errors.start_time && (
-                      <p className="text-xs text-destructive">{errors.start_time}</p>
-                    )}
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="end_time">Event End Time *</Label>
-                    <Input
-                      id="end_time"
-                      type="datetime-local"
-                      value={formData.end_time}
-                      onChange={(e) => handleInputChange('end_time', e.target.value)}
-                      className={errors.end_time ? 'border-destructive' : ''}
-                    />
-                    {errors.end_time && (
-                      <p className="text-xs text-destructive">{errors.end_time}</p>
-                    )}
-                  </div>
-                </div>
-
-                {/* Registration Timing */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="registration_start">Registration Start *</Label>
-                    <Input
-                      id="registration_start"
-                      type="datetime-local"
-                      value={formData.registration_start}
-                      onChange={(e) => handleInputChange('registration_start', e.target.value)}
-                      className={errors.registration_start ? 'border-destructive' : ''}
-                    />
-                    {errors.registration_start && (
-                      <p className="text-xs text-destructive">{errors.registration_start}</p>
-                    )}
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="registration_end">Registration End *</Label>
-                    <Input
-                      id="registration_end"
-                      type="datetime-local"
-                      value={formData.registration_end}
-                      onChange={(e) => handleInputChange('registration_end', e.target.value)}
-                      className={errors.registration_end ? 'border-destructive' : ''}
-                    />
-                    {errors.registration_end && (
-                      <p className="text-xs text-destructive">{errors.registration_end}</p>
-                    )}
-                  </div>
-                </div>
-
-                {/* Registration Status */}
-                <div className="space-y-2">
-                  <Label htmlFor="registration_status">Registration Status</Label>
-                  <Select
-                    value={formData.is_open ? 'open' : 'closed'}
-                    onValueChange={(value) => handleInputChange('is_open', value === 'open')}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="open">
-                        <div className="flex items-center gap-2">
-                          <div className="w-2 h-2 rounded-full bg-green-500" />
-                          Registration Open
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="closed">
-                        <div className="flex items-center gap-2">
-                          <div className="w-2 h-2 rounded-full bg-red-500" />
-                          Registration Closed
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </CardContent>
-
-              <CardFooter>
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                      Creating Event...
-                    </>
-                  ) : (
-                    <>
-                      <Calendar className="h-4 w-4 mr-2" />
-                      Create Event
-                    </>
-                  )}
-                </Button>
-              </CardFooter>
-            </form>
-          </Card>
+          <EventForm
+            initialValues={defaultFormValues(searchParams)}
+            submitLabel="Create Event"
+            submittingLabel="Creating Event..."
+            allowRecurrence
+            onSubmit={createEvent}
+          />
         </div>
       </div>
-      
-      {/* Venue Conflict Modal */}
-      <VenueConflictModal
-        open={conflictModalOpen}
-        onOpenChange={setConflictModalOpen}
-        conflictingEvents={conflictingEvents}
-        suggestedSlots={suggestedSlots}
-        venueName={currentVenueName}
-        onSelectSlot={handleSelectSlot}
-        onIgnoreConflict={handleIgnoreConflict}
-      />
     </div>
   );
-}
\ No newline at end of file
+}
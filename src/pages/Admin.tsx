@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Navbar } from '@/components/layout/Navbar';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ClubsManager } from '@/components/admin/ClubsManager';
+import { VenuesManager } from '@/components/admin/VenuesManager';
+import { ProfilesManager } from '@/components/admin/ProfilesManager';
+import { UserRolesManager } from '@/components/admin/UserRolesManager';
+import { InvitationsManager } from '@/components/admin/InvitationsManager';
+import { RoleAuditManager } from '@/components/admin/RoleAuditManager';
+import { ApprovalsQueue } from '@/components/admin/ApprovalsQueue';
+import { ArrowLeft, AlertCircle, Loader2 } from 'lucide-react';
+
+export default function Admin() {
+  const { user, profile, loading, isSuperAdmin, isVenueManager } = useAuth();
+  const navigate = useNavigate();
+  const [rolesVersion, setRolesVersion] = useState(0);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/login');
+    }
+  }, [loading, user, navigate]);
+
+  // The profile loads after the session, so wait for it before deciding access
+  if (loading || (user && !profile)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!isSuperAdmin && !isVenueManager) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                The admin console is only available to super admins and venue managers.
+              </AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate('/')}>Back to Events</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate('/')} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Events
+          </Button>
+          <h1 className="text-3xl font-bold">Admin Console</h1>
+          <p className="text-muted-foreground">
+            {isSuperAdmin ? 'Manage clubs, venues and user access' : 'Review booking requests for your venues'}
+          </p>
+        </div>
+
+        {!isSuperAdmin ? (
+          <ApprovalsQueue />
+        ) : (
+          <Tabs defaultValue="approvals" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="approvals">Approvals</TabsTrigger>
+              <TabsTrigger value="clubs">Clubs</TabsTrigger>
+              <TabsTrigger value="venues">Venues</TabsTrigger>
+              <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="roles">Roles</TabsTrigger>
+              <TabsTrigger value="invitations">Invitations</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="approvals">
+              <ApprovalsQueue />
+            </TabsContent>
+            <TabsContent value="clubs">
+              <ClubsManager />
+            </TabsContent>
+            <TabsContent value="venues">
+              <VenuesManager />
+            </TabsContent>
+            <TabsContent value="users">
+              <ProfilesManager onRolesChanged={() => setRolesVersion((v) => v + 1)} />
+            </TabsContent>
+            <TabsContent value="roles" className="space-y-6">
+              <RoleAuditManager onRolesChanged={() => setRolesVersion((v) => v + 1)} />
+              <UserRolesManager refreshKey={rolesVersion} />
+            </TabsContent>
+            <TabsContent value="invitations">
+              <InvitationsManager />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckInResult, Event } from '@/lib/types';
+import { formatCampus } from '@/lib/timezone';
+import {
+  RosterEntry,
+  cachedRoster,
+  checkInTicket,
+  enqueueScan,
+  fetchRoster,
+  isOfflineError,
+  parseTicket,
+  readQueue,
+  syncQueue,
+} from '@/lib/checkIn';
+import { Navbar } from '@/components/layout/Navbar';
+import { QrScanner } from '@/components/checkin/QrScanner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, AlertCircle, CheckCircle, CloudOff, Loader2, RefreshCw, XCircle } from 'lucide-react';
+
+// The outcome of the latest scan, as shown to the person at the door
+interface ScanFeedback {
+  tone: 'success' | 'warning' | 'error';
+  title: string;
+  detail?: string;
+}
+
+const describeResult = (result: CheckInResult): ScanFeedback => {
+  switch (result.result) {
+    case 'checked_in':
+      return { tone: 'success', title: `Checked in: ${result.full_name}` };
+    case 'duplicate':
+      return {
+        tone: 'warning',
+        title: `Already checked in${result.full_name ? `: ${result.full_name}` : ''}`,
+        detail: result.checked_in_at ? `at ${formatCampus(result.checked_in_at, 'h:mm a')}` : undefined,
+      };
+    case 'wrong_event':
+      return { tone: 'error', title: 'Ticket is for another event', detail: result.event_name };
+    case 'not_confirmed':
+      return { tone: 'error', title: `No confirmed seat: ${result.full_name}`, detail: 'Waitlisted or cancelled' };
+    default:
+      return { tone: 'error', title: 'Invalid ticket' };
+  }
+};
+
+export default function CheckIn() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, profile, loading, canEditClub } = useAuth();
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [queued, setQueued] = useState(0);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/login');
+    }
+  }, [loading, user, navigate]);
+
+  useEffect(() => {
+    if (id && profile) {
+      fetchEvent();
+      loadRoster();
+      setQueued(readQueue(id).length);
+    }
+  }, [id, profile]);
+
+  // Queued scans go out as soon as the connection is back
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [id]);
+
+  const fetchEvent = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('*, clubs(*), venues(*)')
+      .eq('id', id)
+      .maybeSingle();
+    if (data) setEvent(data as Event);
+  };
+
+  const loadRoster = async () => {
+    if (!id) return;
+    try {
+      setRoster(await fetchRoster(id));
+    } catch {
+      setRoster(cachedRoster(id));
+    }
+  };
+
+  const markCheckedIn = (registrationId: string, at: string) => {
+    setRoster((entries) =>
+      entries.map((entry) => (entry.id === registrationId ? { ...entry, checked_in_at: at } : entry))
+    );
+  };
+
+  const sync = async () => {
+    if (!id || readQueue(id).length === 0) return;
+    setSyncing(true);
+    const results = await syncQueue(id);
+    setSyncing(false);
+    setQueued(readQueue(id).length);
+
+    const checkedIn = results.filter((r) => r.result === 'checked_in').length;
+    const rejected = results.length - checkedIn;
+    if (results.length > 0) {
+      toast({
+        title: 'Offline scans synced',
+        description: `${checkedIn} checked in${rejected ? `, ${rejected} rejected (duplicate or invalid)` : ''}.`,
+        variant: rejected ? 'destructive' : 'default',
+      });
+      loadRoster();
+    }
+  };
+
+  const handleScan = async (text: string) => {
+    if (!id) return;
+    const parsed = parseTicket(text);
+
+    if (!parsed) {
+      setFeedback({ tone: 'error', title: 'Invalid ticket' });
+      return;
+    }
+    if (parsed.eventId !== id) {
+      setFeedback({ tone: 'error', title: 'Ticket is for another event' });
+      return;
+    }
+
+    const attendee = roster.find((entry) => entry.id === parsed.registrationId);
+    if (attendee?.checked_in_at) {
+      setFeedback(describeResult({ result: 'duplicate', ...attendee, checked_in_at: attendee.checked_in_at }));
+      return;
+    }
+
+    const queueOffline = () => {
+      enqueueScan(id, parsed.ticket);
+      setQueued(readQueue(id).length);
+      if (attendee) markCheckedIn(attendee.id, new Date().toISOString());
+      setFeedback({
+        tone: 'warning',
+        title: `Saved offline${attendee?.full_name ? `: ${attendee.full_name}` : ''}`,
+        detail: "It'll be verified when the connection is back.",
+      });
+    };
+
+    if (!navigator.onLine) {
+      queueOffline();
+      return;
+    }
+
+    try {
+      const result = await checkInTicket(id, parsed.ticket);
+      if (result.registration_id && result.checked_in_at) {
+        markCheckedIn(result.registration_id, result.checked_in_at);
+      }
+      setFeedback(describeResult(result));
+    } catch (error) {
+      if (isOfflineError(error)) {
+        queueOffline();
+      } else {
+        setFeedback({ tone: 'error', title: 'Check-in failed', detail: (error as Error).message });
+      }
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    handleScan(manualCode);
+    setManualCode('');
+  };
+
+  if (loading || (user && !profile)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const canCheckIn = !!event && canEditClub(event.club_id);
+
+  if (event && !canCheckIn) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>Only the organising club can check attendees in.</AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate(`/event/${id}`)}>Back to Event</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const checkedIn = roster.filter((entry) => entry.checked_in_at).length;
+  const recent = roster
+    .filter((entry) => entry.checked_in_at)
+    .sort((a, b) => b.checked_in_at!.localeCompare(a.checked_in_at!))
+    .slice(0, 10);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <Button variant="ghost" onClick={() => navigate(`/event/${id}`)} className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Event
+            </Button>
+            <h1 className="text-3xl font-bold">Check-in</h1>
+            <p className="text-muted-foreground">{event?.event_name}</p>
+          </div>
+
+          {!online && (
+            <Alert>
+              <CloudOff className="h-4 w-4" />
+              <AlertDescription>
+                You're offline. Scans are saved on this device and checked when the connection is back.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Scan Tickets</CardTitle>
+                <CardDescription>Point the camera at the QR code on the attendee's ticket.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <QrScanner onScan={handleScan} />
+
+                {feedback && (
+                  <div className={`flex items-start gap-3 rounded-lg border p-3 ${
+                    feedback.tone === 'success'
+                      ? 'border-success bg-success/10'
+                      : feedback.tone === 'warning'
+                        ? 'border-warning bg-warning/10'
+                        : 'border-destructive bg-destructive/10'
+                  }`}>
+                    {feedback.tone === 'error'
+                      ? <XCircle className="h-5 w-5 text-destructive" />
+                      : <CheckCircle className={`h-5 w-5 ${feedback.tone === 'success' ? 'text-success' : 'text-warning'}`} />}
+                    <div>
+                      <p className="font-medium">{feedback.title}</p>
+                      {feedback.detail && <p className="text-sm text-muted-foreground">{feedback.detail}</p>}
+                    </div>
+                  </div>
+                )}
+
+                <form onSubmit={handleManualSubmit} className="flex gap-2">
+                  <Input
+                    placeholder="Paste or type a ticket code"
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    className="font-mono"
+                  />
+                  <Button type="submit" variant="outline">Check In</Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Attendance</CardTitle>
+                <CardDescription>
+                  {checkedIn} of {roster.length} confirmed attendees checked in
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Progress value={roster.length ? (checkedIn / roster.length) * 100 : 0} />
+
+                {queued > 0 && (
+                  <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                    <span className="text-sm">{queued} scan{queued === 1 ? '' : 's'} waiting to sync</span>
+                    <Button size="sm" variant="outline" onClick={sync} disabled={!online || syncing}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                      Sync
+                    </Button>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {recent.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span>{entry.full_name ?? 'Name shown once online'}</span>
+                      <Badge variant="secondary">{formatCampus(entry.checked_in_at!, 'h:mm a')}</Badge>
+                    </div>
+                  ))}
+                  {recent.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No one has checked in yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,27 +2,40 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Event } from '@/lib/types';
+import { formFields } from '@/lib/registrationForm';
 import { Navbar } from '@/components/layout/Navbar';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { ArrowLeft, Save, AlertCircle } from 'lucide-react';
+import { ArrowLeft, AlertCircle, Repeat } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { EventForm, EventSubmitOptions } from '@/components/events/EventForm';
+import { EventFormValues, formatDateTimeLocal, toEventPayload } from '@/lib/eventValidation';
+import {
+  PlannedOccurrence,
+  VenueConflictError,
+  checkVenueConflict,
+  isVenueConflictError,
+  toVenueConflictError,
+} from '@/lib/venueConflict';
+import { describeRecurrence, fromSeriesRow, shiftOccurrence, splitRecurrence, toSeriesRow } from '@/lib/recurrence';
+import { parseCampusDateTime } from '@/lib/timezone';
+import { EmailService } from '@/lib/emailService';
+
+type SeriesScope = 'single' | 'future';
 
 export default function EditEvent() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { profile, isSuperAdmin } = useAuth();
+  const { isSuperAdmin, canEditClub } = useAuth();
   
   const [event, setEvent] = useState<Event | null>(null);
-  const [eventStatus, setEventStatus] = useState<'open' | 'closed' | 'ended'>('open');
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
   const [authorized, setAuthorized] = useState(true);
+  const [scope, setScope] = useState<SeriesScope>('single');
 
   useEffect(() => {
     if (id) {
@@ -37,7 +50,8 @@ export default function EditEvent() {
       .select(`
         *,
         clubs(*),
-        venues(*)
+        venues(*),
+        event_series(*)
       `)
       .eq('id', id)
       .single();
@@ -51,12 +65,12 @@ export default function EditEvent() {
       navigate('/');
     } else {
       // Check if user is authorized to edit this event
-      const canEdit = isSuperAdmin || (profile?.club_id === data.club_id);
+      const canEdit = canEditClub(data.club_id);
       if (!canEdit) {
         setAuthorized(false);
         toast({
           title: 'Access Denied',
-          description: 'You can only edit events from your own club',
+          description: 'You can only edit events for clubs where you are an editor',
           variant: 'destructive',
         });
         navigate(`/event/${id}`);
@@ -64,60 +78,137 @@ export default function EditEvent() {
       }
       
       setEvent(data as Event);
-      // Determine current status
-      const now = new Date();
-      const eventEnd = new Date(data.end_time);
-      const regEnd = new Date(data.registration_end);
-      
-      if (eventEnd < now) {
-        setEventStatus('ended');
-      } else if (data.is_open && regEnd > now) {
-        setEventStatus('open');
-      } else {
-        setEventStatus('closed');
-      }
     }
     setLoading(false);
   };
 
-  const handleSave = async () => {
-    if (!event || !id) return;
+  /**
+   * This occurrence and every later one in the series, each moved by the
+   * same number of days to the new time of day.
+   */
+  const planFutureOccurrences = async (values: EventFormValues): Promise<PlannedOccurrence[]> => {
+    if (!event?.series_id) return [];
+
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, start_time')
+      .eq('series_id', event.series_id)
+      .gte('start_time', event.start_time)
+      .order('start_time');
+
+    if (error) throw error;
+
+    const newStart = parseCampusDateTime(values.start_time);
+    const duration = parseCampusDateTime(values.end_time).getTime() - newStart.getTime();
+
+    return (data || []).map((occurrence) => {
+      const start = shiftOccurrence(new Date(occurrence.start_time), new Date(event.start_time), newStart);
+      return { start, end: new Date(start.getTime() + duration), eventId: occurrence.id };
+    });
+  };
+
+  const saveFutureOccurrences = async (values: EventFormValues, overrideConflict: boolean) => {
+    if (!event?.series_id || !event.event_series) return;
+
+    const payload = toEventPayload(values);
+    const newStart = new Date(payload.start_time);
+    const registrationStartOffset = new Date(payload.registration_start).getTime() - newStart.getTime();
+    const registrationEndOffset = new Date(payload.registration_end).getTime() - newStart.getTime();
+
+    const occurrences = await planFutureOccurrences(values);
+    const rows = occurrences.map((occurrence) => ({
+      id: occurrence.eventId,
+      start_time: occurrence.start.toISOString(),
+      end_time: occurrence.end.toISOString(),
+      registration_start: new Date(occurrence.start.getTime() + registrationStartOffset).toISOString(),
+      registration_end: new Date(occurrence.start.getTime() + registrationEndOffset).toISOString(),
+    }));
+    const { earlier, later } = splitRecurrence(
+      fromSeriesRow(event.event_series),
+      new Date(event.start_time),
+      newStart,
+      rows.length
+    );
+
+    // One transaction: the moved occurrences split off into their own series, or nothing changes
+    const { error } = await supabase.rpc('update_series_occurrences', {
+      _series_id: event.series_id,
+      _changes: payload,
+      _occurrences: rows,
+      _rule: toSeriesRow(later),
+      _earlier_rule: toSeriesRow(earlier),
+      _override: overrideConflict,
+    });
+
+    if (isVenueConflictError(error)) {
+      // The database only names the constraint, so find the occurrence that clashed
+      for (const row of rows) {
+        // If the bookings can't be read, the error below still reports the clash
+        const conflict = await checkVenueConflict(values.venue_id, row.start_time, row.end_time, row.id, payload)
+          .catch(() => null);
+        if (conflict?.hasConflict) throw new VenueConflictError(conflict);
+      }
+    }
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update the series',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: `Updated ${rows.length} occurrence${rows.length === 1 ? '' : 's'}`,
+    });
+    EmailService.sendWaitlistOffers();
+    navigate(`/event/${id}`);
+  };
+
+  const handleSave = async (values: EventFormValues, { overrideConflict }: EventSubmitOptions) => {
+    if (!id) return;
 
-    setSaving(true);
-    
-    const now = new Date();
-    let isOpen = false;
-    
-    // Determine is_open based on selected status
-    if (eventStatus === 'open') {
-      isOpen = true;
-    } else if (eventStatus === 'closed') {
-      isOpen = false;
-    } else { // ended
-      isOpen = false;
+    if (scope === 'future') {
+      await saveFutureOccurrences(values, overrideConflict);
+      return;
     }
 
+    const payload = toEventPayload(values);
     const { error } = await supabase
       .from('events')
       .update({
-        is_open: isOpen,
-        updated_at: now.toISOString(),
+        ...payload,
+        // The database drops an existing override when a non-admin moves the booking
+        ...(overrideConflict ? { conflict_override: true } : {}),
+        updated_at: new Date().toISOString(),
       })
       .eq('id', id);
 
-    setSaving(false);
+    const conflictError = await toVenueConflictError(
+      error,
+      values.venue_id,
+      payload.start_time,
+      payload.end_time,
+      id,
+      payload
+    );
+    if (conflictError) throw conflictError;
 
     if (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update event status',
+        description: error.message || 'Failed to update event',
         variant: 'destructive',
       });
     } else {
       toast({
         title: 'Success',
-        description: 'Event status updated successfully',
+        description: 'Event updated successfully',
       });
+      // Moving the booking may have freed its old slot for the waitlist
+      EmailService.sendWaitlistOffers();
       navigate(`/event/${id}`);
     }
   };
@@ -145,7 +236,7 @@ export default function EditEvent() {
   if (!event) return null;
 
   // Double-check authorization (in case user accessed URL directly)
-  const canEdit = isSuperAdmin || (profile?.club_id === event.club_id);
+  const canEdit = canEditClub(event.club_id);
   if (!canEdit && authorized) {
     return (
       <div className="min-h-screen bg-background">
@@ -155,8 +246,8 @@ export default function EditEvent() {
             <Alert variant="destructive" className="mb-4">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                You don't have permission to edit this event. You can only edit events from your own club.
-                {isSuperAdmin === false && profile?.role !== 'super_admin' && (
+                You don't have permission to edit this event. You can only edit events for clubs where you are an editor.
+                {!isSuperAdmin && (
                   <span className="block mt-1 text-sm">
                     Super admins can edit any event.
                   </span>
@@ -183,93 +274,53 @@ export default function EditEvent() {
               <ArrowLeft className="h-4 w-4 mr-2" />
               Back to Event Details
             </Button>
+            <h1 className="text-3xl font-bold">Edit Event</h1>
+            <p className="text-muted-foreground">Update the details of "{event.event_name}"</p>
           </div>
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-2xl">Edit Event</CardTitle>
-              <CardDescription>
-                Update the status of "{event.event_name}"
-              </CardDescription>
-            </CardHeader>
-
-            <CardContent className="space-y-6">
-              {/* Event Info Display */}
-              <div className="p-4 bg-muted/50 rounded-lg space-y-2">
-                <h3 className="font-semibold">Event Information</h3>
-                <p><span className="text-muted-foreground">Name:</span> {event.event_name}</p>
-                <p><span className="text-muted-foreground">Club:</span> {event.clubs?.club_name}</p>
-                <p><span className="text-muted-foreground">Venue:</span> {event.venues?.venue_name}</p>
-                <p><span className="text-muted-foreground">Date:</span> {new Date(event.start_time).toLocaleDateString()}</p>
+          {event.series_id && (
+            <div className="mb-6 space-y-3 rounded-lg border p-4">
+              <div className="flex items-center gap-2 font-medium">
+                <Repeat className="h-4 w-4" />
+                {event.event_series ? describeRecurrence(fromSeriesRow(event.event_series)) : 'Recurring event'}
               </div>
-
-              {/* Status Selection */}
-              <div className="space-y-4">
-                <Label htmlFor="event-status" className="text-base font-semibold">
-                  Event Status
-                </Label>
-                
-                <Select value={eventStatus} onValueChange={(value: 'open' | 'closed' | 'ended') => setEventStatus(value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select event status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="open">
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-green-500" />
-                        Registration Open
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="closed">
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-red-500" />
-                        Registration Closed
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="ended">
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-gray-400" />
-                        Event Ended
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-
-                {/* Status Description */}
-                <div className="p-3 bg-muted/30 rounded text-sm text-muted-foreground">
-                  {eventStatus === 'open' && (
-                    <p>✅ Students can register for this event. Registration is open.</p>
-                  )}
-                  {eventStatus === 'closed' && (
-                    <p>🔒 Registration is closed. Students cannot register but the event hasn't started yet.</p>
-                  )}
-                  {eventStatus === 'ended' && (
-                    <p>🏁 The event has ended. No registrations are allowed.</p>
-                  )}
+              <RadioGroup value={scope} onValueChange={(value) => setScope(value as SeriesScope)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="single" id="scope_single" />
+                  <Label htmlFor="scope_single" className="font-normal">Change this occurrence only</Label>
                 </div>
-              </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="future" id="scope_future" />
+                  <Label htmlFor="scope_future" className="font-normal">Change this and all future occurrences</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
 
-              {/* Action Buttons */}
-              <div className="flex gap-3 pt-4">
-                <Button 
-                  variant="outline" 
-                  onClick={() => navigate(`/event/${id}`)}
-                  className="flex-1"
-                  disabled={saving}
-                >
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={handleSave}
-                  className="flex-1"
-                  disabled={saving}
-                >
-                  <Save className="h-4 w-4 mr-2" />
-                  {saving ? 'Saving...' : 'Save Changes'}
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          <EventForm
+            initialValues={{
+              event_name: event.event_name,
+              description: event.description || '',
+              venue_id: event.venue_id,
+              club_id: event.club_id,
+              start_time: formatDateTimeLocal(event.start_time),
+              end_time: formatDateTimeLocal(event.end_time),
+              registration_start: formatDateTimeLocal(event.registration_start),
+              registration_end: formatDateTimeLocal(event.registration_end),
+              is_open: !!event.is_open,
+              setup_minutes: event.setup_minutes != null ? String(event.setup_minutes) : '',
+              teardown_minutes: event.teardown_minutes != null ? String(event.teardown_minutes) : '',
+              capacity: event.capacity != null ? String(event.capacity) : '',
+              registration_form: formFields(event.registration_form),
+              team_min_size: event.team_min_size != null ? String(event.team_min_size) : '',
+              team_max_size: event.team_max_size != null ? String(event.team_max_size) : '',
+            }}
+            excludeEventId={event.id}
+            planSeries={scope === 'future' ? planFutureOccurrences : undefined}
+            submitLabel="Save Changes"
+            submittingLabel="Saving..."
+            onSubmit={handleSave}
+          />
         </div>
       </div>
     </div>
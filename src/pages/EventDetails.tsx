@@ -1,24 +1,77 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { format } from 'date-fns';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatCampus } from '@/lib/timezone';
 import { supabase } from '@/integrations/supabase/client';
 import { Event } from '@/lib/types';
+import { formFields } from '@/lib/registrationForm';
+import { EmailService } from '@/lib/emailService';
+import {
+  acceptsRegistrations,
+  cancelRegistration,
+  describeTeamSize,
+  fetchRegistration,
+  fetchTicket,
+  forgetRegistration,
+  getRegistrationToken,
+  isFull,
+  isTeamEvent,
+  rememberRegistration,
+  seatsLeft,
+} from '@/lib/registrations';
 import { Navbar } from '@/components/layout/Navbar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AddToCalendarMenu } from '@/components/events/AddToCalendarMenu';
+import { ApprovalBadge } from '@/components/events/ApprovalBadge';
+import { RegisterModal } from '@/components/events/RegisterModal';
+import { TeamPanel } from '@/components/events/TeamPanel';
+import { TicketQr } from '@/components/events/TicketQr';
+import { ExportAttendeesModal } from '@/components/events/ExportAttendeesModal';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { Calendar, Clock, MapPin, Users, ArrowLeft, Edit } from 'lucide-react';
+import { useEventSeats } from '@/hooks/useEventSeats';
+import { Calendar, Clock, MapPin, Users, ArrowLeft, Edit, AlertCircle, Armchair, Ticket, CheckCircle, ListOrdered, UsersRound, ScanLine, Download } from 'lucide-react';
 
 export default function EventDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
-  const { profile, isSuperAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const { isSuperAdmin, clubRole, canEditClub } = useAuth();
   
   const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [confirmCancelOpen, setConfirmCancelOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+
+  const seats = useEventSeats(id ? [id] : [])[id ?? ''];
+  const { data: registration } = useQuery({
+    queryKey: ['registration', token],
+    queryFn: () => fetchRegistration(token!),
+    enabled: !!token,
+  });
+  const { data: ticket } = useQuery({
+    queryKey: ['ticket', token, registration?.status],
+    queryFn: () => fetchTicket(token!),
+    enabled: !!token && registration?.status === 'confirmed',
+  });
 
   useEffect(() => {
     if (id) {
@@ -26,6 +79,25 @@ export default function EventDetails() {
     }
   }, [id]);
 
+  // Registration emails link back here with the token, so it works from any device;
+  // team invites link here with the team's join code
+  useEffect(() => {
+    if (!id) return;
+    const linked = searchParams.get('registration');
+    const invite = searchParams.get('team');
+    if (linked) {
+      rememberRegistration(id, linked);
+    }
+    if (invite) {
+      setJoinCode(invite);
+      setRegisterOpen(true);
+    }
+    if (linked || invite) {
+      setSearchParams({}, { replace: true });
+    }
+    setToken(linked ?? getRegistrationToken(id));
+  }, [id]);
+
   const fetchEvent = async () => {
     setLoading(true);
     const { data, error } = await supabase
@@ -51,6 +123,25 @@ export default function EventDetails() {
     setLoading(false);
   };
 
+  const handleCancelRegistration = async () => {
+    if (!id || !token) return;
+    try {
+      await cancelRegistration(token);
+      forgetRegistration(id);
+      setToken(null);
+      queryClient.invalidateQueries({ queryKey: ['event-seats'] });
+      queryClient.invalidateQueries({ queryKey: ['team'] });
+      EmailService.sendRegistrationUpdates(id);
+      toast({ title: 'Registration cancelled', description: 'Your seat has been released.' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to cancel registration',
+        variant: 'destructive',
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -76,8 +167,18 @@ export default function EventDetails() {
   const isRegistrationOpen = event.is_open && new Date(event.registration_end) > new Date();
   const isPast = new Date(event.end_time) < new Date();
   
-  // Check if user can edit this event (same club or super admin)
-  const canEdit = isSuperAdmin || (profile?.club_id === event.club_id);
+  // Editors of the club (or super admins) run the event; viewers can still export attendees
+  const canEdit = canEditClub(event.club_id);
+  const canViewAttendees = isSuperAdmin || !!clubRole(event.club_id);
+
+  const activeRegistration = registration && registration.status !== 'cancelled' ? registration : null;
+  const canRegister = !isPast && !activeRegistration && acceptsRegistrations(event);
+  // Only published events go out in calendar feeds
+  const canAddToCalendar = !isPast && event.approval_status === 'approved';
+  const full = isFull(seats);
+  const teamEvent = isTeamEvent(event);
+  // An invite link is only useful while the visitor can still register
+  const inviteJoinCode = canRegister ? joinCode : '';
 
   return (
     <div className="min-h-screen bg-background">
@@ -96,9 +197,12 @@ export default function EventDetails() {
             <CardHeader>
               <div className="flex items-start justify-between gap-4">
                 <div className="flex-1">
-                  <Badge variant="secondary" className="mb-2">
-                    {event.clubs?.club_name || 'Unknown Club'}
-                  </Badge>
+                  <div className="mb-2 flex flex-wrap gap-2">
+                    <Badge variant="secondary">
+                      {event.clubs?.club_name || 'Unknown Club'}
+                    </Badge>
+                    <ApprovalBadge status={event.approval_status} />
+                  </div>
                   <CardTitle className="text-2xl lg:text-3xl mb-2">
                     {event.event_name}
                   </CardTitle>
@@ -125,6 +229,55 @@ export default function EventDetails() {
             </CardHeader>
 
             <CardContent className="space-y-6">
+              {event.approval_status !== 'approved' && (
+                <Alert variant={event.approval_status === 'rejected' ? 'destructive' : 'default'}>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {event.approval_status === 'rejected'
+                      ? 'This venue booking was rejected. Edit the event to pick another time or venue and submit it again.'
+                      : "This venue booking is waiting for approval and isn't listed publicly yet."}
+                    {event.approval_reason && (
+                      <span className="block mt-1 font-medium">Reason: {event.approval_reason}</span>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {activeRegistration && (
+                <Alert>
+                  {activeRegistration.status === 'confirmed'
+                    ? <CheckCircle className="h-4 w-4" />
+                    : <ListOrdered className="h-4 w-4" />}
+                  <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+                    <span>
+                      {activeRegistration.status === 'confirmed'
+                        ? `You're registered as ${activeRegistration.full_name} (${activeRegistration.email}).`
+                        : teamEvent
+                          ? "Your team is on the waitlist. If a slot frees up it's yours automatically and we'll email you."
+                          : "You're on the waitlist. If a seat frees up it's yours automatically and we'll email you."}
+                    </span>
+                    {!isPast && (
+                      <Button variant="outline" size="sm" onClick={() => setConfirmCancelOpen(true)}>
+                        Cancel Registration
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {ticket && !isPast && (
+                <div className="flex flex-col items-center gap-2 rounded-lg border p-4 text-center">
+                  <TicketQr ticket={ticket} />
+                  <p className="text-sm text-muted-foreground">
+                    Show this code at the entrance to check in. It's also in your confirmation email.
+                  </p>
+                </div>
+              )}
+
+              {activeRegistration?.team_id && token && (
+                <TeamPanel event={event} token={token} />
+              )}
+
               {/* Event Description */}
               {event.description && (
                 <div>
@@ -146,7 +299,7 @@ export default function EventDetails() {
                     <div>
                       <p className="font-medium">Date</p>
                       <p className="text-sm text-muted-foreground">
-                        {format(new Date(event.start_time), 'EEEE, MMMM dd, yyyy')}
+                        {formatCampus(event.start_time, 'EEEE, MMMM dd, yyyy')}
                       </p>
                     </div>
                   </div>
@@ -156,7 +309,7 @@ export default function EventDetails() {
                     <div>
                       <p className="font-medium">Time</p>
                       <p className="text-sm text-muted-foreground">
-                        {format(new Date(event.start_time), 'h:mm a')} - {format(new Date(event.end_time), 'h:mm a')}
+                        {formatCampus(event.start_time, 'h:mm a')} - {formatCampus(event.end_time, 'h:mm a')}
                       </p>
                     </div>
                   </div>
@@ -181,14 +334,45 @@ export default function EventDetails() {
                     <div>
                       <p className="font-medium">Registration Period</p>
                       <p className="text-sm text-muted-foreground">
-                        {format(new Date(event.registration_start), 'MMM dd, yyyy h:mm a')}
+                        {formatCampus(event.registration_start, 'MMM dd, yyyy h:mm a')}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        to {format(new Date(event.registration_end), 'MMM dd, yyyy h:mm a')}
+                        to {formatCampus(event.registration_end, 'MMM dd, yyyy h:mm a')}
                       </p>
                     </div>
                   </div>
 
+                  {teamEvent && (
+                    <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                      <UsersRound className="h-5 w-5 text-primary" />
+                      <div>
+                        <p className="font-medium">Team Event</p>
+                        <p className="text-sm text-muted-foreground">
+                          Register as a team of {describeTeamSize(event)}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
+                  {seats && (
+                    <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                      <Armchair className="h-5 w-5 text-primary" />
+                      <div>
+                        <p className="font-medium">{teamEvent ? 'Team Slots' : 'Seats'}</p>
+                        <p className={`text-sm ${full ? 'font-medium text-destructive' : 'text-muted-foreground'}`}>
+                          {seats.capacity == null
+                            ? `${seats.confirmed} ${teamEvent ? 'teams registered' : 'registered'} · no limit`
+                            : full
+                              ? `Full (${seats.capacity} ${teamEvent ? 'teams' : 'seats'})`
+                              : `${seatsLeft(seats)} of ${seats.capacity} ${teamEvent ? 'team slots' : 'seats'} left`}
+                        </p>
+                        {seats.waitlisted > 0 && (
+                          <p className="text-sm text-muted-foreground">{seats.waitlisted} on the waitlist</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="p-3 bg-muted/50 rounded-lg">
                     <p className="font-medium mb-1">Status</p>
                     <div className="flex items-center gap-2">
@@ -210,10 +394,29 @@ export default function EventDetails() {
                 <Button 
                   variant="outline" 
                   onClick={() => navigate('/')}
-                  className={canEdit ? "flex-1" : "w-full"}
+                  className={canViewAttendees || canRegister || canAddToCalendar ? "flex-1" : "w-full"}
                 >
                   Back to Events
                 </Button>
+                {canRegister && (
+                  <Button onClick={() => setRegisterOpen(true)} className="flex-1">
+                    <Ticket className="h-4 w-4 mr-2" />
+                    {full ? 'Join Waitlist' : 'Register'}
+                  </Button>
+                )}
+                {canAddToCalendar && <AddToCalendarMenu event={event} className="flex-1" />}
+                {canViewAttendees && (
+                  <Button variant="outline" onClick={() => setExportOpen(true)} className="flex-1">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                )}
+                {canEdit && event.approval_status === 'approved' && (
+                  <Button variant="outline" onClick={() => navigate(`/check-in/${event.id}`)} className="flex-1">
+                    <ScanLine className="h-4 w-4 mr-2" />
+                    Check-in
+                  </Button>
+                )}
                 {canEdit && (
                   <Button 
                     onClick={() => navigate(`/edit-event/${event.id}`)}
@@ -228,6 +431,46 @@ export default function EventDetails() {
           </Card>
         </div>
       </div>
+
+      <RegisterModal
+        open={registerOpen}
+        onOpenChange={setRegisterOpen}
+        eventId={event.id}
+        eventName={event.event_name}
+        fields={formFields(event.registration_form)}
+        seats={seats}
+        teamEvent={teamEvent}
+        joinCode={inviteJoinCode}
+        onRegistered={(result) => setToken(result.cancel_token)}
+      />
+
+      {canViewAttendees && (
+        <ExportAttendeesModal open={exportOpen} onOpenChange={setExportOpen} event={event} />
+      )}
+
+      <AlertDialog open={confirmCancelOpen} onOpenChange={setConfirmCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel your registration?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {activeRegistration?.team_id
+                ? "You'll leave your team. If you're the captain, the whole team is withdrawn."
+                : activeRegistration?.status === 'confirmed'
+                  ? 'Your seat will go to the next person on the waitlist.'
+                  : "You'll lose your place on the waitlist."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Registration</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancelRegistration}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancel Registration
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
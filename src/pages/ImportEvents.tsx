@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Club, Venue } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { toEventPayload } from '@/lib/eventValidation';
+import { isVenueConflictError } from '@/lib/venueConflict';
+import { formatCampus, parseCampusDateTime } from '@/lib/timezone';
+import {
+  IMPORT_FIELDS,
+  ImportCandidate,
+  ImportField,
+  ImportMapping,
+  ImportTable,
+  buildCandidates,
+  checkCandidateConflicts,
+  guessMapping,
+  parseImportFile,
+} from '@/lib/eventImport';
+import { Navbar } from '@/components/layout/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, FileUp, Loader2, Upload } from 'lucide-react';
+
+// Select value for a field left unmapped
+const UNMAPPED = 'none';
+
+export default function ImportEvents() {
+  const { user, isSuperAdmin, isClubPoc, editableClubIds, managedVenueIds } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [report, setReport] = useState<ImportCandidate[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
+
+  useEffect(() => {
+    if (!user || (!isSuperAdmin && !isClubPoc)) {
+      navigate('/login');
+    }
+  }, [user, isSuperAdmin, isClubPoc, navigate]);
+
+  useEffect(() => {
+    fetchLookups();
+  }, []);
+
+  const fetchLookups = async () => {
+    const [clubsRes, venuesRes] = await Promise.all([
+      supabase.from('clubs').select('*').order('club_name'),
+      supabase.from('venues').select('*').eq('available', true).order('venue_name'),
+    ]);
+    if (clubsRes.data) setClubs(clubsRes.data as Club[]);
+    if (venuesRes.data) setVenues(venuesRes.data as Venue[]);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseImportFile(file.name, await file.text());
+
+    if (parsed.rows.length === 0) {
+      toast({ title: 'Nothing to import', description: 'No events were found in that file.', variant: 'destructive' });
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessMapping(parsed.headers));
+    setReport(null);
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping((current) => ({ ...current, [field]: value === UNMAPPED ? undefined : parseInt(value, 10) }));
+    setReport(null);
+  };
+
+  const missingFields = IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] == null);
+  // Members of several clubs pick the club per row, like super admins
+  const multipleClubs = editableClubIds.length > 1;
+
+  const runDryRun = async () => {
+    if (!table) return;
+    setChecking(true);
+    try {
+      const candidates = buildCandidates(table, mapping, {
+        clubs,
+        venues,
+        editableClubIds: isSuperAdmin ? null : editableClubIds,
+      });
+      setReport(await checkCandidateConflicts(candidates));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message || 'Dry run failed', variant: 'destructive' });
+    }
+    setChecking(false);
+  };
+
+  const valid = report?.filter((c) => c.errors.length === 0) ?? [];
+  const clean = valid.filter((c) => c.conflicts.length === 0);
+  const toImport = isSuperAdmin && overrideConflicts ? valid : clean;
+
+  const commitImport = async () => {
+    if (toImport.length === 0) return;
+    setImporting(true);
+
+    const { error } = await supabase.from('events').insert(
+      toImport.map((candidate) => ({
+        ...toEventPayload(candidate.values),
+        conflict_override: candidate.conflicts.length > 0,
+        created_by: user?.id,
+      }))
+    );
+
+    setImporting(false);
+
+    if (error) {
+      // The insert is all or nothing, so nothing was saved
+      toast({
+        title: 'Import failed',
+        description: isVenueConflictError(error)
+          ? 'A venue was booked by someone else since the dry run. Run it again to see the new conflicts.'
+          : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const requested = toImport.filter((c) => !isSuperAdmin && !managedVenueIds.includes(c.values.venue_id)).length;
+    toast({
+      title: 'Import complete',
+      description: requested > 0
+        ? `Imported ${toImport.length} events. ${requested} venue bookings are waiting for approval.`
+        : `Imported ${toImport.length} events.`,
+    });
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <Button variant="ghost" onClick={() => navigate('/add-event')} className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Add Event
+            </Button>
+            <h1 className="text-3xl font-bold">Import Events</h1>
+            <p className="text-muted-foreground">
+              Plan a semester at once from a CSV spreadsheet or an ICS calendar file
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Choose a File</CardTitle>
+              <CardDescription>
+                CSV files need a header row. Times are read as campus time unless they carry a zone;
+                dates can be YYYY-MM-DD or DD/MM/YYYY.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Label htmlFor="import-file" className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center hover:bg-muted/50">
+                <FileUp className="h-8 w-8 text-muted-foreground" />
+                <span className="font-medium">{fileName || 'Select a .csv or .ics file'}</span>
+                {table && <span className="text-sm text-muted-foreground">{table.rows.length} rows found</span>}
+              </Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.ics,text/csv,text/calendar"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </CardContent>
+          </Card>
+
+          {table && (
+            <Card>
+              <CardHeader>
+                <CardTitle>2. Match Columns</CardTitle>
+                <CardDescription>
+                  Pick the column for each event field. Clubs and venues are matched by name.
+                  {!isSuperAdmin && (multipleClubs
+                    ? ' Each row needs the name of a club you edit.'
+                    : ' Events are imported for your club.')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {IMPORT_FIELDS.filter((f) => isSuperAdmin || multipleClubs || f.field !== 'club').map(({ field, label, required }) => (
+                    <div key={field} className="space-y-1">
+                      <Label>{label}{required && ' *'}</Label>
+                      <Select
+                        value={mapping[field] == null ? UNMAPPED : String(mapping[field])}
+                        onValueChange={(value) => setFieldColumn(field, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>{required ? 'Not mapped' : 'Use default'}</SelectItem>
+                          {table.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Map {missingFields.map((f) => f.label.toLowerCase()).join(', ')} to continue.
+                  </p>
+                )}
+
+                <Button onClick={runDryRun} disabled={checking || missingFields.length > 0}>
+                  {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Run Dry Run
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {report && (
+            <Card>
+              <CardHeader>
+                <CardTitle>3. Review and Import</CardTitle>
+                <CardDescription>
+                  {clean.length} ready · {valid.length - clean.length} with venue conflicts ·{' '}
+                  {report.length - valid.length} with errors. Nothing has been saved yet.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>When</TableHead>
+                        <TableHead>Venue</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.map((candidate) => {
+                        const start = candidate.values.start_time ? parseCampusDateTime(candidate.values.start_time) : null;
+                        const problems = [...candidate.errors, ...candidate.conflicts];
+
+                        return (
+                          <TableRow key={candidate.rowNumber}>
+                            <TableCell>{candidate.rowNumber}</TableCell>
+                            <TableCell className="font-medium">{candidate.values.event_name || '—'}</TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {start && !isNaN(start.getTime()) ? formatCampus(start, 'MMM d, h:mm a') : '—'}
+                            </TableCell>
+                            <TableCell>{candidate.venueName || '—'}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={candidate.errors.length ? 'destructive' : candidate.conflicts.length ? 'secondary' : 'default'}
+                              >
+                                {candidate.errors.length ? 'Error' : candidate.conflicts.length ? 'Conflict' : 'Ready'}
+                              </Badge>
+                              {problems.length > 0 && (
+                                <ul className="mt-1 list-disc pl-4 text-xs text-muted-foreground">
+                                  {problems.map((problem, i) => <li key={i}>{problem}</li>)}
+                                </ul>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {isSuperAdmin && valid.length > clean.length && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="override-conflicts"
+                      checked={overrideConflicts}
+                      onCheckedChange={(checked) => setOverrideConflicts(checked === true)}
+                    />
+                    <Label htmlFor="override-conflicts" className="font-normal">
+                      Book rows with venue conflicts anyway
+                    </Label>
+                  </div>
+                )}
+
+                {toImport.length < report.length && (
+                  <Alert>
+                    <AlertDescription>
+                      Rows marked Error{!(isSuperAdmin && overrideConflicts) && ' or Conflict'} are skipped.
+                      Fix them in the file and run the dry run again to include them.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button onClick={commitImport} disabled={importing || toImport.length === 0}>
+                  {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  Import {toImport.length} Event{toImport.length === 1 ? '' : 's'}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Event, Club, Venue } from '@/lib/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useEventSeats } from '@/hooks/useEventSeats';
 import { Navbar } from '@/components/layout/Navbar';
 import { EventCard } from '@/components/events/EventCard';
 import { EventFilters } from '@/components/events/EventFilters';
+import { EventCalendar } from '@/components/events/EventCalendar';
+import { WaitlistPanel } from '@/components/events/WaitlistPanel';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { EmailService } from '@/lib/emailService';
+import { EventsView } from '@/lib/calendar';
+import { campusDateKey, campusDateTime, shiftDateKey } from '@/lib/timezone';
 import { Calendar, Sparkles, Users, MapPin, Loader2 } from 'lucide-react';
 
 export default function Index() {
   const [events, setEvents] = useState<Event[]>([]);
+  const [clubRequests, setClubRequests] = useState<Event[]>([]);
   const [clubs, setClubs] = useState<Club[]>([]);
   const [venues, setVenues] = useState<Venue[]>([]);
   const [loading, setLoading] = useState(true);
@@ -21,17 +28,31 @@ export default function Index() {
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
-  const { user, isSuperAdmin, isClubPoc } = useAuth();
+  const [view, setView] = useState<EventsView>('grid');
+  const [calendarDate, setCalendarDate] = useState(() => campusDateKey(new Date()));
+  const { user, isSuperAdmin, isClubPoc, editableClubIds } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  const editableClubKey = editableClubIds.join(',');
+
+  useEffect(() => {
+    fetchClubRequests();
+  }, [editableClubKey]);
+
   const fetchData = async () => {
     setLoading(true);
     const [eventsRes, clubsRes, venuesRes] = await Promise.all([
-      supabase.from('events').select('*, clubs(*), venues(*)').order('start_time', { ascending: true }),
+      // Bookings still awaiting approval (or rejected) aren't public
+      supabase
+        .from('events')
+        .select('*, clubs(*), venues(*)')
+        .eq('approval_status', 'approved')
+        .order('start_time', { ascending: true }),
       supabase.from('clubs').select('*'),
       supabase.from('venues').select('*'),
     ]);
@@ -42,6 +63,23 @@ export default function Index() {
     setLoading(false);
   };
 
+  // Unapproved bookings for the clubs this user edits, so they can follow up on them
+  const fetchClubRequests = async () => {
+    if (!isClubPoc) {
+      setClubRequests([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('events')
+      .select('*, clubs(*), venues(*)')
+      .in('club_id', editableClubIds)
+      .neq('approval_status', 'approved')
+      .gte('end_time', new Date().toISOString())
+      .order('start_time', { ascending: true });
+    setClubRequests((data as Event[]) ?? []);
+  };
+
   const handleDelete = async (id: string) => {
     const { error } = await supabase.from('events').delete().eq('id', id);
     if (error) {
@@ -49,6 +87,9 @@ export default function Index() {
     } else {
       toast({ title: 'Success', description: 'Event deleted successfully' });
       setEvents(events.filter((e) => e.id !== id));
+      setClubRequests(clubRequests.filter((e) => e.id !== id));
+      // The freed slot may have gone to a club on the waitlist
+      EmailService.sendWaitlistOffers();
     }
   };
 
@@ -60,6 +101,15 @@ export default function Index() {
     setDateTo('');
   };
 
+  // Empty calendar slots open the add form prefilled (keeping the venue filter)
+  const createAt = (start: string) => {
+    const params = new URLSearchParams({ start });
+    if (venueFilter && venueFilter !== 'all') params.set('venue', venueFilter);
+    navigate(`/add-event?${params}`);
+  };
+
+  const seats = useEventSeats(events.map((event) => event.id));
+
   const filteredEvents = events
     .filter((event) => {
       const matchesSearch = !search || 
@@ -67,8 +117,9 @@ export default function Index() {
         event.description?.toLowerCase().includes(search.toLowerCase());
       const matchesClub = !clubFilter || clubFilter === 'all' || event.club_id === clubFilter;
       const matchesVenue = !venueFilter || venueFilter === 'all' || event.venue_id === venueFilter;
-      const matchesDateFrom = !dateFrom || new Date(event.start_time) >= new Date(dateFrom);
-      const matchesDateTo = !dateTo || new Date(event.start_time) <= new Date(dateTo + 'T23:59:59');
+      // Filter dates are campus calendar days
+      const matchesDateFrom = !dateFrom || new Date(event.start_time) >= campusDateTime(dateFrom);
+      const matchesDateTo = !dateTo || new Date(event.start_time) < campusDateTime(shiftDateKey(dateTo, 1));
       return matchesSearch && matchesClub && matchesVenue && matchesDateFrom && matchesDateTo;
     })
     .sort((a, b) => {
@@ -130,6 +181,20 @@ export default function Index() {
         </div>
       </section>
 
+      {clubRequests.length > 0 && (
+        <section className="pt-16 container mx-auto px-4">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-foreground mb-2">Your Booking Requests</h2>
+            <p className="text-muted-foreground">These aren't listed publicly until a venue manager approves them</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {clubRequests.map((event) => (
+              <EventCard key={event.id} event={event} onDelete={handleDelete} />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Events Section */}
       <section id="events" className="py-16 container mx-auto px-4">
         <div className="mb-8">
@@ -137,6 +202,8 @@ export default function Index() {
           <p className="text-muted-foreground">Discover and register for exciting events across campus</p>
         </div>
 
+        {isClubPoc && <WaitlistPanel clubIds={editableClubIds} className="mb-8" />}
+
         <EventFilters
           search={search}
           onSearchChange={setSearch}
@@ -150,6 +217,8 @@ export default function Index() {
           onDateToChange={setDateTo}
           sortOrder={sortOrder}
           onSortOrderChange={setSortOrder}
+          view={view}
+          onViewChange={setView}
           clubs={clubs}
           venues={venues}
           onClearFilters={clearFilters}
@@ -159,6 +228,17 @@ export default function Index() {
           <div className="flex justify-center py-20">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
+        ) : view !== 'grid' ? (
+          <div className="mt-8">
+            <EventCalendar
+              events={filteredEvents}
+              view={view}
+              onViewChange={setView}
+              anchor={calendarDate}
+              onAnchorChange={setCalendarDate}
+              onCreateAt={(isSuperAdmin || isClubPoc) ? createAt : undefined}
+            />
+          </div>
         ) : filteredEvents.length === 0 ? (
           <div className="text-center py-20">
             <Calendar className="h-16 w-16 text-muted-foreground/30 mx-auto mb-4" />
@@ -171,6 +251,7 @@ export default function Index() {
               <EventCard
                 key={event.id}
                 event={event}
+                seats={seats[event.id]}
                 onDelete={(isSuperAdmin || isClubPoc) ? handleDelete : undefined}
               />
             ))}
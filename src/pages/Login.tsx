@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useToast } from '@/hooks/use-toast';
 import { Calendar, Loader2, Mail, Lock, ArrowLeft, User } from 'lucide-react';
 
@@ -20,48 +20,92 @@ const signupSchema = z.object({
   email: z.string().email('Please enter a valid email'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   fullName: z.string().min(2, 'Full name must be at least 2 characters'),
-  role: z.enum(['super_admin', 'club_poc']),
-  clubId: z.string().optional(),
-  secretCode: z.string().min(1, 'Secret code is required'),
+  invitationCode: z.string().trim().min(1, 'Invitation code is required'),
 });
 
+const studentSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+const LOGIN_CODE_LENGTH = 6;
+
 export default function Login() {
-  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [mode, setMode] = useState<'login' | 'signup' | 'student'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'super_admin' | 'club_poc'>('club_poc');
-  const [clubId, setClubId] = useState('');
-  const [secretCode, setSecretCode] = useState('');
-  const [clubs, setClubs] = useState<any[]>([]);
+  const [invitationCode, setInvitationCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [loginCode, setLoginCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ 
     email?: string; 
     password?: string; 
     fullName?: string;
-    secretCode?: string;
-    clubId?: string;
+    invitationCode?: string;
+    loginCode?: string;
   }>({});
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, sendLoginCode, verifyLoginCode } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // Invitation emails link here with the code and the address it was sent to
   useEffect(() => {
-    if (mode === 'signup') {
-      fetchClubs();
+    const invite = searchParams.get('invite');
+    if (invite) {
+      setMode('signup');
+      setInvitationCode(invite);
+      setEmail(searchParams.get('email') ?? '');
+      setSearchParams({}, { replace: true });
+    }
+  }, []);
+
+  const handleStudentSubmit = async () => {
+    if (!codeSent) {
+      const validation = studentSchema.safeParse({ email });
+      if (!validation.success) {
+        setErrors({ email: validation.error.errors[0].message });
+        return;
+      }
+
+      setLoading(true);
+      const { error } = await sendLoginCode(email.trim(), fullName.trim() || undefined);
+      setLoading(false);
+
+      if (error) {
+        toast({ title: 'Could not send code', description: error.message, variant: 'destructive' });
+      } else {
+        setCodeSent(true);
+        toast({ title: 'Check your email', description: `We sent a sign-in code to ${email.trim()}.` });
+      }
+      return;
+    }
+
+    if (loginCode.length !== LOGIN_CODE_LENGTH) {
+      setErrors({ loginCode: `Enter the ${LOGIN_CODE_LENGTH}-digit code from the email` });
+      return;
     }
-  }, [mode]);
 
-  const fetchClubs = async () => {
-    const { data } = await supabase.from('clubs').select('*').order('club_name');
-    if (data) setClubs(data);
+    setLoading(true);
+    const { error } = await verifyLoginCode(email.trim(), loginCode);
+    setLoading(false);
+
+    if (error) {
+      setErrors({ loginCode: 'That code is invalid or has expired. Request a new one.' });
+      return;
+    }
+    toast({ title: 'Welcome!', description: 'You are signed in.' });
+    navigate('/my-events');
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
-    if (mode === 'login') {
+    if (mode === 'student') {
+      await handleStudentSubmit();
+    } else if (mode === 'login') {
       const validation = loginSchema.safeParse({ email, password });
       if (!validation.success) {
         const fieldErrors: { email?: string; password?: string } = {};
@@ -91,42 +135,32 @@ export default function Login() {
       }
     } else {
       // Signup mode
-      const validation = signupSchema.safeParse({ email, password, fullName, role, clubId, secretCode });
+      const validation = signupSchema.safeParse({ email, password, fullName, invitationCode });
       if (!validation.success) {
-        const fieldErrors: { email?: string; password?: string; fullName?: string; secretCode?: string; clubId?: string } = {};
+        const fieldErrors: { email?: string; password?: string; fullName?: string; invitationCode?: string } = {};
         validation.error.errors.forEach((err) => {
           if (err.path[0] === 'email') fieldErrors.email = err.message;
           if (err.path[0] === 'password') fieldErrors.password = err.message;
           if (err.path[0] === 'fullName') fieldErrors.fullName = err.message;
-          if (err.path[0] === 'secretCode') fieldErrors.secretCode = err.message;
-          if (err.path[0] === 'clubId') fieldErrors.clubId = err.message;
+          if (err.path[0] === 'invitationCode') fieldErrors.invitationCode = err.message;
         });
         setErrors(fieldErrors);
         return;
       }
 
-      // Validate secret code
-      if (role === 'super_admin') {
-        if (secretCode !== 'VIT_OSPC_ADMIN_2025') {
-          setErrors({ secretCode: 'Invalid super admin secret code' });
-          return;
-        }
-      } else if (role === 'club_poc') {
-        if (!clubId) {
-          setErrors({ clubId: 'Please select a club' });
-          return;
-        }
-        
-        // Verify club secret code
-        const selectedClub = clubs.find(club => club.id === clubId);
-        if (!selectedClub || selectedClub.secret_code !== secretCode) {
-          setErrors({ secretCode: 'Invalid secret code for the selected club' });
-          return;
-        }
+      setLoading(true);
+      // The database redeems the code when the account is created; this only gives a clearer error
+      const { data: valid } = await supabase.rpc('check_invitation', {
+        _code: invitationCode.trim(),
+        _email: email.trim(),
+      });
+      if (!valid) {
+        setLoading(false);
+        setErrors({ invitationCode: 'This code is invalid, expired, already used or for a different email' });
+        return;
       }
 
-      setLoading(true);
-      const { error, data } = await signUp(email, password, fullName, role, clubId);
+      const { error } = await signUp(email.trim(), password, fullName, invitationCode.trim());
       setLoading(false);
 
       if (error) {
@@ -142,9 +176,7 @@ export default function Login() {
         });
         setMode('login');
         setFullName('');
-        setRole('club_poc');
-        setClubId('');
-        setSecretCode('');
+        setInvitationCode('');
       }
     }
   };
@@ -163,21 +195,25 @@ export default function Login() {
             <Calendar className="h-7 w-7 text-primary-foreground" />
           </div>
           <CardTitle className="text-2xl">
-            {mode === 'login' ? 'Welcome Back' : 'Create Admin Account'}
+            {mode === 'login' ? 'Welcome Back' : mode === 'student' ? 'Student Sign In' : 'Create Staff Account'}
           </CardTitle>
           <CardDescription>
             {mode === 'login' 
               ? 'Sign in to manage your club events' 
-              : 'Create a new admin account for VIT Event Hub'
+              : mode === 'student'
+                ? 'Follow your subscriptions, registrations and tickets in one place'
+                : 'Create a staff account from your invitation'
             }
           </CardDescription>
         </CardHeader>
 
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
-            {mode === 'signup' && (
+            {(mode === 'signup' || (mode === 'student' && !codeSent)) && (
               <div className="space-y-2">
-                <Label htmlFor="fullName">Full Name</Label>
+                <Label htmlFor="fullName">
+                  Full Name{mode === 'student' && <span className="text-muted-foreground font-normal"> (first sign-in only)</span>}
+                </Label>
                 <div className="relative">
                   <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -193,91 +229,86 @@ export default function Login() {
               </div>
             )}
 
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="you@vit.edu"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className={`pl-10 ${errors.email ? 'border-destructive' : ''}`}
-                />
-              </div>
-              {errors.email && <p className="text-xs text-destructive">{errors.email}</p>}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className={`pl-10 ${errors.password ? 'border-destructive' : ''}`}
-                />
+            {!(mode === 'student' && codeSent) && (
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@vit.edu"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={`pl-10 ${errors.email ? 'border-destructive' : ''}`}
+                  />
+                </div>
+                {errors.email && <p className="text-xs text-destructive">{errors.email}</p>}
               </div>
-              {errors.password && <p className="text-xs text-destructive">{errors.password}</p>}
-            </div>
+            )}
 
-            {mode === 'signup' && (
-              <div className="space-y-2">
-                <Label htmlFor="role">Account Type</Label>
-                <Select value={role} onValueChange={(value: 'super_admin' | 'club_poc') => setRole(value)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="club_poc">Club POC (Club Events Only)</SelectItem>
-                    <SelectItem value="super_admin">Super Admin (OSPC Full Access)</SelectItem>
-                  </SelectContent>
-                </Select>
+            {mode === 'student' && codeSent && (
+              <div className="space-y-3 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Enter the code sent to <span className="font-medium text-foreground">{email.trim()}</span>,
+                  or open the sign-in link in that email.
+                </p>
+                <div className="flex justify-center">
+                  <InputOTP maxLength={LOGIN_CODE_LENGTH} value={loginCode} onChange={setLoginCode}>
+                    <InputOTPGroup>
+                      {Array.from({ length: LOGIN_CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                {errors.loginCode && <p className="text-xs text-destructive">{errors.loginCode}</p>}
+                <Button
+                  type="button"
+                  variant="link"
+                  className="text-sm"
+                  onClick={() => {
+                    setCodeSent(false);
+                    setLoginCode('');
+                    setErrors({});
+                  }}
+                >
+                  Use a different email
+                </Button>
               </div>
             )}
 
-            {mode === 'signup' && role === 'club_poc' && (
+            {mode !== 'student' && (
               <div className="space-y-2">
-                <Label htmlFor="club">Select Your Club</Label>
-                <Select value={clubId} onValueChange={setClubId}>
-                  <SelectTrigger className={errors.clubId ? 'border-destructive' : ''}>
-                    <SelectValue placeholder="Choose your club..." />
-                  </SelectTrigger>
-                  <SelectContent className="max-h-60">
-                    {clubs.map((club) => (
-                      <SelectItem key={club.id} value={club.id}>
-                        {club.club_name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {errors.clubId && <p className="text-xs text-destructive">{errors.clubId}</p>}
+                <Label htmlFor="password">Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={`pl-10 ${errors.password ? 'border-destructive' : ''}`}
+                  />
+                </div>
+                {errors.password && <p className="text-xs text-destructive">{errors.password}</p>}
               </div>
             )}
 
             {mode === 'signup' && (
               <div className="space-y-2">
-                <Label htmlFor="secretCode">
-                  {role === 'super_admin' ? 'OSPC Admin Secret Code' : 'Club Secret Code'}
-                </Label>
+                <Label htmlFor="invitationCode">Invitation Code</Label>
                 <Input
-                  id="secretCode"
-                  type="password"
-                  placeholder={`Enter ${role === 'super_admin' ? 'OSPC admin' : 'your club'} secret code`}
-                  value={secretCode}
-                  onChange={(e) => setSecretCode(e.target.value)}
-                  className={errors.secretCode ? 'border-destructive' : ''}
+                  id="invitationCode"
+                  placeholder="From your invitation email"
+                  value={invitationCode}
+                  onChange={(e) => setInvitationCode(e.target.value)}
+                  className={`font-mono uppercase ${errors.invitationCode ? 'border-destructive' : ''}`}
                 />
-                {errors.secretCode && <p className="text-xs text-destructive">{errors.secretCode}</p>}
+                {errors.invitationCode && <p className="text-xs text-destructive">{errors.invitationCode}</p>}
                 <p className="text-xs text-muted-foreground">
-                  {role === 'super_admin' 
-                    ? 'Contact OSPC admin for the super admin secret code' 
-                    : 'Contact your club coordinator for your unique club secret code'
-                  }
+                  Ask an OSPC admin to invite your email. The code sets your role and club.
                 </p>
               </div>
             )}
@@ -286,34 +317,52 @@ export default function Login() {
           <CardFooter className="flex flex-col gap-4">
             <Button type="submit" className="w-full" size="lg" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {mode === 'login' ? 'Sign In' : 'Create Account'}
+              {mode === 'login'
+                ? 'Sign In'
+                : mode === 'student'
+                  ? codeSent ? 'Verify Code' : 'Email Me a Code'
+                  : 'Create Account'}
             </Button>
             
-            <div className="text-center">
+            <div className="flex flex-col items-center">
               <Button 
                 type="button" 
                 variant="link" 
                 onClick={() => {
                   setMode(mode === 'login' ? 'signup' : 'login');
                   setErrors({});
-                  setSecretCode('');
-                  setClubId('');
                 }}
                 className="text-sm"
               >
                 {mode === 'login' 
                   ? 'Need to create an account? Sign up' 
-                  : 'Already have an account? Sign in'
+                  : mode === 'student'
+                    ? 'Club POC or OSPC admin? Sign in with a password'
+                    : 'Already have an account? Sign in'
                 }
               </Button>
+              {mode === 'login' && (
+                <Button
+                  type="button"
+                  variant="link"
+                  onClick={() => {
+                    setMode('student');
+                    setErrors({});
+                    setCodeSent(false);
+                    setLoginCode('');
+                  }}
+                  className="text-sm"
+                >
+                  Student? Sign in with an email code
+                </Button>
+              )}
             </div>
             
             {mode === 'signup' && (
               <div className="bg-muted/50 rounded-lg p-3 text-xs text-muted-foreground">
-                <p className="font-medium mb-1">Secret Code System:</p>
-                <p>• <strong>OSPC Admin:</strong> Full system access with static code</p>
-                <p>• <strong>Club POC:</strong> Club-specific access with unique codes</p>
-                <p>• Each club has a unique secret code for security</p>
+                <p className="font-medium mb-1">Staff accounts are invitation-only:</p>
+                <p>• Each code works once, for the invited email, and expires after 7 days</p>
+                <p>• <strong>Students</strong> don't need one; sign in with an email code instead</p>
               </div>
             )}
           </CardFooter>
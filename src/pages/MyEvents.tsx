@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Event, Notification, Registration } from '@/lib/types';
+import { fetchTicket } from '@/lib/registrations';
+import { formatCampus } from '@/lib/timezone';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Navbar } from '@/components/layout/Navbar';
+import { TicketQr } from '@/components/events/TicketQr';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Bell, BellOff, Calendar, CheckCircle, Loader2, MapPin, QrCode, Ticket } from 'lucide-react';
+
+type MyRegistration = Registration & { events: Event };
+type MySubscription = Notification & { events: Event };
+
+const byStartTime = (a: { events: Event }, b: { events: Event }) =>
+  new Date(a.events.start_time).getTime() - new Date(b.events.start_time).getTime();
+
+function RegistrationTicket({ registration }: { registration: MyRegistration }) {
+  const { data: ticket, isLoading } = useQuery({
+    queryKey: ['ticket', registration.cancel_token, registration.status],
+    queryFn: () => fetchTicket(registration.cancel_token),
+  });
+
+  if (isLoading) return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  if (!ticket) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2 rounded-lg border p-4 text-center">
+      <TicketQr ticket={ticket} />
+      <p className="text-sm text-muted-foreground">Show this code at the entrance to check in.</p>
+    </div>
+  );
+}
+
+function EventSummary({ event }: { event: Event }) {
+  return (
+    <div className="space-y-1">
+      <Link to={`/event/${event.id}`} className="font-semibold hover:underline">
+        {event.event_name}
+      </Link>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Calendar className="h-3.5 w-3.5" />
+          {formatCampus(event.start_time, 'EEE, MMM d · h:mm a')}
+        </span>
+        {event.venues && (
+          <span className="flex items-center gap-1">
+            <MapPin className="h-3.5 w-3.5" />
+            {event.venues.venue_name}
+          </span>
+        )}
+        {event.clubs && <span>{event.clubs.club_name}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default function MyEvents() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [registrations, setRegistrations] = useState<MyRegistration[]>([]);
+  const [subscriptions, setSubscriptions] = useState<MySubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openTicketId, setOpenTicketId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/login');
+    }
+  }, [authLoading, user, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchMyEvents();
+    }
+  }, [user]);
+
+  const fetchMyEvents = async () => {
+    setLoading(true);
+
+    // Picks up anything subscribed to with this email while signed out
+    await supabase.rpc('claim_my_events');
+
+    const [registrationsRes, subscriptionsRes] = await Promise.all([
+      supabase
+        .from('registrations')
+        .select('*, events(*, clubs(*), venues(*))')
+        .eq('user_id', user!.id),
+      supabase
+        .from('notifications')
+        .select('*, events(*, clubs(*), venues(*))')
+        .eq('user_id', user!.id),
+    ]);
+
+    if (registrationsRes.error || subscriptionsRes.error) {
+      toast({ title: 'Error', description: 'Failed to load your events', variant: 'destructive' });
+    } else {
+      setRegistrations((registrationsRes.data as MyRegistration[]).filter((r) => r.events).sort(byStartTime));
+      setSubscriptions((subscriptionsRes.data as MySubscription[]).filter((s) => s.events).sort(byStartTime));
+    }
+    setLoading(false);
+  };
+
+  const handleUnsubscribe = async (subscription: MySubscription) => {
+    const { error } = await supabase.from('notifications').delete().eq('id', subscription.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setSubscriptions((current) => current.filter((s) => s.id !== subscription.id));
+    toast({ title: 'Unsubscribed', description: `You won't get reminders for ${subscription.events.event_name}.` });
+  };
+
+  const isPast = (event: Event) => new Date(event.end_time) < new Date();
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">My Events</h1>
+            <p className="text-muted-foreground">
+              Everything you've registered or subscribed to as {user?.email}
+            </p>
+          </div>
+
+          <Tabs defaultValue="registrations">
+            <TabsList>
+              <TabsTrigger value="registrations">
+                <Ticket className="h-4 w-4 mr-2" />
+                Registrations ({registrations.length})
+              </TabsTrigger>
+              <TabsTrigger value="subscriptions">
+                <Bell className="h-4 w-4 mr-2" />
+                Subscriptions ({subscriptions.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="registrations" className="space-y-3">
+              {registrations.length === 0 ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>No registrations yet</CardTitle>
+                    <CardDescription>
+                      Register for an event with {user?.email} and it shows up here with your ticket.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Button onClick={() => navigate('/')}>Browse Events</Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                registrations.map((registration) => {
+                  const past = isPast(registration.events);
+                  const hasTicket = registration.status === 'confirmed' && !past;
+
+                  return (
+                    <Card key={registration.id} className={past || registration.status === 'cancelled' ? 'opacity-70' : ''}>
+                      <CardContent className="space-y-3 pt-6">
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                          <EventSummary event={registration.events} />
+                          <div className="flex flex-wrap gap-2">
+                            {past && <Badge variant="outline">Ended</Badge>}
+                            <Badge
+                              variant={registration.status === 'confirmed' ? 'default' : registration.status === 'waitlisted' ? 'secondary' : 'outline'}
+                              className="capitalize"
+                            >
+                              {registration.status}
+                            </Badge>
+                            {registration.checked_in_at && (
+                              <Badge variant="secondary">
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                Checked in
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap gap-2">
+                          {hasTicket && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setOpenTicketId(openTicketId === registration.id ? null : registration.id)}
+                            >
+                              <QrCode className="h-4 w-4 mr-2" />
+                              {openTicketId === registration.id ? 'Hide Ticket' : 'Show Ticket'}
+                            </Button>
+                          )}
+                          {!past && registration.status !== 'cancelled' && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link to={`/event/${registration.event_id}?registration=${registration.cancel_token}`}>
+                                Manage Registration
+                              </Link>
+                            </Button>
+                          )}
+                        </div>
+
+                        {hasTicket && openTicketId === registration.id && (
+                          <RegistrationTicket registration={registration} />
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              )}
+            </TabsContent>
+
+            <TabsContent value="subscriptions" className="space-y-3">
+              {subscriptions.length === 0 ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>No subscriptions yet</CardTitle>
+                    <CardDescription>
+                      Use "Notify Me" on an event to get a reminder before its registration closes.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Button onClick={() => navigate('/')}>Browse Events</Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                subscriptions.map((subscription) => {
+                  const past = isPast(subscription.events);
+
+                  return (
+                    <Card key={subscription.id} className={past ? 'opacity-70' : ''}>
+                      <CardContent className="flex flex-wrap items-start justify-between gap-3 pt-6">
+                        <div className="space-y-2">
+                          <EventSummary event={subscription.events} />
+                          <p className="text-sm text-muted-foreground">
+                            {subscription.status === 'sent'
+                              ? 'Reminder sent'
+                              : `Reminder before registration closes on ${formatCampus(subscription.events.registration_end, 'MMM d, h:mm a')}`}
+                          </p>
+                        </div>
+                        {!past && (
+                          <Button variant="outline" size="sm" onClick={() => handleUnsubscribe(subscription)}>
+                            <BellOff className="h-4 w-4 mr-2" />
+                            Unsubscribe
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Event, Venue } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Navbar } from '@/components/layout/Navbar';
+import { VenueTimeline } from '@/components/venues/VenueTimeline';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { weekDays } from '@/lib/calendar';
+import { fetchVenueSchedules, VenueSchedule } from '@/lib/venueSchedule';
+import { campusDateKey, campusDateTime, formatCampus, shiftDateKey } from '@/lib/timezone';
+import { ChevronLeft, ChevronRight, Loader2, MapPin } from 'lucide-react';
+
+type BoardRange = 'day' | 'week';
+
+export default function VenueBoard() {
+  const { isSuperAdmin, isClubPoc } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [range, setRange] = useState<BoardRange>('day');
+  const [anchor, setAnchor] = useState(() => campusDateKey(new Date()));
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [schedules, setSchedules] = useState<Record<string, VenueSchedule> | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const startDate = range === 'week' ? weekDays(anchor)[0] : anchor;
+  const days = range === 'week' ? 7 : 1;
+
+  useEffect(() => {
+    fetchBoard();
+  }, [startDate, days]);
+
+  const fetchBoard = async () => {
+    setLoading(true);
+    const rangeStart = campusDateTime(startDate);
+    const rangeEnd = campusDateTime(shiftDateKey(startDate, days));
+
+    const [venuesRes, eventsRes] = await Promise.all([
+      supabase.from('venues').select('*').order('venue_name'),
+      supabase
+        .from('events')
+        .select('*, clubs(*)')
+        .neq('approval_status', 'rejected')
+        .lt('start_time', rangeEnd.toISOString())
+        .gt('end_time', rangeStart.toISOString())
+        .order('start_time'),
+    ]);
+
+    if (venuesRes.error || eventsRes.error) {
+      toast({ title: 'Error', description: 'Failed to load venue bookings', variant: 'destructive' });
+      setLoading(false);
+      return;
+    }
+
+    const venueRows = venuesRes.data as Venue[];
+    setVenues(venueRows);
+    setEvents(eventsRes.data as Event[]);
+    setSchedules(
+      venueRows.length ? await fetchVenueSchedules(venueRows.map((v) => v.id), rangeStart, rangeEnd) : {}
+    );
+    setLoading(false);
+  };
+
+  const step = (direction: 1 | -1) => setAnchor(shiftDateKey(anchor, direction * days));
+
+  const book = (venueId: string, start: string) => {
+    navigate(`/add-event?${new URLSearchParams({ start, venue: venueId })}`);
+  };
+
+  const title = range === 'week'
+    ? `${formatCampus(campusDateTime(startDate, '12:00'), 'MMM dd')} - ${formatCampus(campusDateTime(shiftDateKey(startDate, 6), '12:00'), 'MMM dd, yyyy')}`
+    : formatCampus(campusDateTime(anchor, '12:00'), 'EEEE, MMM dd, yyyy');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <MapPin className="h-7 w-7" />
+            Venue Board
+          </h1>
+          <p className="text-muted-foreground">
+            See which halls are free at a glance.
+            {(isSuperAdmin || isClubPoc) && ' Click a free gap to start a booking.'}
+          </p>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(campusDateKey(new Date()))}>
+              Today
+            </Button>
+            <Input
+              type="date"
+              className="ml-2 w-44"
+              value={anchor}
+              onChange={(e) => e.target.value && setAnchor(e.target.value)}
+            />
+          </div>
+
+          <h2 className="font-semibold">{title}</h2>
+
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={range}
+            onValueChange={(value) => value && setRange(value as BoardRange)}
+          >
+            <ToggleGroupItem value="day">Day</ToggleGroupItem>
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : venues.length === 0 ? (
+          <p className="text-center text-muted-foreground py-20">No venues have been added yet.</p>
+        ) : (
+          <VenueTimeline
+            venues={venues}
+            events={events}
+            schedules={schedules}
+            startDate={startDate}
+            days={days}
+            onBook={(isSuperAdmin || isClubPoc) ? book : undefined}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Inline attachments are referenced from the HTML as cid:<contentId>
+export interface EmailAttachment {
+  filename: string
+  // Base64 encoded
+  content: string
+  contentId?: string
+}
+
+export interface EmailRequest {
+  to: string
+  subject: string
+  html: string
+  attachments?: EmailAttachment[]
+}
+
+// For user-entered text placed in email HTML
+export function escapeHTML(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export async function sendEmail(emailData: EmailRequest) {
+  const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
+  
+  if (!RESEND_API_KEY) {
+    throw new Error('RESEND_API_KEY environment variable is not set')
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'VIT Event Hub <noreply@your-domain.com>', // Replace with your verified domain
+      to: [emailData.to],
+      subject: emailData.subject,
+      html: emailData.html,
+      attachments: emailData.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        content_id: attachment.contentId,
+      })),
+    }),
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Failed to send email: ${error}`)
+  }
+
+  return await response.json()
+}
@@ -0,0 +1,134 @@
+// iCalendar (RFC 5545) output for downloads, email attachments and subscribable feeds.
+// The web app imports this file too, so it must not use Deno APIs.
+
+export interface IcsEvent {
+  // Stable across updates so calendars replace rather than duplicate
+  uid: string
+  sequence: number
+  start: string
+  end: string
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string
+  status: 'CONFIRMED' | 'CANCELLED'
+  updatedAt?: string | null
+}
+
+// An events row with its club and venue, as the functions select it
+export interface IcsSourceEvent {
+  id: string
+  event_name: string
+  description: string | null
+  start_time: string
+  end_time: string
+  sequence: number
+  updated_at: string
+  clubs?: { club_name: string } | null
+  venues?: { venue_name: string; location: string | null } | null
+}
+
+export const ICS_SOURCE_COLUMNS =
+  'id, event_name, description, start_time, end_time, sequence, updated_at, clubs(club_name), venues(venue_name, location)'
+
+export const ICS_UID_DOMAIN = 'vit-event-hub'
+
+export const eventUid = (eventId: string) => `${eventId}@${ICS_UID_DOMAIN}`
+
+export function eventToIcs(event: IcsSourceEvent, siteUrl: string): IcsEvent {
+  const venue = event.venues
+  return {
+    uid: eventUid(event.id),
+    sequence: event.sequence,
+    start: event.start_time,
+    end: event.end_time,
+    summary: event.event_name,
+    description: [event.clubs?.club_name && `Hosted by ${event.clubs.club_name}`, event.description]
+      .filter(Boolean)
+      .join('\n\n'),
+    location: venue ? [venue.venue_name, venue.location].filter(Boolean).join(', ') : null,
+    url: `${siteUrl}/event/${event.id}`,
+    status: 'CONFIRMED',
+    updatedAt: event.updated_at,
+  }
+}
+
+// Subscribe link for a feed (all events when params is empty); webcal:// makes calendar
+// apps offer to subscribe instead of importing once
+export function calendarFeedUrl(supabaseUrl: string, params: Record<string, string | undefined>, webcal = false) {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  ).toString()
+  const url = `${supabaseUrl}/functions/v1/calendar-feed${query ? `?${query}` : ''}`
+  return webcal ? url.replace(/^https?:/, 'webcal:') : url
+}
+
+// 20260314T043000Z
+export function icsDate(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line)
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function vevent(event: IcsEvent) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${icsDate(event.updatedAt ?? new Date().toISOString())}`,
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ]
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  lines.push('END:VEVENT')
+  return lines
+}
+
+export function buildCalendar(name: string, events: IcsEvent[], method: 'PUBLISH' | 'REQUEST' = 'PUBLISH') {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VIT Event Hub//Events//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for subscribed calendars to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(vevent),
+    'END:VCALENDAR',
+  ]
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
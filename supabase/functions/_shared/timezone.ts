@@ -0,0 +1,37 @@
+// Campus timezone used for every date shown in emails (Deno runs in UTC)
+export const CAMPUS_TIMEZONE = Deno.env.get('CAMPUS_TIMEZONE') ?? 'Asia/Kolkata'
+
+export function formatEventDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: CAMPUS_TIMEZONE,
+  })
+}
+
+export function formatEventTime(iso: string) {
+  return new Date(iso).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: CAMPUS_TIMEZONE,
+  })
+}
+
+export function formatEventTimeRange(startIso: string, endIso: string) {
+  return `${formatEventTime(startIso)} - ${formatEventTime(endIso)}`
+}
+
+export function formatEventDateTime(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: CAMPUS_TIMEZONE,
+  })
+}
@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/email.ts'
+import { buildCalendar, eventToIcs, eventUid, ICS_SOURCE_COLUMNS, IcsEvent, IcsSourceEvent } from '../_shared/ics.ts'
+
+// How far back feeds reach, for both past events and cancellations
+const HISTORY_DAYS = 90
+
+interface Tombstone {
+  event_id: string
+  event_name: string
+  start_time: string
+  end_time: string
+  sequence: number
+  deleted_at: string
+}
+
+function tombstoneToIcsEvent(tombstone: Tombstone): IcsEvent {
+  return {
+    uid: eventUid(tombstone.event_id),
+    sequence: tombstone.sequence,
+    start: tombstone.start_time,
+    end: tombstone.end_time,
+    summary: tombstone.event_name,
+    status: 'CANCELLED',
+    updatedAt: tombstone.deleted_at,
+  }
+}
+
+// Subscribable iCal feeds: all events, one club's (?club=), one venue's (?venue=), or a
+// personal feed of the events an email subscribed to or registered for (?token=)
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const clubId = params.get('club')
+    const venueId = params.get('venue')
+    const token = params.get('token')
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+    const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    let calendarName = 'VIT Events'
+    // Personal feeds list only these events; cancelled registrations show as cancelled
+    let eventIds: string[] | null = null
+    let cancelledIds: string[] = []
+
+    if (token) {
+      const { data: feed } = await supabaseClient
+        .from('calendar_feeds')
+        .select('email')
+        .eq('token', token)
+        .maybeSingle()
+
+      if (!feed) {
+        return new Response('Feed not found', { headers: corsHeaders, status: 404 })
+      }
+
+      // Case-insensitive match on the whole address; _ and % are literal in emails
+      const emailPattern = feed.email.replace(/[\\%_]/g, (char: string) => `\\${char}`)
+      const [{ data: subscriptions }, { data: registrations }] = await Promise.all([
+        supabaseClient.from('notifications').select('event_id').ilike('email', emailPattern),
+        supabaseClient.from('registrations').select('event_id, status').ilike('email', emailPattern),
+      ])
+
+      const active = new Set([
+        ...(subscriptions ?? []).map((s) => s.event_id),
+        ...(registrations ?? []).filter((r) => r.status !== 'cancelled').map((r) => r.event_id),
+      ])
+      eventIds = [...active]
+      cancelledIds = (registrations ?? [])
+        .filter((r) => r.status === 'cancelled' && !active.has(r.event_id))
+        .map((r) => r.event_id)
+      calendarName = 'My VIT Events'
+    }
+
+    // Withdrawn events too: calendars that synced one before it was rejected or sent
+    // back for review need to hear it's off. Never-approved requests stay out
+    let query = supabaseClient
+      .from('events')
+      .select(`${ICS_SOURCE_COLUMNS}, approval_status`)
+      .not('published_at', 'is', null)
+      .gte('end_time', since)
+      .order('start_time')
+
+    let tombstoneQuery = supabaseClient
+      .from('event_tombstones')
+      .select('*')
+      .gte('deleted_at', since)
+
+    if (clubId) {
+      query = query.eq('club_id', clubId)
+      tombstoneQuery = tombstoneQuery.eq('club_id', clubId)
+    }
+    if (venueId) {
+      query = query.eq('venue_id', venueId)
+      tombstoneQuery = tombstoneQuery.eq('venue_id', venueId)
+    }
+    if (eventIds) {
+      query = query.in('id', [...eventIds, ...cancelledIds])
+      tombstoneQuery = tombstoneQuery.in('event_id', [...eventIds, ...cancelledIds])
+    }
+
+    const [{ data: events, error }, { data: tombstones }] = await Promise.all([query, tombstoneQuery])
+
+    if (error) {
+      throw error
+    }
+
+    if (clubId && events.length > 0) {
+      calendarName = `${events[0].clubs?.club_name ?? 'Club'} Events`
+    } else if (venueId && events.length > 0) {
+      calendarName = `Events at ${events[0].venues?.venue_name ?? 'venue'}`
+    }
+
+    const icsEvents = [
+      ...(events as (IcsSourceEvent & { approval_status: string })[]).map((event) => {
+        const icsEvent = eventToIcs(event, siteUrl)
+        // A registration cancelled or an approval withdrawn since the last refresh; the bump
+        // makes it supersede the event
+        return cancelledIds.includes(event.id) || event.approval_status !== 'approved'
+          ? { ...icsEvent, status: 'CANCELLED' as const, sequence: event.sequence + 1 }
+          : icsEvent
+      }),
+      ...((tombstones ?? []) as Tombstone[]).map(tombstoneToIcsEvent),
+    ]
+
+    return new Response(buildCalendar(calendarName, icsEvents), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': `${token ? 'private' : 'public'}, max-age=900`,
+      },
+      status: 200,
+    })
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
@@ -0,0 +1,232 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventTimeRange } from '../_shared/timezone.ts'
+
+interface BookingDecisionRequest {
+  eventId: string
+}
+
+interface BookingDecisionDetails {
+  eventName: string
+  clubName: string
+  venueName: string
+  eventDate: string
+  eventTime: string
+  approved: boolean
+  reason: string | null
+}
+
+function generateDecisionHTML(data: BookingDecisionDetails) {
+  const accent = data.approved ? '#10b981' : '#ef4444'
+  const title = data.approved ? '✅ Booking Approved' : '❌ Booking Rejected'
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title} - ${escapeHTML(data.eventName)}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: ${accent};
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .event-details {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .detail-item {
+          display: flex;
+          margin: 10px 0;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .detail-label {
+          font-weight: 600;
+          width: 120px;
+          color: #666;
+        }
+        .detail-value {
+          color: #333;
+        }
+        .reason {
+          background: white;
+          border-left: 4px solid ${accent};
+          padding: 15px;
+          margin: 20px 0;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${title}</h1>
+        <p>${escapeHTML(data.clubName)}</p>
+      </div>
+
+      <div class="content">
+        <p>
+          ${data.approved
+            ? 'Your venue booking has been approved and the event is now listed publicly.'
+            : 'Your venue booking request was not approved. You can edit the event to pick another time or venue and submit it again.'}
+        </p>
+
+        ${data.reason ? `<div class="reason"><strong>Reason:</strong> ${escapeHTML(data.reason)}</div>` : ''}
+
+        <div class="event-details">
+          <h2>${escapeHTML(data.eventName)}</h2>
+          <div class="detail-item">
+            <div class="detail-label">📅 Date:</div>
+            <div class="detail-value">${data.eventDate}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">🕐 Time:</div>
+            <div class="detail-value">${data.eventTime}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">📍 Venue:</div>
+            <div class="detail-value">${escapeHTML(data.venueName)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { eventId }: BookingDecisionRequest = await req.json()
+
+    if (!eventId) {
+      throw new Error('Missing required field: eventId')
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Only whoever could have made the decision may send it
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user } } = await supabaseClient.auth.getUser(token)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Not signed in' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: event, error: eventError } = await supabaseClient
+      .from('events')
+      .select(`
+        event_name,
+        venue_id,
+        start_time,
+        end_time,
+        approval_status,
+        approval_reason,
+        clubs(club_name),
+        venues(venue_name),
+        creator:profiles!events_created_by_fkey(email)
+      `)
+      .eq('id', eventId)
+      .single()
+
+    if (eventError) {
+      throw eventError
+    }
+
+    const { data: allowed } = await supabaseClient.rpc('can_decide_booking', {
+      _user_id: user.id,
+      _venue_id: event.venue_id,
+    })
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Only super admins and venue managers can send booking decisions' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    if (event.approval_status === 'requested') {
+      throw new Error('This booking has not been decided yet')
+    }
+
+    const email = event.creator?.email
+    if (!email) {
+      // Nobody to tell, e.g. the requester's account was removed
+      return new Response(
+        JSON.stringify({ success: true, sent: false }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const approved = event.approval_status === 'approved'
+    const html = generateDecisionHTML({
+      eventName: event.event_name,
+      clubName: event.clubs?.club_name ?? '',
+      venueName: event.venues?.venue_name ?? 'TBA',
+      eventDate: formatEventDate(event.start_time),
+      eventTime: formatEventTimeRange(event.start_time, event.end_time),
+      approved,
+      reason: event.approval_reason,
+    })
+
+    const result = await sendEmail({
+      to: email,
+      subject: `${approved ? '✅ Booking approved' : '❌ Booking rejected'}: ${event.event_name}`,
+      html,
+    })
+
+    return new Response(
+      JSON.stringify({ success: true, sent: true, result }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
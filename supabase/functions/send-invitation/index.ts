@@ -0,0 +1,224 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDateTime } from '../_shared/timezone.ts'
+
+interface InvitationRequest {
+  invitationId: string
+}
+
+interface InvitationDetails {
+  inviterName: string
+  roleName: string
+  clubName: string | null
+  code: string
+  expiresAt: string
+  signupUrl: string
+}
+
+const ROLE_NAMES: Record<string, string> = {
+  super_admin: 'OSPC Super Admin',
+  club_poc: 'Club POC',
+}
+
+const CLUB_ROLE_NAMES: Record<string, string> = {
+  viewer: 'viewer',
+  editor: 'editor',
+  owner: 'owner',
+}
+
+function generateInvitationHTML(data: InvitationDetails) {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>You're invited to VIT Event Hub</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .code {
+          background: white;
+          border: 2px dashed #667eea;
+          border-radius: 8px;
+          padding: 15px;
+          margin: 20px 0;
+          text-align: center;
+          font-family: monospace;
+          font-size: 24px;
+          font-weight: bold;
+          letter-spacing: 4px;
+        }
+        .cta {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .button {
+          background: #667eea;
+          color: white;
+          padding: 12px 30px;
+          text-decoration: none;
+          border-radius: 5px;
+          display: inline-block;
+          font-weight: 600;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>🔑 You're invited to VIT Event Hub</h1>
+      </div>
+
+      <div class="content">
+        <p>
+          ${escapeHTML(data.inviterName)} invited you to join as
+          <strong>${data.roleName}</strong>${data.clubName ? ` for <strong>${escapeHTML(data.clubName)}</strong>` : ''}.
+          Create your account with this email address and invitation code:
+        </p>
+
+        <div class="code">${data.code}</div>
+
+        <p>The code works once and expires on ${data.expiresAt}. Already have an account? Sign in and redeem it from your account menu.</p>
+
+        <div class="cta">
+          <a href="${data.signupUrl}" class="button">
+            Create Your Account →
+          </a>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+        <p>Didn't expect this? You can ignore this email.</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { invitationId }: InvitationRequest = await req.json()
+
+    if (!invitationId) {
+      throw new Error('Missing required field: invitationId')
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Invitations grant staff roles, so only super admins may send them
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user } } = await supabaseClient.auth.getUser(token)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Not signed in' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: isSuperAdmin } = await supabaseClient.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'super_admin',
+    })
+    if (!isSuperAdmin) {
+      return new Response(
+        JSON.stringify({ error: 'Only super admins can send invitations' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: invitation, error: invitationError } = await supabaseClient
+      .from('invitations')
+      .select(`
+        code,
+        email,
+        role,
+        club_role,
+        expires_at,
+        accepted_at,
+        clubs(club_name),
+        inviter:profiles!invitations_invited_by_fkey(full_name)
+      `)
+      .eq('id', invitationId)
+      .single()
+
+    if (invitationError) {
+      throw invitationError
+    }
+
+    if (invitation.accepted_at) {
+      throw new Error('This invitation has already been used')
+    }
+    if (new Date(invitation.expires_at) <= new Date()) {
+      throw new Error('This invitation has expired')
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+    const params = new URLSearchParams({ invite: invitation.code, email: invitation.email })
+    const roleName = invitation.clubs
+      ? `${ROLE_NAMES[invitation.role] ?? invitation.role} (${CLUB_ROLE_NAMES[invitation.club_role] ?? invitation.club_role})`
+      : ROLE_NAMES[invitation.role] ?? invitation.role
+
+    await sendEmail({
+      to: invitation.email,
+      subject: `🔑 Your ${roleName} invitation to VIT Event Hub`,
+      html: generateInvitationHTML({
+        inviterName: invitation.inviter?.full_name ?? 'An OSPC admin',
+        roleName,
+        clubName: invitation.clubs?.club_name ?? null,
+        code: invitation.code,
+        expiresAt: formatEventDateTime(invitation.expires_at),
+        signupUrl: `${siteUrl}/login?${params}`,
+      }),
+    })
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
@@ -1,45 +1,7 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-interface EmailRequest {
-  to: string
-  subject: string
-  html: string
-}
-
-async function sendEmail(emailData: EmailRequest) {
-  const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
-  
-  if (!RESEND_API_KEY) {
-    throw new Error('RESEND_API_KEY environment variable is not set')
-  }
-
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      from: 'VIT Event Hub <noreply@your-domain.com>', // Replace with your verified domain
-      to: [emailData.to],
-      subject: emailData.subject,
-      html: emailData.html,
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Failed to send email: ${error}`)
-  }
-
-  return await response.json()
-}
+import { corsHeaders, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventDateTime, formatEventTimeRange } from '../_shared/timezone.ts'
 
 function generateReminderHTML(eventName: string, eventDate: string, eventTime: string, registrationEnd: string, venueName: string) {
   return `
@@ -211,29 +173,9 @@ serve(async (req) => {
     for (const notification of notifications) {
       try {
         const event = notification.events
-        const eventDate = new Date(event.start_time).toLocaleDateString('en-US', {
-          weekday: 'long',
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric'
-        })
-        const eventTime = `${new Date(event.start_time).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        })} - ${new Date(event.end_time).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        })}`
-        const registrationEnd = new Date(event.registration_end).toLocaleString('en-US', {
-          weekday: 'short',
-          month: 'short',
-          day: 'numeric',
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        })
+        const eventDate = formatEventDate(event.start_time)
+        const eventTime = formatEventTimeRange(event.start_time, event.end_time)
+        const registrationEnd = formatEventDateTime(event.registration_end)
 
         const html = generateReminderHTML(
           event.event_name,
@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventTimeRange } from '../_shared/timezone.ts'
+
+interface RegistrationUpdatesRequest {
+  eventId: string
+}
+
+// Confirmations (new seats and promotions) go out from send-welcome-email with the ticket
+type Notice = 'waitlisted' | 'cancelled'
+
+interface RegistrationEmailDetails {
+  notice: Notice
+  fullName: string
+  eventName: string
+  venueName: string
+  eventDate: string
+  eventTime: string
+  manageUrl: string
+}
+
+const NOTICES: Record<Notice, { accent: string; title: string; message: string }> = {
+  waitlisted: {
+    accent: '#f59e0b',
+    title: "⏳ You're on the waitlist",
+    message: "The event is full. If a seat frees up it goes to the next person in line and we'll email you straight away.",
+  },
+  cancelled: {
+    accent: '#6b7280',
+    title: 'Registration cancelled',
+    message: 'Your registration has been cancelled. You can register again while registration is open.',
+  },
+}
+
+function generateRegistrationHTML(data: RegistrationEmailDetails) {
+  const { accent, title, message } = NOTICES[data.notice]
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title} - ${escapeHTML(data.eventName)}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: ${accent};
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .event-details {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .detail-item {
+          display: flex;
+          margin: 10px 0;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .detail-label {
+          font-weight: 600;
+          width: 120px;
+          color: #666;
+        }
+        .detail-value {
+          color: #333;
+        }
+        .cta {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .button {
+          background: ${accent};
+          color: white;
+          padding: 12px 30px;
+          text-decoration: none;
+          border-radius: 5px;
+          display: inline-block;
+          font-weight: 600;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${title}</h1>
+      </div>
+
+      <div class="content">
+        <p>Hi ${escapeHTML(data.fullName)},</p>
+        <p>${message}</p>
+
+        <div class="event-details">
+          <h2>${escapeHTML(data.eventName)}</h2>
+          <div class="detail-item">
+            <div class="detail-label">📅 Date:</div>
+            <div class="detail-value">${data.eventDate}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">🕐 Time:</div>
+            <div class="detail-value">${data.eventTime}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">📍 Venue:</div>
+            <div class="detail-value">${escapeHTML(data.venueName)}</div>
+          </div>
+        </div>
+
+        ${data.notice !== 'cancelled' ? `
+        <div class="cta">
+          <a href="${data.manageUrl}" class="button">
+            View or Cancel Registration →
+          </a>
+        </div>` : ''}
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// Emails every attendee of an event whose registration changed since they were last told:
+// new seats, waitlist places, promotions off the waitlist and cancellations. Safe to run repeatedly.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { eventId }: RegistrationUpdatesRequest = await req.json()
+
+    if (!eventId) {
+      throw new Error('Missing required field: eventId')
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: event, error: eventError } = await supabaseClient
+      .from('events')
+      .select('id, event_name, start_time, end_time, venues(venue_name)')
+      .eq('id', eventId)
+      .single()
+
+    if (eventError) {
+      throw eventError
+    }
+
+    const { data: registrations, error: registrationsError } = await supabaseClient
+      .from('registrations')
+      .select('*')
+      .eq('event_id', eventId)
+
+    if (registrationsError) {
+      throw registrationsError
+    }
+
+    const pending = registrations.filter((registration) => registration.notified_status !== registration.status)
+    const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+
+    let emailsSent = 0
+    const emailErrors = []
+
+    for (const registration of pending) {
+      try {
+        if (registration.status === 'confirmed') {
+          // Never told they were confirmed: a new seat, or a waitlist place that got promoted.
+          // The confirmation carries the QR ticket, which send-welcome-email signs and sends.
+          const { error } = await supabaseClient.functions.invoke('send-welcome-email', {
+            body: {
+              registrationToken: registration.cancel_token,
+              promoted: registration.notified_status === 'waitlisted',
+            },
+          })
+          if (error) throw error
+          emailsSent++
+        } else if (!(registration.status === 'cancelled' && registration.notified_status === null)) {
+          // Someone who cancelled before hearing anything doesn't need telling
+          const notice: Notice = registration.status
+          const html = generateRegistrationHTML({
+            notice,
+            fullName: registration.full_name,
+            eventName: event.event_name,
+            venueName: event.venues?.venue_name ?? 'TBA',
+            eventDate: formatEventDate(event.start_time),
+            eventTime: formatEventTimeRange(event.start_time, event.end_time),
+            manageUrl: `${siteUrl}/event/${event.id}?registration=${registration.cancel_token}`,
+          })
+
+          await sendEmail({
+            to: registration.email,
+            subject: `${NOTICES[notice].title}: ${event.event_name}`,
+            html,
+          })
+          emailsSent++
+        }
+
+        await supabaseClient
+          .from('registrations')
+          .update({ notified_status: registration.status })
+          .eq('id', registration.id)
+      } catch (error) {
+        emailErrors.push({
+          registrationId: registration.id,
+          error: error.message
+        })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        emailsSent,
+        totalRegistrations: pending.length,
+        errors: emailErrors
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
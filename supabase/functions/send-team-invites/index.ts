@@ -0,0 +1,297 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventDateTime, formatEventTimeRange } from '../_shared/timezone.ts'
+
+interface TeamInvitesRequest {
+  // Registration token of the team captain sending the invites
+  token: string
+  emails: string[]
+}
+
+interface TeamInviteDetails {
+  inviterName: string
+  teamName: string
+  joinCode: string
+  eventName: string
+  venueName: string
+  eventDate: string
+  eventTime: string
+  registrationEnd: string
+  joinUrl: string
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Caps on what one team can send, so the sender can't be used to flood inboxes
+const MAX_INVITES_PER_REQUEST = 10
+const MAX_INVITES_PER_TEAM = 30
+
+function generateInviteHTML(data: TeamInviteDetails) {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Join ${escapeHTML(data.teamName)} for ${escapeHTML(data.eventName)}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .code {
+          background: white;
+          border: 2px dashed #667eea;
+          border-radius: 8px;
+          padding: 15px;
+          margin: 20px 0;
+          text-align: center;
+          font-family: monospace;
+          font-size: 28px;
+          font-weight: bold;
+          letter-spacing: 6px;
+        }
+        .event-details {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .detail-item {
+          display: flex;
+          margin: 10px 0;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .detail-label {
+          font-weight: 600;
+          width: 120px;
+          color: #666;
+        }
+        .detail-value {
+          color: #333;
+        }
+        .cta {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .button {
+          background: #667eea;
+          color: white;
+          padding: 12px 30px;
+          text-decoration: none;
+          border-radius: 5px;
+          display: inline-block;
+          font-weight: 600;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>👥 You're invited to a team</h1>
+      </div>
+
+      <div class="content">
+        <p>
+          ${escapeHTML(data.inviterName)} invited you to join <strong>${escapeHTML(data.teamName)}</strong>
+          for ${escapeHTML(data.eventName)}. Register with this join code before ${data.registrationEnd}:
+        </p>
+
+        <div class="code">${data.joinCode}</div>
+
+        <div class="event-details">
+          <h2>${escapeHTML(data.eventName)}</h2>
+          <div class="detail-item">
+            <div class="detail-label">📅 Date:</div>
+            <div class="detail-value">${data.eventDate}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">🕐 Time:</div>
+            <div class="detail-value">${data.eventTime}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">📍 Venue:</div>
+            <div class="detail-value">${escapeHTML(data.venueName)}</div>
+          </div>
+        </div>
+
+        <div class="cta">
+          <a href="${data.joinUrl}" class="button">
+            Join the Team →
+          </a>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// Emails a team's join code to people the captain invites, up to the room left in the team.
+// Each address is emailed once per team; repeats are skipped.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { token, emails }: TeamInvitesRequest = await req.json()
+
+    if (!token || !Array.isArray(emails) || emails.length === 0) {
+      throw new Error('Missing required fields: token, emails')
+    }
+    if (emails.length > MAX_INVITES_PER_REQUEST) {
+      throw new Error(`Invite at most ${MAX_INVITES_PER_REQUEST} people at a time`)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: registration, error: registrationError } = await supabaseClient
+      .from('registrations')
+      .select(`
+        id,
+        full_name,
+        status,
+        teams(id, name, join_code, status, locked_at, captain_registration_id),
+        events(id, event_name, start_time, end_time, registration_end, team_max_size, venues(venue_name))
+      `)
+      .eq('cancel_token', token)
+      .single()
+
+    if (registrationError) {
+      throw registrationError
+    }
+
+    const team = registration.teams
+    const event = registration.events
+    if (registration.status === 'cancelled' || !team || team.status === 'cancelled') {
+      throw new Error('Only members of an active team can send invites')
+    }
+    if (team.captain_registration_id !== registration.id) {
+      throw new Error('Only the team captain can send invites')
+    }
+    if (team.locked_at) {
+      throw new Error('This team is locked and not taking new members')
+    }
+    if (new Date(event.registration_end) <= new Date()) {
+      throw new Error('Registration for this event has closed')
+    }
+
+    const { count: members } = await supabaseClient
+      .from('registrations')
+      .select('id', { count: 'exact', head: true })
+      .eq('team_id', team.id)
+      .neq('status', 'cancelled')
+
+    const { data: alreadyInvited, error: invitesError } = await supabaseClient
+      .from('team_invites')
+      .select('email')
+      .eq('team_id', team.id)
+
+    if (invitesError) {
+      throw invitesError
+    }
+
+    const invited = new Set(alreadyInvited.map((invite) => invite.email))
+    const room = Math.max((event.team_max_size ?? 0) - (members ?? 0), 0)
+    const allowance = Math.max(MAX_INVITES_PER_TEAM - invited.size, 0)
+    const recipients = [...new Set(emails.map((email) => email.trim().toLowerCase()))]
+      .filter((email) => EMAIL_PATTERN.test(email) && !invited.has(email))
+      .slice(0, Math.min(room, allowance))
+
+    const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+    const html = generateInviteHTML({
+      inviterName: registration.full_name,
+      teamName: team.name,
+      joinCode: team.join_code,
+      eventName: event.event_name,
+      venueName: event.venues?.venue_name ?? 'TBA',
+      eventDate: formatEventDate(event.start_time),
+      eventTime: formatEventTimeRange(event.start_time, event.end_time),
+      registrationEnd: formatEventDateTime(event.registration_end),
+      joinUrl: `${siteUrl}/event/${event.id}?team=${team.join_code}`,
+    })
+
+    let emailsSent = 0
+    const emailErrors = []
+
+    for (const email of recipients) {
+      // Claim the address first; a concurrent call that got there already wins
+      const { error: claimError } = await supabaseClient
+        .from('team_invites')
+        .insert({ team_id: team.id, email })
+
+      if (claimError) {
+        continue
+      }
+
+      try {
+        await sendEmail({
+          to: email,
+          subject: `👥 Join ${team.name} for ${event.event_name}`,
+          html,
+        })
+        emailsSent++
+      } catch (error) {
+        // Let the captain try this address again
+        await supabaseClient.from('team_invites').delete().eq('team_id', team.id).eq('email', email)
+        emailErrors.push({
+          email,
+          error: error.message
+        })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        emailsSent,
+        skipped: emails.length - emailsSent - emailErrors.length,
+        errors: emailErrors
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
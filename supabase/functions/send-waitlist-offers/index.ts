@@ -0,0 +1,229 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventDateTime, formatEventTimeRange } from '../_shared/timezone.ts'
+
+interface WaitlistEmailDetails {
+  eventName: string
+  venueName: string
+  eventDate: string
+  eventTime: string
+  holdExpires: string
+  offered: boolean
+}
+
+function generateWaitlistHTML(data: WaitlistEmailDetails) {
+  const accent = data.offered ? '#10b981' : '#6b7280'
+  const title = data.offered ? '🎉 A venue slot opened up' : '⌛ Your venue hold has expired'
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: ${accent};
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .event-details {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .detail-item {
+          display: flex;
+          margin: 10px 0;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .detail-label {
+          font-weight: 600;
+          width: 120px;
+          color: #666;
+        }
+        .detail-value {
+          color: #333;
+        }
+        .cta {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .button {
+          background: ${accent};
+          color: white;
+          padding: 12px 30px;
+          text-decoration: none;
+          border-radius: 5px;
+          display: inline-block;
+          font-weight: 600;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${title}</h1>
+      </div>
+
+      <div class="content">
+        <p>
+          ${data.offered
+            ? `The slot your club was waiting for is free again and is being held for you until <strong>${data.holdExpires}</strong>. Book it before then or it goes to the next club in line.`
+            : 'The slot offered to your club from the waitlist was not booked in time, so the hold has been released.'}
+        </p>
+
+        <div class="event-details">
+          <h2>${escapeHTML(data.eventName)}</h2>
+          <div class="detail-item">
+            <div class="detail-label">📅 Date:</div>
+            <div class="detail-value">${data.eventDate}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">🕐 Time:</div>
+            <div class="detail-value">${data.eventTime}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">📍 Venue:</div>
+            <div class="detail-value">${escapeHTML(data.venueName)}</div>
+          </div>
+        </div>
+
+        ${data.offered ? `
+        <div class="cta">
+          <a href="${Deno.env.get('SITE_URL') || 'http://localhost:8080'}/#waitlist" class="button">
+            Book the Slot →
+          </a>
+        </div>` : ''}
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// Emails every club whose waitlist entry was offered a slot or whose hold lapsed since
+// they were last told. Safe to run repeatedly, including on a schedule to expire holds.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Expire lapsed holds and pass their slots on before collecting who to tell
+    const { error: sweepError } = await supabaseClient.rpc('offer_waitlisted_slots')
+    if (sweepError) {
+      throw sweepError
+    }
+
+    const { data: entries, error: entriesError } = await supabaseClient
+      .from('venue_waitlist')
+      .select(`
+        *,
+        venues(venue_name),
+        requester:profiles!venue_waitlist_requested_by_fkey(email)
+      `)
+      .in('status', ['offered', 'expired'])
+      .not('offered_at', 'is', null)
+
+    if (entriesError) {
+      throw entriesError
+    }
+
+    const pending = entries.filter((entry) => entry.notified_status !== entry.status)
+
+    let emailsSent = 0
+    const emailErrors = []
+
+    for (const entry of pending) {
+      try {
+        const email = entry.requester?.email
+        if (email) {
+          const offered = entry.status === 'offered'
+          const html = generateWaitlistHTML({
+            eventName: entry.event_name,
+            venueName: entry.venues?.venue_name ?? 'TBA',
+            eventDate: formatEventDate(entry.starts_at),
+            eventTime: formatEventTimeRange(entry.starts_at, entry.ends_at),
+            holdExpires: entry.offer_expires_at ? formatEventDateTime(entry.offer_expires_at) : '',
+            offered,
+          })
+
+          await sendEmail({
+            to: email,
+            subject: offered
+              ? `🎉 Slot available: ${entry.venues?.venue_name ?? 'venue'} for ${entry.event_name}`
+              : `⌛ Hold expired: ${entry.event_name}`,
+            html,
+          })
+          emailsSent++
+        }
+
+        await supabaseClient
+          .from('venue_waitlist')
+          .update({ notified_status: entry.status })
+          .eq('id', entry.id)
+      } catch (error) {
+        emailErrors.push({
+          entryId: entry.id,
+          error: error.message
+        })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        emailsSent,
+        totalEntries: pending.length,
+        errors: emailErrors
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
@@ -1,4 +1,9 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import QRCode from 'https://esm.sh/qrcode@1.5.4?target=deno'
+import { EmailAttachment, escapeHTML, sendEmail } from '../_shared/email.ts'
+import { formatEventDate, formatEventDateTime, formatEventTimeRange } from '../_shared/timezone.ts'
+import { buildCalendar, calendarFeedUrl, eventToIcs, ICS_SOURCE_COLUMNS, IcsSourceEvent } from '../_shared/ics.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,9 +17,81 @@ interface WelcomeEmailRequest {
   eventTime: string
   venueName: string
   registrationEnd: string
+  // Set when the event goes along as an .ics attachment
+  calendarAttached?: boolean
+  // Subscribe link for the recipient's personal calendar feed
+  calendarFeedUrl?: string
 }
 
-async function sendWelcomeEmail(emailData: WelcomeEmailRequest) {
+// Raw ISO timestamps, formatted here in the campus timezone when provided
+interface WelcomeEmailTimes {
+  startTime?: string
+  endTime?: string
+  registrationEndTime?: string
+}
+
+// A confirmed registration's ticket email, looked up by its manage token
+interface TicketEmailRequest {
+  registrationToken: string
+  // Confirmed off the waitlist rather than straight away
+  promoted?: boolean
+}
+
+interface TicketEmailDetails {
+  fullName: string
+  eventName: string
+  venueName: string
+  eventDate: string
+  eventTime: string
+  manageUrl: string
+  ticket: string
+  promoted: boolean
+  calendarAttached: boolean
+}
+
+const TICKET_CONTENT_ID = 'ticket-qr'
+
+// The ticket as an inline PNG, so it shows without loading remote images
+async function ticketAttachment(ticket: string): Promise<EmailAttachment> {
+  const dataUrl: string = await QRCode.toDataURL(ticket, { width: 240, margin: 1 })
+  return {
+    filename: 'ticket.png',
+    content: dataUrl.replace(/^data:image\/png;base64,/, ''),
+    contentId: TICKET_CONTENT_ID,
+  }
+}
+
+// The event as an .ics attachment plus the recipient's feed, when the event can be found
+async function calendarExtras(eventId: string | undefined, email: string) {
+  if (!eventId) return null
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+
+  const [{ data: event }, { data: feedToken }] = await Promise.all([
+    supabaseClient.from('events').select(ICS_SOURCE_COLUMNS).eq('id', eventId).maybeSingle(),
+    supabaseClient.rpc('calendar_feed_token', { _email: email }),
+  ])
+
+  if (!event) return null
+
+  const ics = buildCalendar(event.event_name, [eventToIcs(event as IcsSourceEvent, siteUrl)])
+  return {
+    attachment: {
+      filename: 'event.ics',
+      content: btoa(String.fromCharCode(...new TextEncoder().encode(ics))),
+    },
+    feedUrl: feedToken ? calendarFeedUrl(Deno.env.get('SUPABASE_URL') ?? '', { token: feedToken }, true) : undefined,
+  }
+}
+
+async function sendWelcomeEmail(
+  emailData: WelcomeEmailRequest,
+  attachments: { filename: string; content: string }[] = []
+) {
   const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
   
   if (!RESEND_API_KEY) {
@@ -34,6 +111,7 @@ async function sendWelcomeEmail(emailData: WelcomeEmailRequest) {
       to: [emailData.email],
       subject: `✅ You're subscribed to ${emailData.eventName}`,
       html: html,
+      attachments,
     }),
   })
 
@@ -142,6 +220,16 @@ function generateWelcomeHTML(data: WelcomeEmailRequest) {
           </div>
         </div>
         
+        ${data.calendarAttached ? `
+        <p>📅 The event is attached as a calendar file; open it to add it to Google Calendar, Outlook or Apple Calendar.</p>
+        ` : ''}
+        ${data.calendarFeedUrl ? `
+        <p>
+          Want every event you subscribe or register to in your calendar?
+          <a href="${data.calendarFeedUrl}">Subscribe to your personal feed</a>; it updates when events change.
+        </p>
+        ` : ''}
+
         <p><strong>What happens next?</strong></p>
         <ul>
           <li>We'll send you a reminder email 2 hours before registration closes</li>
@@ -159,6 +247,198 @@ function generateWelcomeHTML(data: WelcomeEmailRequest) {
   `
 }
 
+function generateTicketHTML(data: TicketEmailDetails) {
+  const title = data.promoted ? '🎉 A seat opened up' : "✅ You're registered"
+  const message = data.promoted
+    ? 'Someone cancelled and you were next on the waitlist, so your seat is now confirmed.'
+    : 'Your seat is confirmed. See you there!'
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title} - ${escapeHTML(data.eventName)}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background: linear-gradient(135deg, #10b981 0%, #059669 100%);
+          color: white;
+          padding: 30px 20px;
+          text-align: center;
+          border-radius: 10px 10px 0 0;
+        }
+        .content {
+          background: #f8f9fa;
+          padding: 30px 20px;
+          border-radius: 0 0 10px 10px;
+        }
+        .event-details {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .detail-item {
+          display: flex;
+          margin: 10px 0;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .detail-label {
+          font-weight: 600;
+          width: 120px;
+          color: #666;
+        }
+        .detail-value {
+          color: #333;
+        }
+        .ticket {
+          background: white;
+          padding: 20px;
+          border-radius: 8px;
+          margin: 20px 0;
+          text-align: center;
+        }
+        .ticket-code {
+          font-family: monospace;
+          font-size: 11px;
+          color: #666;
+          word-break: break-all;
+        }
+        .cta {
+          text-align: center;
+          margin: 30px 0;
+        }
+        .button {
+          background: #10b981;
+          color: white;
+          padding: 12px 30px;
+          text-decoration: none;
+          border-radius: 5px;
+          display: inline-block;
+          font-weight: 600;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          color: #666;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${title}</h1>
+      </div>
+
+      <div class="content">
+        <p>Hi ${escapeHTML(data.fullName)},</p>
+        <p>${message}</p>
+
+        <div class="event-details">
+          <h2>${escapeHTML(data.eventName)}</h2>
+          <div class="detail-item">
+            <div class="detail-label">📅 Date:</div>
+            <div class="detail-value">${data.eventDate}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">🕐 Time:</div>
+            <div class="detail-value">${data.eventTime}</div>
+          </div>
+          <div class="detail-item">
+            <div class="detail-label">📍 Venue:</div>
+            <div class="detail-value">${escapeHTML(data.venueName)}</div>
+          </div>
+        </div>
+
+        <div class="ticket">
+          <h3>🎟️ Your Ticket</h3>
+          <img src="cid:${TICKET_CONTENT_ID}" alt="Ticket QR code" width="240" height="240">
+          <p>Show this code at the entrance to check in.</p>
+          <p class="ticket-code">${data.ticket}</p>
+        </div>
+
+        ${data.calendarAttached ? `
+        <p>📅 The event is attached as a calendar file; open it to add it to Google Calendar, Outlook or Apple Calendar.</p>
+        ` : ''}
+
+        <div class="cta">
+          <a href="${data.manageUrl}" class="button">
+            View or Cancel Registration →
+          </a>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>VIT Event Hub | VIT Chennai</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// Confirms a registration with its signed QR ticket; only confirmed seats get one
+async function sendTicketEmail({ registrationToken, promoted }: TicketEmailRequest) {
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:8080'
+
+  const { data: registration, error: registrationError } = await supabaseClient
+    .from('registrations')
+    .select('id, full_name, email, status, cancel_token, events(id, event_name, start_time, end_time, venues(venue_name))')
+    .eq('cancel_token', registrationToken)
+    .single()
+
+  if (registrationError) {
+    throw registrationError
+  }
+  if (registration.status !== 'confirmed') {
+    throw new Error('Only confirmed registrations get a ticket')
+  }
+
+  const event = registration.events
+  const { data: ticket, error: ticketError } = await supabaseClient.rpc('sign_ticket', {
+    _event_id: event.id,
+    _registration_id: registration.id,
+  })
+
+  if (ticketError) {
+    throw ticketError
+  }
+
+  const calendar = await calendarExtras(event.id, registration.email)
+  const html = generateTicketHTML({
+    fullName: registration.full_name,
+    eventName: event.event_name,
+    venueName: event.venues?.venue_name ?? 'TBA',
+    eventDate: formatEventDate(event.start_time),
+    eventTime: formatEventTimeRange(event.start_time, event.end_time),
+    manageUrl: `${siteUrl}/event/${event.id}?registration=${registration.cancel_token}`,
+    ticket,
+    promoted: !!promoted,
+    calendarAttached: !!calendar,
+  })
+
+  await sendEmail({
+    to: registration.email,
+    subject: `${promoted ? '🎉 A seat opened up' : "✅ You're registered"}: ${event.event_name}`,
+    html,
+    attachments: [await ticketAttachment(ticket), ...(calendar ? [calendar.attachment] : [])],
+  })
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -166,20 +446,50 @@ serve(async (req) => {
   }
 
   try {
-    const { email, eventName, eventDate, eventTime, venueName, registrationEnd }: WelcomeEmailRequest = await req.json()
+    const body = await req.json()
+
+    // Registrations get their ticket; everything else is a subscription confirmation
+    if (body.registrationToken) {
+      await sendTicketEmail(body as TicketEmailRequest)
+
+      return new Response(
+        JSON.stringify({ success: true, message: 'Ticket email sent successfully' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    const {
+      email,
+      eventId,
+      eventName,
+      eventDate,
+      eventTime,
+      venueName,
+      registrationEnd,
+      startTime,
+      endTime,
+      registrationEndTime,
+    }: WelcomeEmailRequest & WelcomeEmailTimes & { eventId?: string } = body
 
     if (!email || !eventName) {
       throw new Error('Missing required fields: email and eventName')
     }
 
+    const calendar = await calendarExtras(eventId, email)
+
     await sendWelcomeEmail({
       email,
       eventName,
-      eventDate,
-      eventTime,
+      eventDate: startTime ? formatEventDate(startTime) : eventDate,
+      eventTime: startTime && endTime ? formatEventTimeRange(startTime, endTime) : eventTime,
       venueName,
-      registrationEnd
-    })
+      registrationEnd: registrationEndTime ? formatEventDateTime(registrationEndTime) : registrationEnd,
+      calendarAttached: !!calendar,
+      calendarFeedUrl: calendar?.feedUrl,
+    }, calendar ? [calendar.attachment] : [])
 
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,53 @@
+-- Enforce non-overlapping venue bookings in the database
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Set only by super admins to knowingly double-book a venue
+ALTER TABLE public.events
+    ADD COLUMN conflict_override BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.events
+    ADD CONSTRAINT events_end_after_start CHECK (end_time > start_time);
+
+-- Grandfather existing bookings that overlap an earlier booking at the same venue
+UPDATE public.events e
+SET conflict_override = true
+WHERE EXISTS (
+    SELECT 1
+    FROM public.events other
+    WHERE other.venue_id = e.venue_id
+      AND other.id <> e.id
+      AND tstzrange(other.start_time, other.end_time) && tstzrange(e.start_time, e.end_time)
+      AND (other.start_time, other.id) < (e.start_time, e.id)
+);
+
+ALTER TABLE public.events
+    ADD CONSTRAINT events_no_venue_overlap
+    EXCLUDE USING gist (
+        venue_id WITH =,
+        tstzrange(start_time, end_time) WITH &&
+    )
+    WHERE (NOT conflict_override);
+
+-- Only super admins may turn the override on (server-side jobs have no auth.uid())
+CREATE OR REPLACE FUNCTION public.guard_conflict_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.conflict_override
+       AND (TG_OP = 'INSERT' OR NOT OLD.conflict_override)
+       AND auth.uid() IS NOT NULL
+       AND NOT public.has_role(auth.uid(), 'super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can override venue conflicts'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_events_conflict_override
+    BEFORE INSERT OR UPDATE OF conflict_override ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_conflict_override();
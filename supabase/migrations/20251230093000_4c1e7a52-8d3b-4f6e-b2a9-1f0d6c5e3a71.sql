@@ -0,0 +1,62 @@
+-- Weekly opening hours per venue, in campus wall-clock time.
+-- A weekday without a row means the venue is closed that day.
+CREATE TABLE public.venue_hours (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+    open_time TIME NOT NULL,
+    close_time TIME NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT venue_hours_close_after_open CHECK (close_time > open_time),
+    CONSTRAINT venue_hours_venue_weekday_key UNIQUE (venue_id, weekday)
+);
+
+-- Dated periods when a venue can't be booked (exams, maintenance, holidays)
+CREATE TABLE public.venue_blackouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reason TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT venue_blackouts_end_after_start CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX venue_blackouts_venue_range_idx
+    ON public.venue_blackouts USING gist (venue_id, tstzrange(starts_at, ends_at));
+
+ALTER TABLE public.venue_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.venue_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venue hours" ON public.venue_hours FOR SELECT USING (true);
+CREATE POLICY "Super admins can manage venue hours" ON public.venue_hours FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Anyone can view venue blackouts" ON public.venue_blackouts FOR SELECT USING (true);
+CREATE POLICY "Super admins can manage venue blackouts" ON public.venue_blackouts FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+
+-- Keep the previous fixed 9 AM - 9 PM window as every venue's starting schedule
+INSERT INTO public.venue_hours (venue_id, weekday, open_time, close_time)
+SELECT v.id, d.weekday, '09:00', '21:00'
+FROM public.venues v
+CROSS JOIN generate_series(0, 6) AS d(weekday);
+
+CREATE OR REPLACE FUNCTION public.seed_venue_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.venue_hours (venue_id, weekday, open_time, close_time)
+    SELECT NEW.id, d.weekday, '09:00', '21:00'
+    FROM generate_series(0, 6) AS d(weekday);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_venue_hours_on_insert
+    AFTER INSERT ON public.venues
+    FOR EACH ROW
+    EXECUTE FUNCTION public.seed_venue_hours();
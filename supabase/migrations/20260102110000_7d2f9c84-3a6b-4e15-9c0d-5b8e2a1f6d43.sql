@@ -0,0 +1,89 @@
+-- Setup and teardown time kept free around every booking.
+-- Venues carry the default; an event may override either side (NULL = venue default).
+ALTER TABLE public.venues
+    ADD COLUMN setup_minutes INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN teardown_minutes INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT venues_setup_minutes_range CHECK (setup_minutes BETWEEN 0 AND 240),
+    ADD CONSTRAINT venues_teardown_minutes_range CHECK (teardown_minutes BETWEEN 0 AND 240);
+
+ALTER TABLE public.events
+    ADD COLUMN setup_minutes INTEGER,
+    ADD COLUMN teardown_minutes INTEGER,
+    ADD CONSTRAINT events_setup_minutes_range CHECK (setup_minutes BETWEEN 0 AND 240),
+    ADD CONSTRAINT events_teardown_minutes_range CHECK (teardown_minutes BETWEEN 0 AND 240);
+
+-- Time the venue is actually held: the event plus its effective buffers
+ALTER TABLE public.events
+    ADD COLUMN booked_range TSTZRANGE;
+
+CREATE OR REPLACE FUNCTION public.set_event_booked_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    venue_setup INTEGER;
+    venue_teardown INTEGER;
+BEGIN
+    SELECT setup_minutes, teardown_minutes
+    INTO venue_setup, venue_teardown
+    FROM public.venues
+    WHERE id = NEW.venue_id;
+
+    NEW.booked_range := tstzrange(
+        NEW.start_time - make_interval(mins => COALESCE(NEW.setup_minutes, venue_setup, 0)),
+        NEW.end_time + make_interval(mins => COALESCE(NEW.teardown_minutes, venue_teardown, 0))
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_events_booked_range
+    BEFORE INSERT OR UPDATE OF start_time, end_time, venue_id, setup_minutes, teardown_minutes, booked_range
+    ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_event_booked_range();
+
+-- Every venue starts with no buffer, so existing ranges equal the event times
+UPDATE public.events
+SET booked_range = tstzrange(start_time, end_time);
+
+ALTER TABLE public.events
+    ALTER COLUMN booked_range SET NOT NULL;
+
+ALTER TABLE public.events
+    DROP CONSTRAINT events_no_venue_overlap;
+
+ALTER TABLE public.events
+    ADD CONSTRAINT events_no_venue_overlap
+    EXCLUDE USING gist (
+        venue_id WITH =,
+        booked_range WITH &&
+    )
+    WHERE (NOT conflict_override);
+
+-- Changing a venue's buffers re-holds its upcoming bookings that use the default.
+-- Fails with the overlap constraint if the new buffer would make them clash.
+CREATE OR REPLACE FUNCTION public.refresh_venue_booked_ranges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.events
+    SET booked_range = NULL
+    WHERE venue_id = NEW.id
+      AND end_time > now()
+      AND (setup_minutes IS NULL OR teardown_minutes IS NULL);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_venue_booked_ranges_on_buffer_change
+    AFTER UPDATE OF setup_minutes, teardown_minutes ON public.venues
+    FOR EACH ROW
+    WHEN (OLD.setup_minutes IS DISTINCT FROM NEW.setup_minutes
+          OR OLD.teardown_minutes IS DISTINCT FROM NEW.teardown_minutes)
+    EXECUTE FUNCTION public.refresh_venue_booked_ranges();
@@ -0,0 +1,32 @@
+-- Recurring events: the rule lives on event_series, each occurrence is an ordinary events row
+CREATE TABLE public.event_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    club_id UUID NOT NULL REFERENCES public.clubs(id) ON DELETE CASCADE,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 12),
+    -- Weekly only: days of the week it repeats on, 0 = Sunday
+    by_weekday SMALLINT[] NOT NULL DEFAULT '{}',
+    until_date DATE,
+    occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 52),
+    -- Campus dates skipped by the rule
+    exception_dates DATE[] NOT NULL DEFAULT '{}',
+    -- RRULE text (RFC 5545) for the same rule, for display and calendar export
+    rrule TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT event_series_has_end CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE public.events
+    ADD COLUMN series_id UUID REFERENCES public.event_series(id) ON DELETE SET NULL;
+
+CREATE INDEX events_series_start_idx ON public.events (series_id, start_time);
+
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view event series" ON public.event_series FOR SELECT USING (true);
+CREATE POLICY "Super admins can manage all event series" ON public.event_series FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club POCs can manage own club event series" ON public.event_series FOR ALL USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+);
@@ -0,0 +1,154 @@
+-- Venue bookings start as requests that a super admin or the venue's manager approves or rejects.
+ALTER TABLE public.events
+    ADD COLUMN approval_status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (approval_status IN ('requested', 'approved', 'rejected')),
+    ADD COLUMN approval_reason TEXT,
+    ADD COLUMN decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN decided_at TIMESTAMP WITH TIME ZONE;
+
+-- Everything booked before the workflow existed stays as it was
+UPDATE public.events
+SET approval_status = 'approved', decided_at = now();
+
+CREATE INDEX events_approval_status_start_idx ON public.events (approval_status, start_time);
+
+-- Users allowed to decide booking requests for a venue, alongside super admins
+CREATE TABLE public.venue_managers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT venue_managers_venue_user_key UNIQUE (venue_id, user_id)
+);
+
+ALTER TABLE public.venue_managers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venue managers" ON public.venue_managers FOR SELECT USING (true);
+CREATE POLICY "Super admins can manage venue managers" ON public.venue_managers FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE OR REPLACE FUNCTION public.can_decide_booking(_user_id UUID, _venue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'super_admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.venue_managers
+      WHERE user_id = _user_id
+        AND venue_id = _venue_id
+    )
+$$;
+
+-- Keeps the approval columns in the hands of approvers. Bookings made by an approver
+-- for a venue they look after are approved straight away; anyone else's start as
+-- requests, and moving a booking to another venue or time sends it back for review.
+CREATE OR REPLACE FUNCTION public.guard_event_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    deciding BOOLEAN := current_setting('app.booking_decision', true) = 'on';
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF public.can_decide_booking(auth.uid(), NEW.venue_id) THEN
+            NEW.approval_status := 'approved';
+            NEW.decided_by := auth.uid();
+            NEW.decided_at := now();
+        ELSE
+            NEW.approval_status := 'requested';
+            NEW.decided_by := NULL;
+            NEW.decided_at := NULL;
+        END IF;
+        NEW.approval_reason := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF deciding THEN
+        RETURN NEW;
+    END IF;
+
+    -- Direct updates can't touch the decision itself
+    NEW.approval_status := OLD.approval_status;
+    NEW.approval_reason := OLD.approval_reason;
+    NEW.decided_by := OLD.decided_by;
+    NEW.decided_at := OLD.decided_at;
+
+    IF (NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.start_time IS DISTINCT FROM OLD.start_time
+        OR NEW.end_time IS DISTINCT FROM OLD.end_time
+        OR OLD.approval_status = 'rejected')
+       AND NOT public.can_decide_booking(auth.uid(), NEW.venue_id) THEN
+        NEW.approval_status := 'requested';
+        NEW.approval_reason := NULL;
+        NEW.decided_by := NULL;
+        NEW.decided_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_events_approval
+    BEFORE INSERT OR UPDATE ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_event_approval();
+
+-- Approve or reject a booking request. Only super admins and the venue's managers may decide.
+CREATE OR REPLACE FUNCTION public.decide_booking(_event_id UUID, _status TEXT, _reason TEXT DEFAULT NULL)
+RETURNS public.events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.events;
+BEGIN
+    IF _status NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid booking decision: %', _status;
+    END IF;
+
+    IF _status = 'rejected' AND COALESCE(btrim(_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to reject a booking';
+    END IF;
+
+    SELECT * INTO target FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found';
+    END IF;
+
+    IF NOT public.can_decide_booking(auth.uid(), target.venue_id) THEN
+        RAISE EXCEPTION 'Only super admins and venue managers can decide booking requests'
+            USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM set_config('app.booking_decision', 'on', true);
+
+    UPDATE public.events
+    SET approval_status = _status,
+        approval_reason = NULLIF(btrim(_reason), ''),
+        decided_by = auth.uid(),
+        decided_at = now()
+    WHERE id = _event_id
+    RETURNING * INTO target;
+
+    PERFORM set_config('app.booking_decision', 'off', true);
+
+    RETURN target;
+END;
+$$;
+
+-- A rejected request no longer holds the venue
+ALTER TABLE public.events
+    DROP CONSTRAINT events_no_venue_overlap;
+
+ALTER TABLE public.events
+    ADD CONSTRAINT events_no_venue_overlap
+    EXCLUDE USING gist (
+        venue_id WITH =,
+        booked_range WITH &&
+    )
+    WHERE (NOT conflict_override AND approval_status <> 'rejected');
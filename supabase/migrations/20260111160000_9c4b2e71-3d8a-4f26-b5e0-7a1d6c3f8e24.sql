@@ -0,0 +1,214 @@
+-- Clubs queue for a venue and time that's already booked. When the booking is
+-- deleted, moved or rejected, the first club in line is offered the slot and it
+-- is held for them until the offer expires.
+CREATE TABLE public.venue_waitlist (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    club_id UUID NOT NULL REFERENCES public.clubs(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    event_name TEXT NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'offered', 'claimed', 'expired')),
+    offered_at TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    claimed_event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    -- Last status the requester was emailed about
+    notified_status TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT venue_waitlist_end_after_start CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX venue_waitlist_venue_status_idx ON public.venue_waitlist (venue_id, status, created_at);
+
+-- A club can only queue once for the same slot
+CREATE UNIQUE INDEX venue_waitlist_active_slot_key
+    ON public.venue_waitlist (club_id, venue_id, starts_at, ends_at)
+    WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE public.venue_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage the venue waitlist" ON public.venue_waitlist FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club POCs can view own club waitlist" ON public.venue_waitlist FOR SELECT USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+);
+CREATE POLICY "Club POCs can join the waitlist for own club" ON public.venue_waitlist FOR INSERT WITH CHECK (
+    public.has_role(auth.uid(), 'club_poc') AND
+    club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid()) AND
+    status = 'waiting'
+);
+CREATE POLICY "Club POCs can leave the waitlist for own club" ON public.venue_waitlist FOR DELETE USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+);
+
+-- How long a freed slot is held for the club it's offered to
+CREATE OR REPLACE FUNCTION public.waitlist_hold_interval()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '24 hours'
+$$;
+
+-- Expires stale offers, then offers every free slot to the earliest club waiting for it.
+-- Pass a venue to limit the sweep to it. Returns how many offers were made.
+CREATE OR REPLACE FUNCTION public.offer_waitlisted_slots(_venue_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    entry public.venue_waitlist;
+    offered INTEGER := 0;
+BEGIN
+    UPDATE public.venue_waitlist
+    SET status = 'expired'
+    WHERE (_venue_id IS NULL OR venue_id = _venue_id)
+      AND ((status = 'offered' AND offer_expires_at <= now())
+           OR (status = 'waiting' AND starts_at <= now()));
+
+    FOR entry IN
+        SELECT *
+        FROM public.venue_waitlist
+        WHERE (_venue_id IS NULL OR venue_id = _venue_id)
+          AND status = 'waiting'
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM public.events e
+            WHERE e.venue_id = entry.venue_id
+              AND NOT e.conflict_override
+              AND e.approval_status <> 'rejected'
+              AND e.booked_range && tstzrange(entry.starts_at, entry.ends_at)
+        );
+
+        -- An earlier club already holds part of this slot
+        CONTINUE WHEN EXISTS (
+            SELECT 1
+            FROM public.venue_waitlist w
+            WHERE w.venue_id = entry.venue_id
+              AND w.status = 'offered'
+              AND tstzrange(w.starts_at, w.ends_at) && tstzrange(entry.starts_at, entry.ends_at)
+        );
+
+        UPDATE public.venue_waitlist
+        SET status = 'offered',
+            offered_at = now(),
+            offer_expires_at = LEAST(now() + public.waitlist_hold_interval(), entry.starts_at)
+        WHERE id = entry.id;
+
+        offered := offered + 1;
+    END LOOP;
+
+    RETURN offered;
+END;
+$$;
+
+-- A booking leaving its slot may free it for the waitlist
+CREATE OR REPLACE FUNCTION public.offer_freed_venue_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.offer_waitlisted_slots(OLD.venue_id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER offer_freed_venue_slot_on_delete
+    AFTER DELETE ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.offer_freed_venue_slot();
+
+CREATE TRIGGER offer_freed_venue_slot_on_update
+    AFTER UPDATE OF venue_id, start_time, end_time, booked_range, approval_status ON public.events
+    FOR EACH ROW
+    WHEN (OLD.venue_id IS DISTINCT FROM NEW.venue_id
+          OR OLD.booked_range IS DISTINCT FROM NEW.booked_range
+          OR OLD.approval_status IS DISTINCT FROM NEW.approval_status)
+    EXECUTE FUNCTION public.offer_freed_venue_slot();
+
+-- A club turning down an offer passes the slot on
+CREATE OR REPLACE FUNCTION public.pass_on_declined_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.offer_waitlisted_slots(OLD.venue_id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER pass_on_declined_waitlist_offer
+    AFTER DELETE ON public.venue_waitlist
+    FOR EACH ROW
+    WHEN (OLD.status = 'offered')
+    EXECUTE FUNCTION public.pass_on_declined_offer();
+
+-- Nobody but the club it's offered to can book a held slot, unless a super admin overrides
+CREATE OR REPLACE FUNCTION public.respect_waitlist_holds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.conflict_override THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.venue_waitlist
+        WHERE venue_id = NEW.venue_id
+          AND status = 'offered'
+          AND offer_expires_at > now()
+          AND club_id <> NEW.club_id
+          AND tstzrange(starts_at, ends_at) && tstzrange(NEW.start_time, NEW.end_time)
+    ) THEN
+        RAISE EXCEPTION 'This slot is being held for a club on the waitlist. Try another time, or check back once the hold expires.';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER respect_events_waitlist_holds
+    BEFORE INSERT OR UPDATE OF venue_id, start_time, end_time ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.respect_waitlist_holds();
+
+-- Booking an offered slot takes the club off the waitlist
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.venue_waitlist
+    SET status = 'claimed',
+        claimed_event_id = NEW.id
+    WHERE status = 'offered'
+      AND club_id = NEW.club_id
+      AND venue_id = NEW.venue_id
+      AND tstzrange(starts_at, ends_at) && tstzrange(NEW.start_time, NEW.end_time);
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER claim_waitlist_offer_on_booking
+    AFTER INSERT OR UPDATE OF venue_id, start_time, end_time ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.claim_waitlist_offer();
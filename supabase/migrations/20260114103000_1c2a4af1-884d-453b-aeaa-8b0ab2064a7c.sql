@@ -0,0 +1,276 @@
+-- Attendee registration. An event seats up to its own capacity, or its venue's when
+-- it doesn't set one. Once full, new registrations join a waitlist that is promoted
+-- in order as seats free up.
+ALTER TABLE public.events
+    ADD COLUMN capacity INTEGER CHECK (capacity IS NULL OR capacity > 0);
+
+CREATE TABLE public.registrations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    -- Set when the attendee was signed in; registering doesn't need an account
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'confirmed'
+        CHECK (status IN ('confirmed', 'waitlisted', 'cancelled')),
+    -- Lets whoever registered look up or cancel their registration without signing in
+    cancel_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    promoted_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    -- Last status the attendee was emailed about
+    notified_status TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX registrations_event_status_idx ON public.registrations (event_id, status, created_at);
+
+-- One active registration per email and event
+CREATE UNIQUE INDEX registrations_active_email_key
+    ON public.registrations (event_id, lower(email))
+    WHERE status <> 'cancelled';
+
+ALTER TABLE public.registrations ENABLE ROW LEVEL SECURITY;
+
+-- Registering and cancelling go through the functions below, which enforce capacity
+CREATE POLICY "Super admins can manage registrations" ON public.registrations FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club POCs can view registrations for own club events" ON public.registrations FOR SELECT USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+    )
+);
+CREATE POLICY "Users can view own registrations" ON public.registrations FOR SELECT USING (user_id = auth.uid());
+
+-- Seats an event offers; NULL means unlimited
+CREATE OR REPLACE FUNCTION public.event_capacity(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(e.capacity, v.capacity)
+  FROM public.events e
+  LEFT JOIN public.venues v ON v.id = e.venue_id
+  WHERE e.id = _event_id
+$$;
+
+-- Public seat counts, without exposing who registered
+CREATE OR REPLACE FUNCTION public.get_event_seats(_event_ids UUID[])
+RETURNS TABLE (event_id UUID, capacity INTEGER, confirmed INTEGER, waitlisted INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    COALESCE(e.capacity, v.capacity),
+    (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'confirmed'),
+    (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'waitlisted')
+  FROM public.events e
+  LEFT JOIN public.venues v ON v.id = e.venue_id
+  WHERE e.id = ANY(_event_ids)
+$$;
+
+-- Moves the earliest waitlisted registrations into any free seats. Returns how many were promoted.
+CREATE OR REPLACE FUNCTION public.promote_waitlisted_registrations(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    seats INTEGER;
+    taken INTEGER;
+    promoted INTEGER;
+BEGIN
+    -- Serialises with registrations for the same event
+    PERFORM 1 FROM public.events WHERE id = _event_id AND end_time > now() FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+    SELECT count(*) INTO taken
+    FROM public.registrations
+    WHERE event_id = _event_id AND status = 'confirmed';
+
+    UPDATE public.registrations
+    SET status = 'confirmed',
+        promoted_at = now()
+    WHERE id IN (
+        SELECT id
+        FROM public.registrations
+        WHERE event_id = _event_id AND status = 'waitlisted'
+        ORDER BY created_at
+        LIMIT CASE WHEN seats IS NULL THEN NULL ELSE GREATEST(seats - taken, 0) END
+    );
+
+    GET DIAGNOSTICS promoted = ROW_COUNT;
+    RETURN promoted;
+END;
+$$;
+
+-- Takes a seat when one is free, otherwise joins the waitlist
+CREATE OR REPLACE FUNCTION public.register_for_event(_event_id UUID, _full_name TEXT, _email TEXT)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    seats INTEGER;
+    taken INTEGER;
+    registration public.registrations;
+BEGIN
+    SELECT * INTO ev FROM public.events WHERE id = _event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found';
+    END IF;
+
+    IF ev.approval_status <> 'approved'
+       OR NOT COALESCE(ev.is_open, false)
+       OR now() < ev.registration_start
+       OR now() >= ev.registration_end THEN
+        RAISE EXCEPTION 'Registration is closed for this event';
+    END IF;
+
+    IF COALESCE(btrim(_full_name), '') = '' OR COALESCE(btrim(_email), '') = '' THEN
+        RAISE EXCEPTION 'Name and email are required';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.registrations
+        WHERE event_id = _event_id
+          AND lower(email) = lower(btrim(_email))
+          AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'This email is already registered for the event' USING ERRCODE = '23505';
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+    SELECT count(*) INTO taken
+    FROM public.registrations
+    WHERE event_id = _event_id AND status = 'confirmed';
+
+    INSERT INTO public.registrations (event_id, user_id, full_name, email, status)
+    VALUES (
+        _event_id,
+        auth.uid(),
+        btrim(_full_name),
+        btrim(_email),
+        CASE WHEN seats IS NULL OR taken < seats THEN 'confirmed' ELSE 'waitlisted' END
+    )
+    RETURNING * INTO registration;
+
+    RETURN registration;
+END;
+$$;
+
+-- Looks a registration up by the token handed out when registering
+CREATE OR REPLACE FUNCTION public.get_registration(_token UUID)
+RETURNS SETOF public.registrations
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.registrations WHERE cancel_token = _token
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_registration(_token UUID)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    registration public.registrations;
+BEGIN
+    UPDATE public.registrations
+    SET status = 'cancelled',
+        cancelled_at = now()
+    WHERE cancel_token = _token AND status <> 'cancelled'
+    RETURNING * INTO registration;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Registration not found or already cancelled';
+    END IF;
+
+    RETURN registration;
+END;
+$$;
+
+-- A confirmed attendee leaving frees a seat for the waitlist
+CREATE OR REPLACE FUNCTION public.promote_on_freed_seat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.promote_waitlisted_registrations(OLD.event_id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_cancelled_registration
+    AFTER UPDATE OF status ON public.registrations
+    FOR EACH ROW
+    WHEN (OLD.status = 'confirmed' AND NEW.status <> 'confirmed')
+    EXECUTE FUNCTION public.promote_on_freed_seat();
+
+CREATE TRIGGER promote_on_deleted_registration
+    AFTER DELETE ON public.registrations
+    FOR EACH ROW
+    WHEN (OLD.status = 'confirmed')
+    EXECUTE FUNCTION public.promote_on_freed_seat();
+
+-- Raising an event's capacity, or moving it to a bigger venue, seats more of the waitlist
+CREATE OR REPLACE FUNCTION public.promote_on_event_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.promote_waitlisted_registrations(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_event_capacity_change
+    AFTER UPDATE OF capacity, venue_id ON public.events
+    FOR EACH ROW
+    WHEN (OLD.capacity IS DISTINCT FROM NEW.capacity OR OLD.venue_id IS DISTINCT FROM NEW.venue_id)
+    EXECUTE FUNCTION public.promote_on_event_capacity_change();
+
+-- Events without their own capacity follow the venue's
+CREATE OR REPLACE FUNCTION public.promote_on_venue_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev_id UUID;
+BEGIN
+    FOR ev_id IN
+        SELECT id FROM public.events
+        WHERE venue_id = NEW.id AND capacity IS NULL AND end_time > now()
+    LOOP
+        PERFORM public.promote_waitlisted_registrations(ev_id);
+    END LOOP;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_venue_capacity_change
+    AFTER UPDATE OF capacity ON public.venues
+    FOR EACH ROW
+    WHEN (OLD.capacity IS DISTINCT FROM NEW.capacity)
+    EXECUTE FUNCTION public.promote_on_venue_capacity_change();
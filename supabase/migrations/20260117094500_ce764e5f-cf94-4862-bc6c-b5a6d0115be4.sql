@@ -0,0 +1,151 @@
+-- Per-event registration forms. A POC designs the questions (text, dropdown,
+-- checkbox, file upload) and each registration keeps its answers.
+ALTER TABLE public.events
+    ADD COLUMN registration_form JSONB NOT NULL DEFAULT '[]'::jsonb
+        CHECK (jsonb_typeof(registration_form) = 'array');
+
+ALTER TABLE public.registrations
+    ADD COLUMN responses JSONB NOT NULL DEFAULT '{}'::jsonb
+        CHECK (jsonb_typeof(responses) = 'object');
+
+-- Files attached to registrations live under <event id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('registration-uploads', 'registration-uploads', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can upload files while registering" ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'registration-uploads' AND
+    (storage.foldername(name))[1] IN (
+        SELECT id::text FROM public.events
+        WHERE approval_status = 'approved'
+          AND is_open
+          AND now() >= registration_start
+          AND now() < registration_end
+    )
+);
+CREATE POLICY "Super admins can view registration files" ON storage.objects FOR SELECT USING (
+    bucket_id = 'registration-uploads' AND
+    public.has_role(auth.uid(), 'super_admin')
+);
+CREATE POLICY "Club POCs can view registration files for own club events" ON storage.objects FOR SELECT USING (
+    bucket_id = 'registration-uploads' AND
+    public.has_role(auth.uid(), 'club_poc') AND
+    (storage.foldername(name))[1] IN (
+        SELECT id::text FROM public.events
+        WHERE club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+    )
+);
+
+-- First problem with a set of answers to a form, or NULL when they satisfy it.
+-- The browser checks lengths, patterns and file types; this guards what must hold.
+CREATE OR REPLACE FUNCTION public.registration_form_error(_form JSONB, _responses JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    field JSONB;
+    answer JSONB;
+BEGIN
+    FOR field IN SELECT * FROM jsonb_array_elements(_form)
+    LOOP
+        answer := _responses -> (field ->> 'id');
+
+        IF COALESCE((field ->> 'required')::BOOLEAN, false) AND (
+            answer IS NULL
+            OR answer = 'null'::jsonb
+            OR answer = '""'::jsonb
+            OR answer = 'false'::jsonb
+        ) THEN
+            RETURN format('Please answer "%s"', field ->> 'label');
+        END IF;
+
+        IF field ->> 'type' = 'select'
+           AND answer IS NOT NULL
+           AND answer <> '""'::jsonb
+           AND NOT (field -> 'options') @> jsonb_build_array(answer) THEN
+            RETURN format('"%s" must be one of the listed options', field ->> 'label');
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Registering now takes the answers to the event's form
+DROP FUNCTION public.register_for_event(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.register_for_event(
+    _event_id UUID,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    seats INTEGER;
+    taken INTEGER;
+    form_error TEXT;
+    answers JSONB;
+    registration public.registrations;
+BEGIN
+    SELECT * INTO ev FROM public.events WHERE id = _event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found';
+    END IF;
+
+    IF ev.approval_status <> 'approved'
+       OR NOT COALESCE(ev.is_open, false)
+       OR now() < ev.registration_start
+       OR now() >= ev.registration_end THEN
+        RAISE EXCEPTION 'Registration is closed for this event';
+    END IF;
+
+    IF COALESCE(btrim(_full_name), '') = '' OR COALESCE(btrim(_email), '') = '' THEN
+        RAISE EXCEPTION 'Name and email are required';
+    END IF;
+
+    form_error := public.registration_form_error(ev.registration_form, COALESCE(_responses, '{}'::jsonb));
+    IF form_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', form_error;
+    END IF;
+
+    -- Keep only answers to questions the form actually asks
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO answers
+    FROM jsonb_each(COALESCE(_responses, '{}'::jsonb))
+    WHERE key IN (SELECT f ->> 'id' FROM jsonb_array_elements(ev.registration_form) f);
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.registrations
+        WHERE event_id = _event_id
+          AND lower(email) = lower(btrim(_email))
+          AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'This email is already registered for the event' USING ERRCODE = '23505';
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+    SELECT count(*) INTO taken
+    FROM public.registrations
+    WHERE event_id = _event_id AND status = 'confirmed';
+
+    INSERT INTO public.registrations (event_id, user_id, full_name, email, status, responses)
+    VALUES (
+        _event_id,
+        auth.uid(),
+        btrim(_full_name),
+        btrim(_email),
+        CASE WHEN seats IS NULL OR taken < seats THEN 'confirmed' ELSE 'waitlisted' END,
+        answers
+    )
+    RETURNING * INTO registration;
+
+    RETURN registration;
+END;
+$$;
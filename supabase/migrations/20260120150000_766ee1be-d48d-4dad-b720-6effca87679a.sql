@@ -0,0 +1,527 @@
+-- Team events. An event with a team size registers teams rather than individuals:
+-- a captain creates a team, members join with its code, and the captain locks it
+-- before registration ends. Capacity and the waitlist count teams.
+ALTER TABLE public.events
+    ADD COLUMN team_min_size INTEGER,
+    ADD COLUMN team_max_size INTEGER,
+    ADD CONSTRAINT events_team_size_valid CHECK (
+        (team_min_size IS NULL AND team_max_size IS NULL) OR
+        (team_min_size >= 1 AND team_max_size >= team_min_size)
+    );
+
+CREATE TABLE public.teams (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- Shared with teammates so they can join
+    join_code TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'confirmed'
+        CHECK (status IN ('confirmed', 'waitlisted', 'cancelled')),
+    captain_registration_id UUID,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    promoted_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX teams_event_status_idx ON public.teams (event_id, status, created_at);
+
+CREATE UNIQUE INDEX teams_active_name_key
+    ON public.teams (event_id, lower(name))
+    WHERE status <> 'cancelled';
+
+ALTER TABLE public.registrations
+    ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+ALTER TABLE public.teams
+    ADD CONSTRAINT teams_captain_registration_id_fkey
+    FOREIGN KEY (captain_registration_id) REFERENCES public.registrations(id) ON DELETE SET NULL;
+
+CREATE INDEX registrations_team_idx ON public.registrations (team_id);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+-- Join codes stay private; members reach their team through get_team
+CREATE POLICY "Super admins can manage teams" ON public.teams FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club POCs can view teams for own club events" ON public.teams FOR SELECT USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+    )
+);
+
+-- Team events without their own capacity fit as many full teams as the venue seats
+CREATE OR REPLACE FUNCTION public.event_capacity(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(e.capacity, v.capacity / COALESCE(e.team_max_size, 1))
+  FROM public.events e
+  LEFT JOIN public.venues v ON v.id = e.venue_id
+  WHERE e.id = _event_id
+$$;
+
+-- Seat counts; for team events they count teams
+CREATE OR REPLACE FUNCTION public.get_event_seats(_event_ids UUID[])
+RETURNS TABLE (event_id UUID, capacity INTEGER, confirmed INTEGER, waitlisted INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    COALESCE(e.capacity, v.capacity / COALESCE(e.team_max_size, 1)),
+    CASE WHEN e.team_max_size IS NULL
+      THEN (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'confirmed')
+      ELSE (SELECT count(*)::INTEGER FROM public.teams t WHERE t.event_id = e.id AND t.status = 'confirmed')
+    END,
+    CASE WHEN e.team_max_size IS NULL
+      THEN (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'waitlisted')
+      ELSE (SELECT count(*)::INTEGER FROM public.teams t WHERE t.event_id = e.id AND t.status = 'waitlisted')
+    END
+  FROM public.events e
+  LEFT JOIN public.venues v ON v.id = e.venue_id
+  WHERE e.id = ANY(_event_ids)
+$$;
+
+-- Promotes waitlisted registrations, or whole waitlisted teams, into free seats
+CREATE OR REPLACE FUNCTION public.promote_waitlisted_registrations(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    seats INTEGER;
+    taken INTEGER;
+    promoted INTEGER;
+BEGIN
+    -- Serialises with registrations for the same event
+    SELECT * INTO ev FROM public.events WHERE id = _event_id AND end_time > now() FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+
+    IF ev.team_max_size IS NULL THEN
+        SELECT count(*) INTO taken
+        FROM public.registrations
+        WHERE event_id = _event_id AND status = 'confirmed';
+
+        UPDATE public.registrations
+        SET status = 'confirmed',
+            promoted_at = now()
+        WHERE id IN (
+            SELECT id
+            FROM public.registrations
+            WHERE event_id = _event_id AND status = 'waitlisted'
+            ORDER BY created_at
+            LIMIT CASE WHEN seats IS NULL THEN NULL ELSE GREATEST(seats - taken, 0) END
+        );
+    ELSE
+        SELECT count(*) INTO taken
+        FROM public.teams
+        WHERE event_id = _event_id AND status = 'confirmed';
+
+        WITH promoted_teams AS (
+            UPDATE public.teams
+            SET status = 'confirmed',
+                promoted_at = now()
+            WHERE id IN (
+                SELECT id
+                FROM public.teams
+                WHERE event_id = _event_id AND status = 'waitlisted'
+                ORDER BY created_at
+                LIMIT CASE WHEN seats IS NULL THEN NULL ELSE GREATEST(seats - taken, 0) END
+            )
+            RETURNING id
+        )
+        UPDATE public.registrations
+        SET status = 'confirmed',
+            promoted_at = now()
+        WHERE team_id IN (SELECT id FROM promoted_teams) AND status = 'waitlisted';
+    END IF;
+
+    GET DIAGNOSTICS promoted = ROW_COUNT;
+    RETURN promoted;
+END;
+$$;
+
+-- Locks an event for a new registration and checks it's taking them
+CREATE OR REPLACE FUNCTION public.lock_event_for_registration(_event_id UUID)
+RETURNS public.events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+BEGIN
+    SELECT * INTO ev FROM public.events WHERE id = _event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found';
+    END IF;
+
+    IF ev.approval_status <> 'approved'
+       OR NOT COALESCE(ev.is_open, false)
+       OR now() < ev.registration_start
+       OR now() >= ev.registration_end THEN
+        RAISE EXCEPTION 'Registration is closed for this event';
+    END IF;
+
+    RETURN ev;
+END;
+$$;
+
+-- Checks an attendee and their answers, then adds them to the event with the given status
+CREATE OR REPLACE FUNCTION public.add_registration(
+    _event public.events,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB,
+    _status TEXT,
+    _team_id UUID DEFAULT NULL
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    form_error TEXT;
+    answers JSONB;
+    registration public.registrations;
+BEGIN
+    IF COALESCE(btrim(_full_name), '') = '' OR COALESCE(btrim(_email), '') = '' THEN
+        RAISE EXCEPTION 'Name and email are required';
+    END IF;
+
+    form_error := public.registration_form_error(_event.registration_form, COALESCE(_responses, '{}'::jsonb));
+    IF form_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', form_error;
+    END IF;
+
+    -- Keep only answers to questions the form actually asks
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO answers
+    FROM jsonb_each(COALESCE(_responses, '{}'::jsonb))
+    WHERE key IN (SELECT f ->> 'id' FROM jsonb_array_elements(_event.registration_form) f);
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.registrations
+        WHERE event_id = _event.id
+          AND lower(email) = lower(btrim(_email))
+          AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'This email is already registered for the event' USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO public.registrations (event_id, user_id, full_name, email, status, responses, team_id)
+    VALUES (_event.id, auth.uid(), btrim(_full_name), btrim(_email), _status, answers, _team_id)
+    RETURNING * INTO registration;
+
+    RETURN registration;
+END;
+$$;
+
+-- Internal helpers; callers go through the functions that enforce capacity
+REVOKE EXECUTE ON FUNCTION public.lock_event_for_registration(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_registration(public.events, TEXT, TEXT, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.register_for_event(
+    _event_id UUID,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    seats INTEGER;
+    taken INTEGER;
+BEGIN
+    ev := public.lock_event_for_registration(_event_id);
+
+    IF ev.team_max_size IS NOT NULL THEN
+        RAISE EXCEPTION 'This is a team event. Create a team or join one with its code.';
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+    SELECT count(*) INTO taken
+    FROM public.registrations
+    WHERE event_id = _event_id AND status = 'confirmed';
+
+    RETURN public.add_registration(
+        ev, _full_name, _email, _responses,
+        CASE WHEN seats IS NULL OR taken < seats THEN 'confirmed' ELSE 'waitlisted' END
+    );
+END;
+$$;
+
+-- Starts a team with the caller as captain. The team takes a slot, or joins the waitlist.
+CREATE OR REPLACE FUNCTION public.create_team(
+    _event_id UUID,
+    _team_name TEXT,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    seats INTEGER;
+    taken INTEGER;
+    code TEXT;
+    team public.teams;
+    registration public.registrations;
+BEGIN
+    ev := public.lock_event_for_registration(_event_id);
+
+    IF ev.team_max_size IS NULL THEN
+        RAISE EXCEPTION 'This event takes individual registrations, not teams';
+    END IF;
+
+    IF COALESCE(btrim(_team_name), '') = '' THEN
+        RAISE EXCEPTION 'Team name is required';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.teams
+        WHERE event_id = _event_id AND lower(name) = lower(btrim(_team_name)) AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'A team with that name is already registered' USING ERRCODE = '23505';
+    END IF;
+
+    seats := public.event_capacity(_event_id);
+    SELECT count(*) INTO taken
+    FROM public.teams
+    WHERE event_id = _event_id AND status = 'confirmed';
+
+    LOOP
+        code := upper(substr(md5(gen_random_uuid()::text), 1, 6));
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM public.teams WHERE join_code = code);
+    END LOOP;
+
+    INSERT INTO public.teams (event_id, name, join_code, status)
+    VALUES (
+        _event_id,
+        btrim(_team_name),
+        code,
+        CASE WHEN seats IS NULL OR taken < seats THEN 'confirmed' ELSE 'waitlisted' END
+    )
+    RETURNING * INTO team;
+
+    registration := public.add_registration(ev, _full_name, _email, _responses, team.status, team.id);
+
+    UPDATE public.teams SET captain_registration_id = registration.id WHERE id = team.id;
+
+    RETURN registration;
+END;
+$$;
+
+-- Joins a team by its code, sharing the team's seat or waitlist place
+CREATE OR REPLACE FUNCTION public.join_team(
+    _join_code TEXT,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    team public.teams;
+    ev public.events;
+    members INTEGER;
+BEGIN
+    SELECT * INTO team
+    FROM public.teams
+    WHERE join_code = upper(btrim(_join_code)) AND status <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No team found with that code';
+    END IF;
+
+    ev := public.lock_event_for_registration(team.event_id);
+
+    IF team.locked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This team is locked and not taking new members';
+    END IF;
+
+    SELECT count(*) INTO members
+    FROM public.registrations
+    WHERE team_id = team.id AND status <> 'cancelled';
+
+    IF members >= ev.team_max_size THEN
+        RAISE EXCEPTION 'This team is full (% members)', ev.team_max_size;
+    END IF;
+
+    RETURN public.add_registration(ev, _full_name, _email, _responses, team.status, team.id);
+END;
+$$;
+
+-- The captain confirms the line-up; needs at least the minimum team size
+CREATE OR REPLACE FUNCTION public.lock_team(_token UUID)
+RETURNS public.teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    registration public.registrations;
+    team public.teams;
+    ev public.events;
+    members INTEGER;
+BEGIN
+    SELECT * INTO registration FROM public.registrations WHERE cancel_token = _token AND status <> 'cancelled';
+    SELECT * INTO team FROM public.teams WHERE id = registration.team_id FOR UPDATE;
+
+    IF team.id IS NULL OR team.captain_registration_id <> registration.id THEN
+        RAISE EXCEPTION 'Only the team captain can lock the team';
+    END IF;
+
+    IF team.status = 'cancelled' OR team.locked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This team is already locked or disbanded';
+    END IF;
+
+    SELECT * INTO ev FROM public.events WHERE id = team.event_id;
+    IF now() >= ev.registration_end THEN
+        RAISE EXCEPTION 'Registration has closed, so the team can no longer be locked';
+    END IF;
+
+    SELECT count(*) INTO members
+    FROM public.registrations
+    WHERE team_id = team.id AND status <> 'cancelled';
+
+    IF members < ev.team_min_size THEN
+        RAISE EXCEPTION 'Teams need at least % members before locking', ev.team_min_size;
+    END IF;
+
+    UPDATE public.teams SET locked_at = now() WHERE id = team.id RETURNING * INTO team;
+    RETURN team;
+END;
+$$;
+
+-- A member's view of their team, looked up by their registration token
+CREATE OR REPLACE FUNCTION public.get_team(_token UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'event_id', t.event_id,
+    'name', t.name,
+    'join_code', t.join_code,
+    'status', t.status,
+    'locked_at', t.locked_at,
+    'is_captain', t.captain_registration_id = r.id,
+    'members', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'full_name', m.full_name,
+        'email', m.email,
+        'is_captain', m.id = t.captain_registration_id
+      ) ORDER BY m.created_at), '[]'::jsonb)
+      FROM public.registrations m
+      WHERE m.team_id = t.id AND m.status <> 'cancelled'
+    )
+  )
+  FROM public.registrations r
+  JOIN public.teams t ON t.id = r.team_id
+  WHERE r.cancel_token = _token AND r.status <> 'cancelled'
+$$;
+
+-- Members can't leave a locked team; a captain leaving before then disbands it
+CREATE OR REPLACE FUNCTION public.cancel_registration(_token UUID)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    registration public.registrations;
+    team public.teams;
+BEGIN
+    SELECT * INTO registration
+    FROM public.registrations
+    WHERE cancel_token = _token AND status <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Registration not found or already cancelled';
+    END IF;
+
+    IF registration.team_id IS NOT NULL THEN
+        SELECT * INTO team FROM public.teams WHERE id = registration.team_id FOR UPDATE;
+
+        IF team.locked_at IS NOT NULL THEN
+            RAISE EXCEPTION 'Your team is locked. Ask the event organisers if you can no longer take part.';
+        END IF;
+
+        IF team.captain_registration_id = registration.id THEN
+            UPDATE public.registrations
+            SET status = 'cancelled',
+                cancelled_at = now()
+            WHERE team_id = team.id AND status <> 'cancelled';
+
+            UPDATE public.teams
+            SET status = 'cancelled',
+                cancelled_at = now()
+            WHERE id = team.id;
+        END IF;
+    END IF;
+
+    UPDATE public.registrations
+    SET status = 'cancelled',
+        cancelled_at = now()
+    WHERE id = registration.id AND status <> 'cancelled';
+
+    SELECT * INTO registration FROM public.registrations WHERE id = registration.id;
+    RETURN registration;
+END;
+$$;
+
+-- A confirmed team dropping out frees its slot for the next waitlisted team
+CREATE OR REPLACE FUNCTION public.promote_on_freed_team_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.promote_waitlisted_registrations(OLD.event_id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_cancelled_team
+    AFTER UPDATE OF status ON public.teams
+    FOR EACH ROW
+    WHEN (OLD.status = 'confirmed' AND NEW.status <> 'confirmed')
+    EXECUTE FUNCTION public.promote_on_freed_team_slot();
+
+CREATE TRIGGER promote_on_deleted_team
+    AFTER DELETE ON public.teams
+    FOR EACH ROW
+    WHEN (OLD.status = 'confirmed')
+    EXECUTE FUNCTION public.promote_on_freed_team_slot();
@@ -0,0 +1,135 @@
+-- Event-day check-in. Each confirmed registration carries a ticket: its event and
+-- registration ids signed with a key only the database can read, shown as a QR code.
+-- Club POCs scan tickets at the door and the scan is recorded on the registration.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.registrations
+    ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN checked_in_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX registrations_checked_in_idx ON public.registrations (event_id, checked_in_at);
+
+-- A single signing key; no policies, so it's only reachable through the functions below
+CREATE TABLE public.ticket_signing_keys (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.ticket_signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ticket_signing_keys DEFAULT VALUES;
+
+-- "<event id>.<registration id>.<signature>"
+CREATE OR REPLACE FUNCTION public.sign_ticket(_event_id UUID, _registration_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _event_id || '.' || _registration_id || '.' || left(encode(
+    extensions.hmac(convert_to(_event_id || '.' || _registration_id, 'UTF8'), k.secret, 'sha256'),
+    'hex'
+  ), 32)
+  FROM public.ticket_signing_keys k
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_ticket(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The ticket for a confirmed registration, looked up by its token; NULL while waitlisted or cancelled
+CREATE OR REPLACE FUNCTION public.get_ticket(_token UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.sign_ticket(r.event_id, r.id)
+  FROM public.registrations r
+  WHERE r.cancel_token = _token AND r.status = 'confirmed'
+$$;
+
+-- Checks a scanned ticket in at the given event. Scans queued while offline pass the time
+-- they were made. Returns the outcome rather than raising, so a batch of scans can sync:
+-- checked_in, duplicate, wrong_event, not_confirmed or invalid.
+CREATE OR REPLACE FUNCTION public.check_in_ticket(
+    _event_id UUID,
+    _ticket TEXT,
+    _scanned_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    ticket_event_id UUID;
+    registration public.registrations;
+BEGIN
+    SELECT * INTO ev FROM public.events WHERE id = _event_id;
+
+    IF ev.id IS NULL OR NOT (
+        public.has_role(auth.uid(), 'super_admin') OR (
+            public.has_role(auth.uid(), 'club_poc') AND
+            ev.club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+        )
+    ) THEN
+        RAISE EXCEPTION 'Only the organising club can check attendees in';
+    END IF;
+
+    _ticket := lower(trim(_ticket));
+    IF _ticket !~ '^[0-9a-f-]{36}\.[0-9a-f-]{36}\.[0-9a-f]{32}$' THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END IF;
+
+    BEGIN
+        ticket_event_id := split_part(_ticket, '.', 1)::UUID;
+        SELECT * INTO registration FROM public.registrations
+        WHERE id = split_part(_ticket, '.', 2)::UUID
+        FOR UPDATE;
+    EXCEPTION WHEN invalid_text_representation THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END;
+
+    IF registration.id IS NULL OR registration.event_id <> ticket_event_id
+        OR public.sign_ticket(ticket_event_id, registration.id) <> _ticket THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END IF;
+
+    IF ticket_event_id <> _event_id THEN
+        RETURN jsonb_build_object(
+            'result', 'wrong_event',
+            'full_name', registration.full_name,
+            'event_name', (SELECT event_name FROM public.events WHERE id = ticket_event_id)
+        );
+    END IF;
+
+    IF registration.status <> 'confirmed' THEN
+        RETURN jsonb_build_object('result', 'not_confirmed', 'full_name', registration.full_name);
+    END IF;
+
+    IF registration.checked_in_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'result', 'duplicate',
+            'registration_id', registration.id,
+            'full_name', registration.full_name,
+            'checked_in_at', registration.checked_in_at
+        );
+    END IF;
+
+    UPDATE public.registrations
+    SET checked_in_at = LEAST(COALESCE(_scanned_at, now()), now()),
+        checked_in_by = auth.uid()
+    WHERE id = registration.id
+    RETURNING * INTO registration;
+
+    RETURN jsonb_build_object(
+        'result', 'checked_in',
+        'registration_id', registration.id,
+        'full_name', registration.full_name,
+        'checked_in_at', registration.checked_in_at
+    );
+END;
+$$;
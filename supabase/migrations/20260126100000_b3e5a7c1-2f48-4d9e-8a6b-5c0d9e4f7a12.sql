@@ -0,0 +1,12 @@
+-- Subscriber emails were readable by anyone. Limit them to the people who export
+-- attendee lists: super admins and the POCs of the club running the event.
+DROP POLICY "Users can view own notifications" ON public.notifications;
+
+CREATE POLICY "Super admins can view notifications" ON public.notifications FOR SELECT USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club POCs can view notifications for own club events" ON public.notifications FOR SELECT USING (
+    public.has_role(auth.uid(), 'club_poc') AND
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE club_id = (SELECT club_id FROM public.profiles WHERE id = auth.uid())
+    )
+);
@@ -0,0 +1,117 @@
+-- Calendar feeds. Every event keeps a stable UID (its id) and a SEQUENCE that goes
+-- up whenever attendees' calendars should update. Deleted events leave a tombstone so
+-- feeds can tell subscribed calendars they were cancelled.
+ALTER TABLE public.events
+    ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_event_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.event_name, NEW.description, NEW.start_time, NEW.end_time, NEW.venue_id, NEW.approval_status)
+        IS DISTINCT FROM
+       (OLD.event_name, OLD.description, OLD.start_time, OLD.end_time, OLD.venue_id, OLD.approval_status) THEN
+        NEW.sequence := OLD.sequence + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_events_sequence
+    BEFORE UPDATE ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_event_sequence();
+
+CREATE TABLE public.event_tombstones (
+    event_id UUID PRIMARY KEY,
+    club_id UUID,
+    venue_id UUID,
+    event_name TEXT NOT NULL,
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- One past the event's last sequence, so the cancellation supersedes it
+    sequence INTEGER NOT NULL,
+    deleted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX event_tombstones_deleted_at_idx ON public.event_tombstones (deleted_at);
+
+-- Only read by the calendar-feed function
+ALTER TABLE public.event_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Only published events can be in anyone's calendar
+CREATE OR REPLACE FUNCTION public.record_event_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.approval_status = 'approved' THEN
+        INSERT INTO public.event_tombstones (event_id, club_id, venue_id, event_name, start_time, end_time, sequence)
+        VALUES (OLD.id, OLD.club_id, OLD.venue_id, OLD.event_name, OLD.start_time, OLD.end_time, OLD.sequence + 1)
+        ON CONFLICT (event_id) DO NOTHING;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_events_tombstone
+    AFTER DELETE ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_event_tombstone();
+
+-- Personal feeds: the events an email address subscribed to or registered for,
+-- behind a token that only its owner is given
+CREATE TABLE public.calendar_feeds (
+    token UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX calendar_feeds_email_key ON public.calendar_feeds (lower(email));
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- The feed token for an email, created on first use. Only for the email functions
+CREATE OR REPLACE FUNCTION public.calendar_feed_token(_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    feed_token UUID;
+BEGIN
+    INSERT INTO public.calendar_feeds (email)
+    VALUES (lower(trim(_email)))
+    ON CONFLICT (lower(email)) DO NOTHING;
+
+    SELECT token INTO feed_token FROM public.calendar_feeds WHERE lower(email) = lower(trim(_email));
+    RETURN feed_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calendar_feed_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's own feed token
+CREATE OR REPLACE FUNCTION public.my_calendar_feed_token()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_email TEXT;
+BEGIN
+    SELECT email INTO user_email FROM public.profiles WHERE id = auth.uid();
+    IF user_email IS NULL THEN
+        RAISE EXCEPTION 'Sign in to get your calendar feed';
+    END IF;
+    RETURN public.calendar_feed_token(user_email);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.my_calendar_feed_token() FROM PUBLIC, anon;
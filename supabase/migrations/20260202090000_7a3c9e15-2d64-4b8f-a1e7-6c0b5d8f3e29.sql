@@ -0,0 +1,3 @@
+-- Students sign in to follow their subscriptions and registrations. Added on its own so
+-- the new value is committed before later migrations use it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'student';
@@ -0,0 +1,100 @@
+-- Student accounts. Anyone signing in with an email code becomes a student; staff
+-- still sign up with their secret codes. Subscriptions and registrations made
+-- anonymously are claimed by whoever signs in with the same email.
+ALTER TABLE public.notifications
+    ADD COLUMN user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX notifications_user_idx ON public.notifications (user_id);
+
+CREATE POLICY "Users can view own notifications" ON public.notifications FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can delete own notifications" ON public.notifications FOR DELETE USING (user_id = auth.uid());
+
+-- Links a user's anonymous subscriptions and registrations to their account
+CREATE OR REPLACE FUNCTION public.claim_user_events(_user_id UUID, _email TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    claimed_notifications INTEGER;
+    claimed_registrations INTEGER;
+BEGIN
+    UPDATE public.notifications
+    SET user_id = _user_id
+    WHERE user_id IS NULL AND lower(email) = lower(trim(_email));
+    GET DIAGNOSTICS claimed_notifications = ROW_COUNT;
+
+    UPDATE public.registrations
+    SET user_id = _user_id
+    WHERE user_id IS NULL AND lower(email) = lower(trim(_email));
+    GET DIAGNOSTICS claimed_registrations = ROW_COUNT;
+
+    RETURN claimed_notifications + claimed_registrations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_user_events(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Claims for the signed-in user; picks up anything subscribed to since the last visit
+CREATE OR REPLACE FUNCTION public.claim_my_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_email TEXT;
+BEGIN
+    SELECT email INTO user_email FROM public.profiles WHERE id = auth.uid();
+    IF user_email IS NULL THEN
+        RAISE EXCEPTION 'Sign in to see your events';
+    END IF;
+    RETURN public.claim_user_events(auth.uid(), user_email);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_my_events() FROM PUBLIC, anon;
+
+-- Accounts without a role, such as those created by an email code, are students
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, email, full_name, role, club_id)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', split_part(NEW.email, '@', 1)),
+        COALESCE((NEW.raw_user_meta_data->>'role')::app_role, 'student'),
+        (NEW.raw_user_meta_data->>'club_id')::UUID
+    );
+
+    -- Also insert into user_roles
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (
+        NEW.id,
+        COALESCE((NEW.raw_user_meta_data->>'role')::app_role, 'student')
+    );
+
+    PERFORM public.claim_user_events(NEW.id, NEW.email);
+
+    RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'student';
+
+-- Existing accounts claim what they already subscribed to
+UPDATE public.notifications n
+SET user_id = p.id
+FROM public.profiles p
+WHERE n.user_id IS NULL AND lower(n.email) = lower(p.email);
+
+UPDATE public.registrations r
+SET user_id = p.id
+FROM public.profiles p
+WHERE r.user_id IS NULL AND lower(r.email) = lower(p.email);
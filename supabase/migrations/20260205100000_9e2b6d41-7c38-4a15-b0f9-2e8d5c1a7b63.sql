@@ -0,0 +1,138 @@
+-- Staff accounts are created from invitations instead of shared secret codes. A super
+-- admin invites an email to a role (and club, for POCs); the code is generated here,
+-- works once, expires, and is redeemed by the database rather than trusted from the client.
+CREATE TABLE public.invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE DEFAULT upper(encode(extensions.gen_random_bytes(8), 'hex')),
+    email TEXT NOT NULL,
+    role app_role NOT NULL CHECK (role IN ('super_admin', 'club_poc')),
+    club_id UUID REFERENCES public.clubs(id) ON DELETE CASCADE,
+    invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CHECK (role <> 'club_poc' OR club_id IS NOT NULL)
+);
+
+CREATE INDEX invitations_email_idx ON public.invitations (lower(email));
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage invitations" ON public.invitations FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+
+-- Whether a code can still be used by this email; lets signup fail early with a clear message
+CREATE OR REPLACE FUNCTION public.check_invitation(_code TEXT, _email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.invitations
+        WHERE code = upper(trim(_code))
+          AND lower(email) = lower(trim(_email))
+          AND accepted_at IS NULL
+          AND expires_at > now()
+    )
+$$;
+
+-- Gives a user the invited role and club and uses up the invitation
+CREATE OR REPLACE FUNCTION public.apply_invitation(_user_id UUID, _email TEXT, _code TEXT)
+RETURNS app_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invite public.invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO invite
+    FROM public.invitations
+    WHERE code = upper(trim(_code))
+    FOR UPDATE;
+
+    IF NOT FOUND OR lower(invite.email) <> lower(trim(_email)) THEN
+        RAISE EXCEPTION 'This invitation code is not valid for %', _email;
+    END IF;
+    IF invite.accepted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This invitation has already been used';
+    END IF;
+    IF invite.expires_at <= now() THEN
+        RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+    END IF;
+
+    UPDATE public.profiles
+    SET role = invite.role, club_id = invite.club_id
+    WHERE id = _user_id;
+
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = 'student';
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, invite.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = _user_id
+    WHERE id = invite.id;
+
+    RETURN invite.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_invitation(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- For users who already have an account, e.g. a student becoming a club POC
+CREATE OR REPLACE FUNCTION public.redeem_invitation(_code TEXT)
+RETURNS app_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_email TEXT;
+BEGIN
+    SELECT email INTO user_email FROM public.profiles WHERE id = auth.uid();
+    IF user_email IS NULL THEN
+        RAISE EXCEPTION 'Sign in to redeem an invitation';
+    END IF;
+    RETURN public.apply_invitation(auth.uid(), user_email, _code);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_invitation(TEXT) FROM PUBLIC, anon;
+
+-- New accounts start as students. Signup passes an invitation code for staff accounts;
+-- role and club_id in the signup metadata are no longer read.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, email, full_name, role, club_id)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', split_part(NEW.email, '@', 1)),
+        'student',
+        NULL
+    );
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+
+    IF NULLIF(trim(NEW.raw_user_meta_data->>'invitation_code'), '') IS NOT NULL THEN
+        PERFORM public.apply_invitation(NEW.id, NEW.email, NEW.raw_user_meta_data->>'invitation_code');
+    END IF;
+
+    PERFORM public.claim_user_events(NEW.id, NEW.email);
+
+    RETURN NEW;
+END;
+$$;
+
+-- The shared club codes were readable by anyone who could list clubs
+ALTER TABLE public.clubs DROP COLUMN IF EXISTS secret_code;
@@ -0,0 +1,154 @@
+-- Roles only come from invitations or super admins. Until now users could edit their own
+-- profile's role and club_id (club_id is what club POC policies check), and every staff
+-- account before invitations picked its own role at signup. This closes the first and
+-- records the second for a super admin to review.
+
+-- Profiles stay editable by their owner except for the fields that grant access.
+-- SECURITY DEFINER functions such as apply_invitation run as their owner and pass.
+CREATE OR REPLACE FUNCTION public.protect_profile_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND NOT public.has_role(auth.uid(), 'super_admin')
+       AND (NEW.role, NEW.club_id, NEW.email) IS DISTINCT FROM (OLD.role, OLD.club_id, OLD.email) THEN
+        RAISE EXCEPTION 'Only super admins can change roles, clubs or emails';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_privileges
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_privileges();
+
+-- One row per suspicious role grant, open until a super admin keeps or revokes it
+CREATE TABLE public.role_audit_findings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role app_role NOT NULL,
+    finding TEXT NOT NULL CHECK (finding IN ('self_assigned', 'profile_mismatch', 'missing_club', 'missing_profile')),
+    details TEXT,
+    found_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    resolution TEXT CHECK (resolution IN ('kept', 'revoked')),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX role_audit_findings_open_key
+    ON public.role_audit_findings (user_id, role, finding)
+    WHERE resolved_at IS NULL;
+
+ALTER TABLE public.role_audit_findings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view role audit findings" ON public.role_audit_findings FOR SELECT USING (public.has_role(auth.uid(), 'super_admin'));
+
+-- Records staff role grants that weren't verified; returns how many new findings it opened
+CREATE OR REPLACE FUNCTION public.audit_user_roles()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    opened INTEGER;
+BEGIN
+    -- Run by migrations without a user, or by a super admin from the admin console
+    IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can audit roles';
+    END IF;
+
+    WITH findings (user_id, role, finding, details) AS (
+        -- Chosen through signup metadata rather than granted through an invitation
+        SELECT ur.user_id, ur.role, 'self_assigned', 'Role was requested at signup and never verified'
+        FROM public.user_roles ur
+        JOIN auth.users u ON u.id = ur.user_id
+        WHERE ur.role IN ('super_admin', 'club_poc')
+          AND u.raw_user_meta_data->>'role' = ur.role::TEXT
+          AND NOT EXISTS (
+              SELECT 1 FROM public.invitations i
+              WHERE i.accepted_by = ur.user_id AND i.role = ur.role
+          )
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'profile_mismatch', 'Profile role is ' || p.role::TEXT
+        FROM public.user_roles ur
+        JOIN public.profiles p ON p.id = ur.user_id
+        WHERE ur.role IN ('super_admin', 'club_poc') AND p.role <> ur.role
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'missing_club', 'Club POC without a club'
+        FROM public.user_roles ur
+        JOIN public.profiles p ON p.id = ur.user_id
+        WHERE ur.role = 'club_poc' AND p.club_id IS NULL
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'missing_profile', 'Role granted to an account without a profile'
+        FROM public.user_roles ur
+        WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = ur.user_id)
+    )
+    INSERT INTO public.role_audit_findings (user_id, role, finding, details)
+    SELECT user_id, role, finding, details FROM findings
+    ON CONFLICT (user_id, role, finding) WHERE resolved_at IS NULL DO NOTHING;
+
+    GET DIAGNOSTICS opened = ROW_COUNT;
+    RETURN opened;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_user_roles() FROM PUBLIC, anon;
+
+-- Keeps a flagged grant, or revokes it and returns the user to a student account
+CREATE OR REPLACE FUNCTION public.resolve_role_finding(_finding_id UUID, _revoke BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    finding public.role_audit_findings%ROWTYPE;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can resolve role audit findings';
+    END IF;
+
+    SELECT * INTO finding
+    FROM public.role_audit_findings
+    WHERE id = _finding_id AND resolved_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This finding was already resolved';
+    END IF;
+    IF _revoke AND finding.user_id = auth.uid() AND finding.role = 'super_admin' THEN
+        RAISE EXCEPTION 'You cannot revoke your own super admin role';
+    END IF;
+
+    IF _revoke THEN
+        DELETE FROM public.user_roles WHERE user_id = finding.user_id AND role = finding.role;
+
+        UPDATE public.profiles
+        SET role = 'student', club_id = NULL
+        WHERE id = finding.user_id AND role = finding.role;
+
+        INSERT INTO public.user_roles (user_id, role)
+        SELECT finding.user_id, 'student'
+        WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = finding.user_id)
+        ON CONFLICT (user_id, role) DO NOTHING;
+    END IF;
+
+    -- Every open finding about this grant is settled by the one decision
+    UPDATE public.role_audit_findings
+    SET resolution = CASE WHEN _revoke THEN 'revoked' ELSE 'kept' END,
+        resolved_at = now(),
+        resolved_by = auth.uid()
+    WHERE user_id = finding.user_id AND role = finding.role AND resolved_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_role_finding(UUID, BOOLEAN) FROM PUBLIC, anon;
+
+SELECT public.audit_user_roles();
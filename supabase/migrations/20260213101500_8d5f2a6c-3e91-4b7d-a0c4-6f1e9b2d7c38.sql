@@ -0,0 +1,363 @@
+-- Club access moves from profiles.club_id (one club per person, one kind of POC) to
+-- memberships: people can belong to several clubs and clubs can have several members,
+-- each with their own role. Viewers see attendee data, editors also run events and
+-- check-in, and owners also manage the club's members.
+CREATE TYPE public.club_role AS ENUM ('viewer', 'editor', 'owner');
+
+CREATE TABLE public.club_memberships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    club_id UUID NOT NULL REFERENCES public.clubs(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    role club_role NOT NULL DEFAULT 'editor',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT club_memberships_club_user_key UNIQUE (club_id, user_id)
+);
+
+CREATE INDEX club_memberships_user_idx ON public.club_memberships (user_id);
+
+-- Whether a user holds at least the given role in a club; roles are ordered viewer < editor < owner
+CREATE OR REPLACE FUNCTION public.has_club_role(_user_id UUID, _club_id UUID, _role club_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.club_memberships
+    WHERE user_id = _user_id
+      AND club_id = _club_id
+      AND role >= _role
+  )
+$$;
+
+ALTER TABLE public.club_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage everyone else; they can't demote or remove themselves, so a club keeps an owner
+CREATE POLICY "Super admins can manage club memberships" ON public.club_memberships FOR ALL USING (public.has_role(auth.uid(), 'super_admin'));
+CREATE POLICY "Club members can view their club's members" ON public.club_memberships FOR SELECT USING (
+    public.has_club_role(auth.uid(), club_id, 'viewer')
+);
+CREATE POLICY "Club owners can add members" ON public.club_memberships FOR INSERT WITH CHECK (
+    public.has_club_role(auth.uid(), club_id, 'owner') AND user_id <> auth.uid()
+);
+CREATE POLICY "Club owners can change other members' roles" ON public.club_memberships FOR UPDATE USING (
+    public.has_club_role(auth.uid(), club_id, 'owner') AND user_id <> auth.uid()
+) WITH CHECK (
+    public.has_club_role(auth.uid(), club_id, 'owner') AND user_id <> auth.uid()
+);
+CREATE POLICY "Club owners can remove other members" ON public.club_memberships FOR DELETE USING (
+    public.has_club_role(auth.uid(), club_id, 'owner') AND user_id <> auth.uid()
+);
+CREATE POLICY "Members can leave a club" ON public.club_memberships FOR DELETE USING (
+    user_id = auth.uid() AND role <> 'owner'
+);
+
+-- Every existing club POC keeps full control of their club
+INSERT INTO public.club_memberships (club_id, user_id, role)
+SELECT p.club_id, p.id, 'owner'
+FROM public.profiles p
+JOIN public.user_roles ur ON ur.user_id = p.id AND ur.role = 'club_poc'
+WHERE p.club_id IS NOT NULL
+ON CONFLICT (club_id, user_id) DO NOTHING;
+
+-- Policies that compared against profiles.club_id
+DROP POLICY "Club POCs can manage own club events" ON public.events;
+CREATE POLICY "Club editors can manage club events" ON public.events FOR ALL USING (
+    public.has_club_role(auth.uid(), club_id, 'editor')
+);
+
+DROP POLICY "Club POCs can manage own club event series" ON public.event_series;
+CREATE POLICY "Club editors can manage club event series" ON public.event_series FOR ALL USING (
+    public.has_club_role(auth.uid(), club_id, 'editor')
+);
+
+DROP POLICY "Club POCs can view own club waitlist" ON public.venue_waitlist;
+DROP POLICY "Club POCs can join the waitlist for own club" ON public.venue_waitlist;
+DROP POLICY "Club POCs can leave the waitlist for own club" ON public.venue_waitlist;
+CREATE POLICY "Club members can view club waitlist" ON public.venue_waitlist FOR SELECT USING (
+    public.has_club_role(auth.uid(), club_id, 'viewer')
+);
+CREATE POLICY "Club editors can join the waitlist for their club" ON public.venue_waitlist FOR INSERT WITH CHECK (
+    public.has_club_role(auth.uid(), club_id, 'editor') AND
+    status = 'waiting'
+);
+CREATE POLICY "Club editors can leave the waitlist for their club" ON public.venue_waitlist FOR DELETE USING (
+    public.has_club_role(auth.uid(), club_id, 'editor')
+);
+
+DROP POLICY "Club POCs can view registrations for own club events" ON public.registrations;
+CREATE POLICY "Club members can view registrations for club events" ON public.registrations FOR SELECT USING (
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE public.has_club_role(auth.uid(), club_id, 'viewer')
+    )
+);
+
+DROP POLICY "Club POCs can view registration files for own club events" ON storage.objects;
+CREATE POLICY "Club members can view registration files for club events" ON storage.objects FOR SELECT USING (
+    bucket_id = 'registration-uploads' AND
+    (storage.foldername(name))[1] IN (
+        SELECT id::text FROM public.events
+        WHERE public.has_club_role(auth.uid(), club_id, 'viewer')
+    )
+);
+
+DROP POLICY "Club POCs can view teams for own club events" ON public.teams;
+CREATE POLICY "Club members can view teams for club events" ON public.teams FOR SELECT USING (
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE public.has_club_role(auth.uid(), club_id, 'viewer')
+    )
+);
+
+DROP POLICY "Club POCs can view notifications for own club events" ON public.notifications;
+CREATE POLICY "Club members can view notifications for club events" ON public.notifications FOR SELECT USING (
+    event_id IN (
+        SELECT id FROM public.events
+        WHERE public.has_club_role(auth.uid(), club_id, 'viewer')
+    )
+);
+
+-- Check-in writes to registrations, so it takes an editor
+CREATE OR REPLACE FUNCTION public.check_in_ticket(
+    _event_id UUID,
+    _ticket TEXT,
+    _scanned_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ev public.events;
+    ticket_event_id UUID;
+    registration public.registrations;
+BEGIN
+    SELECT * INTO ev FROM public.events WHERE id = _event_id;
+
+    IF ev.id IS NULL OR NOT (
+        public.has_role(auth.uid(), 'super_admin') OR
+        public.has_club_role(auth.uid(), ev.club_id, 'editor')
+    ) THEN
+        RAISE EXCEPTION 'Only the organising club can check attendees in';
+    END IF;
+
+    _ticket := lower(trim(_ticket));
+    IF _ticket !~ '^[0-9a-f-]{36}\.[0-9a-f-]{36}\.[0-9a-f]{32}$' THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END IF;
+
+    BEGIN
+        ticket_event_id := split_part(_ticket, '.', 1)::UUID;
+        SELECT * INTO registration FROM public.registrations
+        WHERE id = split_part(_ticket, '.', 2)::UUID
+        FOR UPDATE;
+    EXCEPTION WHEN invalid_text_representation THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END;
+
+    IF registration.id IS NULL OR registration.event_id <> ticket_event_id
+        OR public.sign_ticket(ticket_event_id, registration.id) <> _ticket THEN
+        RETURN jsonb_build_object('result', 'invalid');
+    END IF;
+
+    IF ticket_event_id <> _event_id THEN
+        RETURN jsonb_build_object(
+            'result', 'wrong_event',
+            'full_name', registration.full_name,
+            'event_name', (SELECT event_name FROM public.events WHERE id = ticket_event_id)
+        );
+    END IF;
+
+    IF registration.status <> 'confirmed' THEN
+        RETURN jsonb_build_object('result', 'not_confirmed', 'full_name', registration.full_name);
+    END IF;
+
+    IF registration.checked_in_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'result', 'duplicate',
+            'registration_id', registration.id,
+            'full_name', registration.full_name,
+            'checked_in_at', registration.checked_in_at
+        );
+    END IF;
+
+    UPDATE public.registrations
+    SET checked_in_at = LEAST(COALESCE(_scanned_at, now()), now()),
+        checked_in_by = auth.uid()
+    WHERE id = registration.id
+    RETURNING * INTO registration;
+
+    RETURN jsonb_build_object(
+        'result', 'checked_in',
+        'registration_id', registration.id,
+        'full_name', registration.full_name,
+        'checked_in_at', registration.checked_in_at
+    );
+END;
+$$;
+
+-- Club invitations say which role the new member gets in the club
+ALTER TABLE public.invitations
+    ADD COLUMN club_role club_role NOT NULL DEFAULT 'owner';
+
+CREATE OR REPLACE FUNCTION public.apply_invitation(_user_id UUID, _email TEXT, _code TEXT)
+RETURNS app_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invite public.invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO invite
+    FROM public.invitations
+    WHERE code = upper(trim(_code))
+    FOR UPDATE;
+
+    IF NOT FOUND OR lower(invite.email) <> lower(trim(_email)) THEN
+        RAISE EXCEPTION 'This invitation code is not valid for %', _email;
+    END IF;
+    IF invite.accepted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This invitation has already been used';
+    END IF;
+    IF invite.expires_at <= now() THEN
+        RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+    END IF;
+
+    -- profiles.club_id is kept as the club someone was first invited to; access comes from memberships
+    UPDATE public.profiles
+    SET role = invite.role, club_id = COALESCE(club_id, invite.club_id)
+    WHERE id = _user_id;
+
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = 'student';
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, invite.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    IF invite.club_id IS NOT NULL THEN
+        INSERT INTO public.club_memberships (club_id, user_id, role)
+        VALUES (invite.club_id, _user_id, invite.club_role)
+        ON CONFLICT (club_id, user_id) DO UPDATE SET role = GREATEST(club_memberships.role, EXCLUDED.role);
+    END IF;
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = _user_id
+    WHERE id = invite.id;
+
+    RETURN invite.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_invitation(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A club POC without a club now means one without any membership
+CREATE OR REPLACE FUNCTION public.audit_user_roles()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    opened INTEGER;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can audit roles';
+    END IF;
+
+    WITH findings (user_id, role, finding, details) AS (
+        -- Chosen through signup metadata rather than granted through an invitation
+        SELECT ur.user_id, ur.role, 'self_assigned', 'Role was requested at signup and never verified'
+        FROM public.user_roles ur
+        JOIN auth.users u ON u.id = ur.user_id
+        WHERE ur.role IN ('super_admin', 'club_poc')
+          AND u.raw_user_meta_data->>'role' = ur.role::TEXT
+          AND NOT EXISTS (
+              SELECT 1 FROM public.invitations i
+              WHERE i.accepted_by = ur.user_id AND i.role = ur.role
+          )
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'profile_mismatch', 'Profile role is ' || p.role::TEXT
+        FROM public.user_roles ur
+        JOIN public.profiles p ON p.id = ur.user_id
+        WHERE ur.role IN ('super_admin', 'club_poc') AND p.role <> ur.role
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'missing_club', 'Club POC without a club membership'
+        FROM public.user_roles ur
+        WHERE ur.role = 'club_poc'
+          AND NOT EXISTS (SELECT 1 FROM public.club_memberships m WHERE m.user_id = ur.user_id)
+
+        UNION ALL
+        SELECT ur.user_id, ur.role, 'missing_profile', 'Role granted to an account without a profile'
+        FROM public.user_roles ur
+        WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = ur.user_id)
+    )
+    INSERT INTO public.role_audit_findings (user_id, role, finding, details)
+    SELECT user_id, role, finding, details FROM findings
+    ON CONFLICT (user_id, role, finding) WHERE resolved_at IS NULL DO NOTHING;
+
+    GET DIAGNOSTICS opened = ROW_COUNT;
+    RETURN opened;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_user_roles() FROM PUBLIC, anon;
+
+-- Revoking a club POC grant also ends their club memberships
+CREATE OR REPLACE FUNCTION public.resolve_role_finding(_finding_id UUID, _revoke BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    finding public.role_audit_findings%ROWTYPE;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can resolve role audit findings';
+    END IF;
+
+    SELECT * INTO finding
+    FROM public.role_audit_findings
+    WHERE id = _finding_id AND resolved_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This finding was already resolved';
+    END IF;
+    IF _revoke AND finding.user_id = auth.uid() AND finding.role = 'super_admin' THEN
+        RAISE EXCEPTION 'You cannot revoke your own super admin role';
+    END IF;
+
+    IF _revoke THEN
+        DELETE FROM public.user_roles WHERE user_id = finding.user_id AND role = finding.role;
+
+        IF finding.role = 'club_poc' THEN
+            DELETE FROM public.club_memberships WHERE user_id = finding.user_id;
+        END IF;
+
+        UPDATE public.profiles
+        SET role = 'student', club_id = NULL
+        WHERE id = finding.user_id AND role = finding.role;
+
+        INSERT INTO public.user_roles (user_id, role)
+        SELECT finding.user_id, 'student'
+        WHERE NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = finding.user_id)
+        ON CONFLICT (user_id, role) DO NOTHING;
+    END IF;
+
+    -- Every open finding about this grant is settled by the one decision
+    UPDATE public.role_audit_findings
+    SET resolution = CASE WHEN _revoke THEN 'revoked' ELSE 'kept' END,
+        resolved_at = now(),
+        resolved_by = auth.uid()
+    WHERE user_id = finding.user_id AND role = finding.role AND resolved_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_role_finding(UUID, BOOLEAN) FROM PUBLIC, anon;
@@ -0,0 +1,74 @@
+-- "This and all future occurrences" edits a whole run of a series at once. Doing it
+-- row by row from the client left the series half-moved when one occurrence hit a
+-- conflict or a policy, so it runs here in one transaction instead.
+
+-- _changes holds the event fields every occurrence takes (as sent for a single edit),
+-- _occurrences each occurrence's own {id, start_time, end_time, registration_start,
+-- registration_end}, and _rule the series rule after the move. SECURITY INVOKER so
+-- the caller's policies apply; any occurrence they can't update fails the whole edit.
+CREATE OR REPLACE FUNCTION public.update_series_occurrences(
+    _series_id UUID,
+    _changes JSONB,
+    _occurrences JSONB,
+    _rule JSONB,
+    _override BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    UPDATE public.events e
+    SET event_name = c.event_name,
+        description = c.description,
+        venue_id = c.venue_id,
+        club_id = c.club_id,
+        is_open = c.is_open,
+        setup_minutes = c.setup_minutes,
+        teardown_minutes = c.teardown_minutes,
+        capacity = c.capacity,
+        registration_form = c.registration_form,
+        team_min_size = c.team_min_size,
+        team_max_size = c.team_max_size,
+        start_time = o.start_time,
+        end_time = o.end_time,
+        registration_start = o.registration_start,
+        registration_end = o.registration_end,
+        -- guard_conflict_override decides whether the caller may set or keep this
+        conflict_override = e.conflict_override OR _override
+    FROM jsonb_populate_record(NULL::public.events, _changes) c,
+         jsonb_to_recordset(_occurrences) AS o(
+            id UUID,
+            start_time TIMESTAMP WITH TIME ZONE,
+            end_time TIMESTAMP WITH TIME ZONE,
+            registration_start TIMESTAMP WITH TIME ZONE,
+            registration_end TIMESTAMP WITH TIME ZONE
+         )
+    WHERE e.id = o.id AND e.series_id = _series_id;
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    IF updated <> jsonb_array_length(_occurrences) THEN
+        RAISE EXCEPTION 'You can''t edit every occurrence of this series';
+    END IF;
+
+    UPDATE public.event_series s
+    SET frequency = r.frequency,
+        interval_count = r.interval_count,
+        by_weekday = r.by_weekday,
+        until_date = r.until_date,
+        occurrence_count = r.occurrence_count,
+        exception_dates = r.exception_dates,
+        rrule = r.rrule
+    FROM jsonb_populate_record(NULL::public.event_series, _rule) r
+    WHERE s.id = _series_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can''t edit this series';
+    END IF;
+
+    RETURN updated;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- A conflict override covers the slot it was granted for. The guard only checked the
+-- moment the flag was turned on, so an event that already had one (grandfathered by the
+-- exclusion constraint migration, or overridden by an admin) kept it when anyone else
+-- later moved it, and could then be put over any other booking. Now moving the booking
+-- or changing its buffers drops the override unless a super admin does it.
+CREATE OR REPLACE FUNCTION public.guard_conflict_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    -- Server-side jobs have no auth.uid()
+    IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'super_admin') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.conflict_override AND (TG_OP = 'INSERT' OR NOT OLD.conflict_override) THEN
+        RAISE EXCEPTION 'Only super admins can override venue conflicts'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND (NEW.start_time, NEW.end_time, NEW.venue_id, NEW.setup_minutes, NEW.teardown_minutes)
+           IS DISTINCT FROM (OLD.start_time, OLD.end_time, OLD.venue_id, OLD.setup_minutes, OLD.teardown_minutes) THEN
+        NEW.conflict_override := false;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER guard_events_conflict_override ON public.events;
+
+CREATE TRIGGER guard_events_conflict_override
+    BEFORE INSERT OR UPDATE OF conflict_override, start_time, end_time, venue_id, setup_minutes, teardown_minutes
+    ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_conflict_override();
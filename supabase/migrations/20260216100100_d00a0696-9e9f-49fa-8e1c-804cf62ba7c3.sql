@@ -0,0 +1,28 @@
+-- club_id <> NEW.club_id is NULL when either side has no club, which let those
+-- bookings take a slot held for a waitlisted club
+CREATE OR REPLACE FUNCTION public.respect_waitlist_holds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.conflict_override THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.venue_waitlist
+        WHERE venue_id = NEW.venue_id
+          AND status = 'offered'
+          AND offer_expires_at > now()
+          AND club_id IS DISTINCT FROM NEW.club_id
+          AND tstzrange(starts_at, ends_at) && tstzrange(NEW.start_time, NEW.end_time)
+    ) THEN
+        RAISE EXCEPTION 'This slot is being held for a club on the waitlist. Try another time, or check back once the hold expires.';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
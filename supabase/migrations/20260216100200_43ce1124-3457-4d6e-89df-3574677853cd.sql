@@ -0,0 +1,164 @@
+-- registration_form_error only checked required fields and dropdown options; lengths,
+-- patterns and uploads were left to the browser, so calling register_for_event directly
+-- skipped them. It now checks the same rules as src/lib/registrationForm.ts, and takes
+-- the event so uploads must be files sent for that event's form.
+DROP FUNCTION public.registration_form_error(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.registration_form_error(_event_id UUID, _form JSONB, _responses JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    field JSONB;
+    answer JSONB;
+    label TEXT;
+    value TEXT;
+    upload JSONB;
+BEGIN
+    FOR field IN SELECT * FROM jsonb_array_elements(_form)
+    LOOP
+        answer := _responses -> (field ->> 'id');
+        label := field ->> 'label';
+
+        IF COALESCE((field ->> 'required')::BOOLEAN, false) AND (
+            answer IS NULL
+            OR answer = 'null'::jsonb
+            OR answer = '""'::jsonb
+            OR answer = 'false'::jsonb
+        ) THEN
+            RETURN format('Please answer "%s"', label);
+        END IF;
+
+        -- Optional questions left blank have nothing more to check
+        CONTINUE WHEN answer IS NULL OR answer IN ('null'::jsonb, '""'::jsonb);
+
+        IF field ->> 'type' = 'checkbox' THEN
+            IF jsonb_typeof(answer) <> 'boolean' THEN
+                RETURN format('"%s" must be ticked or left blank', label);
+            END IF;
+            CONTINUE;
+        END IF;
+
+        IF jsonb_typeof(answer) <> 'string' THEN
+            RETURN format('"%s" must be text', label);
+        END IF;
+        value := btrim(answer #>> '{}');
+
+        IF field ->> 'type' = 'select' THEN
+            IF NOT (field -> 'options') @> jsonb_build_array(answer) THEN
+                RETURN format('"%s" must be one of the listed options', label);
+            END IF;
+
+        ELSIF field ->> 'type' = 'file' THEN
+            -- Only this event's folder (which its club can open), only files the same
+            -- person uploaded, and each file backs one registration
+            SELECT metadata INTO upload
+            FROM storage.objects
+            WHERE bucket_id = 'registration-uploads'
+              AND name = value
+              AND split_part(name, '/', 1) = _event_id::text
+              AND owner IS NOT DISTINCT FROM auth.uid();
+
+            IF NOT FOUND THEN
+                RETURN format('The file for "%s" wasn''t uploaded', label);
+            END IF;
+            IF EXISTS (
+                SELECT 1
+                FROM public.registrations r, jsonb_each(r.responses) AS a(key, answer)
+                WHERE r.event_id = _event_id AND a.answer = to_jsonb(value)
+            ) THEN
+                RETURN format('The file for "%s" belongs to another registration', label);
+            END IF;
+            IF (upload ->> 'size')::BIGINT > COALESCE((field ->> 'maxSizeMb')::NUMERIC, 10) * 1024 * 1024 THEN
+                RETURN format('The file for "%s" can be at most %s MB', label, COALESCE(field ->> 'maxSizeMb', '10'));
+            END IF;
+            -- Same matching as an <input accept> list such as ".pdf,image/*"
+            IF COALESCE(btrim(field ->> 'accept'), '') <> '' AND NOT EXISTS (
+                SELECT 1
+                FROM unnest(string_to_array(lower(field ->> 'accept'), ',')) AS a(entry)
+                WHERE btrim(entry) <> ''
+                  AND CASE
+                      WHEN btrim(entry) LIKE '.%' THEN lower(value) LIKE '%' || btrim(entry)
+                      WHEN btrim(entry) LIKE '%/*' THEN lower(upload ->> 'mimetype') LIKE rtrim(btrim(entry), '*') || '%'
+                      ELSE lower(upload ->> 'mimetype') = btrim(entry)
+                  END
+            ) THEN
+                RETURN format('The file for "%s" must be one of: %s', label, field ->> 'accept');
+            END IF;
+
+        ELSE
+            IF (field ->> 'minLength') IS NOT NULL AND length(value) < (field ->> 'minLength')::INTEGER THEN
+                RETURN format('"%s" needs at least %s characters', label, field ->> 'minLength');
+            END IF;
+            IF (field ->> 'maxLength') IS NOT NULL AND length(value) > (field ->> 'maxLength')::INTEGER THEN
+                RETURN format('"%s" can be at most %s characters', label, field ->> 'maxLength');
+            END IF;
+            IF COALESCE(field ->> 'pattern', '') <> '' THEN
+                BEGIN
+                    IF value !~ (field ->> 'pattern') THEN
+                        RETURN format('"%s": %s', label, COALESCE(NULLIF(field ->> 'patternMessage', ''), 'this doesn''t look right'));
+                    END IF;
+                EXCEPTION WHEN invalid_regular_expression THEN
+                    -- Written for the browser's regex flavour; it was checked there
+                    NULL;
+                END;
+            END IF;
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Same as before, passing the event to registration_form_error
+CREATE OR REPLACE FUNCTION public.add_registration(
+    _event public.events,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB,
+    _status TEXT,
+    _team_id UUID DEFAULT NULL
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    form_error TEXT;
+    answers JSONB;
+    registration public.registrations;
+BEGIN
+    IF COALESCE(btrim(_full_name), '') = '' OR COALESCE(btrim(_email), '') = '' THEN
+        RAISE EXCEPTION 'Name and email are required';
+    END IF;
+
+    form_error := public.registration_form_error(_event.id, _event.registration_form, COALESCE(_responses, '{}'::jsonb));
+    IF form_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', form_error;
+    END IF;
+
+    -- Keep only answers to questions the form actually asks
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO answers
+    FROM jsonb_each(COALESCE(_responses, '{}'::jsonb))
+    WHERE key IN (SELECT f ->> 'id' FROM jsonb_array_elements(_event.registration_form) f);
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.registrations
+        WHERE event_id = _event.id
+          AND lower(email) = lower(btrim(_email))
+          AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION 'This email is already registered for the event' USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO public.registrations (event_id, user_id, full_name, email, status, responses, team_id)
+    VALUES (_event.id, auth.uid(), btrim(_full_name), btrim(_email), _status, answers, _team_id)
+    RETURNING * INTO registration;
+
+    RETURN registration;
+END;
+$$;
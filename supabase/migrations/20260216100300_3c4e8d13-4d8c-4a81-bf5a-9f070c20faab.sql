@@ -0,0 +1,54 @@
+-- join_team found the team by its code alone, so a code for another event's team
+-- registered the user for that event instead of the one they were looking at (and the
+-- page kept the manage token under the wrong event). It now takes the event and
+-- rejects codes for other events.
+DROP FUNCTION public.join_team(TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.join_team(
+    _event_id UUID,
+    _join_code TEXT,
+    _full_name TEXT,
+    _email TEXT,
+    _responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    team public.teams;
+    ev public.events;
+    members INTEGER;
+BEGIN
+    SELECT * INTO team
+    FROM public.teams
+    WHERE join_code = upper(btrim(_join_code)) AND status <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No team found with that code';
+    END IF;
+
+    -- The code is typed on one event's page; don't sign up for some other event instead
+    IF team.event_id <> _event_id THEN
+        RAISE EXCEPTION 'That code is for a team in a different event';
+    END IF;
+
+    ev := public.lock_event_for_registration(team.event_id);
+
+    IF team.locked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This team is locked and not taking new members';
+    END IF;
+
+    SELECT count(*) INTO members
+    FROM public.registrations
+    WHERE team_id = team.id AND status <> 'cancelled';
+
+    IF members >= ev.team_max_size THEN
+        RAISE EXCEPTION 'This team is full (% members)', ev.team_max_size;
+    END IF;
+
+    RETURN public.add_registration(ev, _full_name, _email, _responses, team.status, team.id);
+END;
+$$;
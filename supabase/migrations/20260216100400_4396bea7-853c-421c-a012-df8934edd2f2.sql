@@ -0,0 +1,10 @@
+-- Every address a team's captain has emailed the join code to, so send-team-invites
+-- doesn't mail anyone twice. Only that function (service role) uses it.
+CREATE TABLE public.team_invites (
+    team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (team_id, email)
+);
+
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,84 @@
+-- Profiles were readable by anyone while every one was staff. Students now get one
+-- when they sign in, so the table stops being public: each person sees their own,
+-- club POCs see other staff, club members see each other (the member list shows
+-- names and emails), and public_profiles lists staff names for anyone.
+DROP POLICY "Anyone can view profiles" ON public.profiles;
+CREATE POLICY "Users can view own profile" ON public.profiles FOR SELECT USING (auth.uid() = id);
+CREATE POLICY "Club POCs can view staff profiles" ON public.profiles FOR SELECT USING (
+    role <> 'student' AND public.has_role(auth.uid(), 'club_poc')
+);
+CREATE POLICY "Club members can view fellow members' profiles" ON public.profiles FOR SELECT USING (
+    EXISTS (
+        SELECT 1
+        FROM public.club_memberships m
+        WHERE m.user_id = profiles.id
+          AND public.has_club_role(auth.uid(), m.club_id, 'viewer')
+    )
+);
+
+CREATE VIEW public.public_profiles AS
+SELECT id, full_name
+FROM public.profiles
+WHERE role <> 'student';
+
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- Claiming at signup handed an email's registrations and tickets to whoever created an
+-- account with it, confirmed or not. Claims now happen only through claim_my_events,
+-- once the address is confirmed.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, email, full_name, role, club_id)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', split_part(NEW.email, '@', 1)),
+        'student',
+        NULL
+    );
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+
+    IF NULLIF(trim(NEW.raw_user_meta_data->>'invitation_code'), '') IS NOT NULL THEN
+        PERFORM public.apply_invitation(NEW.id, NEW.email, NEW.raw_user_meta_data->>'invitation_code');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Claims for the signed-in user; picks up anything subscribed to since the last visit
+CREATE OR REPLACE FUNCTION public.claim_my_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_email TEXT;
+BEGIN
+    SELECT email INTO user_email
+    FROM auth.users
+    WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+    IF user_email IS NULL THEN
+        RAISE EXCEPTION 'Confirm your email to see your events';
+    END IF;
+    RETURN public.claim_user_events(auth.uid(), user_email);
+END;
+$$;
+
+-- Give back what unconfirmed accounts already claimed; they pick it up again once confirmed
+UPDATE public.notifications
+SET user_id = NULL
+WHERE user_id IN (SELECT id FROM auth.users WHERE email_confirmed_at IS NULL);
+
+UPDATE public.registrations
+SET user_id = NULL
+WHERE user_id IN (SELECT id FROM auth.users WHERE email_confirmed_at IS NULL);
@@ -0,0 +1,100 @@
+-- Editing "this and all future occurrences" rewrote the series' one rule, so the
+-- occurrences before the edit no longer matched it. Now the earlier ones keep the old
+-- rule, cut off before the edit (_earlier_rule), and the moved ones get a series of
+-- their own (_rule). Fields missing from _changes are left as they are rather than
+-- cleared. Returns the series the moved occurrences belong to.
+DROP FUNCTION public.update_series_occurrences(UUID, JSONB, JSONB, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.update_series_occurrences(
+    _series_id UUID,
+    _changes JSONB,
+    _occurrences JSONB,
+    _rule JSONB,
+    _earlier_rule JSONB,
+    _override BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    moved UUID[];
+    target UUID := _series_id;
+    updated INTEGER;
+BEGIN
+    SELECT array_agg(o.id) INTO moved
+    FROM jsonb_to_recordset(_occurrences) AS o(id UUID);
+
+    IF EXISTS (SELECT 1 FROM public.events WHERE series_id = _series_id AND id <> ALL (moved)) THEN
+        UPDATE public.event_series s
+        SET until_date = r.until_date,
+            occurrence_count = r.occurrence_count,
+            exception_dates = r.exception_dates,
+            rrule = r.rrule
+        FROM jsonb_populate_record(NULL::public.event_series, _earlier_rule) r
+        WHERE s.id = _series_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'You can''t edit this series';
+        END IF;
+
+        INSERT INTO public.event_series (
+            club_id, frequency, interval_count, by_weekday, until_date,
+            occurrence_count, exception_dates, rrule, created_by
+        )
+        SELECT
+            COALESCE((_changes ->> 'club_id')::UUID, s.club_id), r.frequency, r.interval_count, r.by_weekday, r.until_date,
+            r.occurrence_count, r.exception_dates, r.rrule, auth.uid()
+        FROM public.event_series s, jsonb_populate_record(NULL::public.event_series, _rule) r
+        WHERE s.id = _series_id
+        RETURNING id INTO target;
+    ELSE
+        -- Every occurrence moved, so the series keeps one rule
+        UPDATE public.event_series s
+        SET frequency = r.frequency,
+            interval_count = r.interval_count,
+            by_weekday = r.by_weekday,
+            until_date = r.until_date,
+            occurrence_count = r.occurrence_count,
+            exception_dates = r.exception_dates,
+            rrule = r.rrule
+        FROM jsonb_populate_record(NULL::public.event_series, _rule) r
+        WHERE s.id = _series_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'You can''t edit this series';
+        END IF;
+    END IF;
+
+    UPDATE public.events e
+    SET (event_name, description, venue_id, club_id, is_open, setup_minutes, teardown_minutes,
+         capacity, registration_form, team_min_size, team_max_size) = (
+            SELECT c.event_name, c.description, c.venue_id, c.club_id, c.is_open, c.setup_minutes, c.teardown_minutes,
+                   c.capacity, c.registration_form, c.team_min_size, c.team_max_size
+            FROM jsonb_populate_record(e, _changes) c
+        ),
+        series_id = target,
+        start_time = o.start_time,
+        end_time = o.end_time,
+        registration_start = o.registration_start,
+        registration_end = o.registration_end,
+        -- guard_conflict_override decides whether the caller may set or keep this
+        conflict_override = e.conflict_override OR _override
+    FROM jsonb_to_recordset(_occurrences) AS o(
+        id UUID,
+        start_time TIMESTAMP WITH TIME ZONE,
+        end_time TIMESTAMP WITH TIME ZONE,
+        registration_start TIMESTAMP WITH TIME ZONE,
+        registration_end TIMESTAMP WITH TIME ZONE
+    )
+    WHERE e.id = o.id AND e.series_id = _series_id;
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    IF updated <> jsonb_array_length(_occurrences) THEN
+        RAISE EXCEPTION 'You can''t edit every occurrence of this series';
+    END IF;
+
+    RETURN target;
+END;
+$$;
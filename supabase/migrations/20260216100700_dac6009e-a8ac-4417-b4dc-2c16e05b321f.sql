@@ -0,0 +1,50 @@
+-- Calendar feeds told subscribers every unapproved event was cancelled, including
+-- requests that were never published, which leaked pending bookings into everyone's
+-- calendar. published_at records the first approval, so feeds can leave out events no
+-- calendar ever had and cancel only the ones that were withdrawn.
+ALTER TABLE public.events
+    ADD COLUMN published_at TIMESTAMP WITH TIME ZONE;
+
+-- Approvals withdrawn before now can't be told apart from requests that were never
+-- approved, so only the events approved today count as published
+UPDATE public.events
+SET published_at = COALESCE(decided_at, created_at)
+WHERE approval_status = 'approved';
+
+-- Runs after guard_events_approval (triggers fire by name), once the status is final
+CREATE OR REPLACE FUNCTION public.stamp_event_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    -- Only ever set here
+    NEW.published_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.published_at END;
+    IF NEW.approval_status = 'approved' AND NEW.published_at IS NULL THEN
+        NEW.published_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_events_published_at
+    BEFORE INSERT OR UPDATE ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_event_published_at();
+
+-- A withdrawn event that is then deleted was still in calendars
+CREATE OR REPLACE FUNCTION public.record_event_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.published_at IS NOT NULL THEN
+        INSERT INTO public.event_tombstones (event_id, club_id, venue_id, event_name, start_time, end_time, sequence)
+        VALUES (OLD.id, OLD.club_id, OLD.venue_id, OLD.event_name, OLD.start_time, OLD.end_time, OLD.sequence + 1)
+        ON CONFLICT (event_id) DO NOTHING;
+    END IF;
+    RETURN NULL;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- The 9 AM - 9 PM seed used to shape only the suggested slots, but as opening hours
+-- it blocks any booking outside them, and only super admins can override. Venues
+-- start open around the clock instead, as bookings were before hours existed, and
+-- admins narrow them where needed.
+
+-- Venues still on the untouched seed: all seven days at 9 AM - 9 PM
+UPDATE public.venue_hours h
+SET open_time = '00:00', close_time = '24:00'
+WHERE h.venue_id IN (
+    SELECT venue_id
+    FROM public.venue_hours
+    GROUP BY venue_id
+    HAVING count(*) = 7
+       AND bool_and(open_time = '09:00' AND close_time = '21:00')
+);
+
+CREATE OR REPLACE FUNCTION public.seed_venue_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.venue_hours (venue_id, weekday, open_time, close_time)
+    SELECT NEW.id, d.weekday, '00:00', '24:00'
+    FROM generate_series(0, 6) AS d(weekday);
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Capacity at team events counts teams: events.capacity when the organiser sets it,
+-- otherwise as many full teams as the venue seats. That whole-number division gave a
+-- venue smaller than one full team no room at all, so no team could ever register.
+-- Such a venue now fits one team. A venue with no capacity still means no limit.
+CREATE OR REPLACE FUNCTION public.event_capacity(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    e.capacity,
+    CASE WHEN e.team_max_size IS NULL THEN v.capacity ELSE GREATEST(1, v.capacity / e.team_max_size) END
+  )
+  FROM public.events e
+  LEFT JOIN public.venues v ON v.id = e.venue_id
+  WHERE e.id = _event_id
+$$;
+
+-- Seat counts; for team events capacity and counts are in teams
+CREATE OR REPLACE FUNCTION public.get_event_seats(_event_ids UUID[])
+RETURNS TABLE (event_id UUID, capacity INTEGER, confirmed INTEGER, waitlisted INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    public.event_capacity(e.id),
+    CASE WHEN e.team_max_size IS NULL
+      THEN (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'confirmed')
+      ELSE (SELECT count(*)::INTEGER FROM public.teams t WHERE t.event_id = e.id AND t.status = 'confirmed')
+    END,
+    CASE WHEN e.team_max_size IS NULL
+      THEN (SELECT count(*)::INTEGER FROM public.registrations r WHERE r.event_id = e.id AND r.status = 'waitlisted')
+      ELSE (SELECT count(*)::INTEGER FROM public.teams t WHERE t.event_id = e.id AND t.status = 'waitlisted')
+    END
+  FROM public.events e
+  WHERE e.id = ANY(_event_ids)
+$$;